@@ -1,30 +1,75 @@
 
-import React, { useEffect, useState, useMemo } from 'react';
-import { fetchSensorData, parseDate, formatDateTime } from './services/dataService';
-import { SensorData, GatewayStatus, SheetRow } from './types';
+import React, { useEffect, useState, useMemo, useRef } from 'react';
+import { fetchSensorData, loadCachedSnapshot, rebuildSnapshot, mergeRowsIntoSnapshot, parseDate, formatDateTime, queryStoredRows } from './services/dataService';
+import { intlTimeZone } from './services/timeService';
+import { getCalibration } from './services/calibrationService';
+import { deviceName, deviceTransport, updateDevice } from './services/deviceRegistry';
+import { SensorData, Gateway, SheetRow, SensorSnapshot } from './types';
 import { StatusBadge } from './components/StatusBadge';
 import { SystemHealth } from './components/SystemHealth';
+import { GatewayDetail } from './components/GatewayDetail';
 import { WaterLevelChart } from './components/WaterLevelChart';
 import { DataLogs } from './components/DataLogs';
+import { DataQuality } from './components/DataQuality';
+import { CsvImport } from './components/CsvImport';
 import { IrrigationAdvice } from './components/IrrigationAdvice';
 import { WeatherDashboard } from './components/WeatherDashboard';
 import { CropManager, calculateStage } from './components/CropManager';
 import { AWDGauge } from './components/AWDGauge';
 import { PaddyVisual } from './components/PaddyVisual';
+import { SourceSettings } from './components/SourceSettings';
+import { CalibrationWizard } from './components/CalibrationWizard';
+import { FilterSettings } from './components/FilterSettings';
+import { DisplaySettings } from './components/DisplaySettings';
+import { DeviceSettings } from './components/DeviceSettings';
+import { NotificationSettings } from './components/NotificationSettings';
+import { AlertRules } from './components/AlertRules';
+import { AlertHistory } from './components/AlertHistory';
+import { WebhookSettings } from './components/WebhookSettings';
+import { ReportingReliability } from './components/ReportingReliability';
+import { SignalAnalytics } from './components/SignalAnalytics';
+import { NetworkOverview } from './components/NetworkOverview';
+import { SourceStatus } from './components/SourceStatus';
+import { withFreshness } from './services/freshnessService';
+import { updateStorageAlerts, dismissStorageAlert, StorageAlert } from './services/storageForecast';
+import { assessStatus } from './services/statusEngine';
+import { estimateBattery, BATTERY_WINDOW_MS } from './services/batteryService';
+import { deviceSignalKind, signalFromRows } from './services/signalAnalytics';
+import { findSourceOutages, SourceOutage } from './services/sourceHealth';
+import { getDataSources, isSourceConfigured } from './services/sourceRegistry';
+import { onDataRefreshed } from './services/offlineService';
+import { detectPlotAlerts, settlePlotAlerts, fromRuleAlert } from './services/plotAlerts';
+import { evaluateRules, RuleAlert, RuleContext } from './services/alertRules';
+import { notifyPlotAlerts, takePlotFromUrl, onPlotOpened, getNotificationSettings } from './services/notificationService';
+import { recordAlerts, recordStorageAlerts, recordSourceOutages } from './services/alertHistory';
+import { dispatchWebhooks, getWebhooks } from './services/webhookService';
+import { nodeDelivery, linkState, getDeliveryThresholds, NodeDelivery } from './services/packetLoss';
 import { fetchLocalWeather, getUserLocation, WeatherData } from './services/weatherService';
-import { Sprout, RefreshCw, ArrowLeft, Clock, LayoutDashboard, FileText, AlertTriangle, Zap, Radio, ArrowRight, ArrowUp, ArrowDown, Move, Save, MapPin, CloudRain, Sun, CloudSun, Smartphone, Edit2, Check, X, WifiOff } from 'lucide-react';
+import { Sprout, RefreshCw, ArrowLeft, Clock, LayoutDashboard, FileText, AlertTriangle, Zap, Radio, ArrowRight, ArrowUp, ArrowDown, Move, Save, MapPin, CloudRain, Sun, CloudSun, Smartphone, Edit2, Check, X, WifiOff, Settings, Ruler, ShieldCheck, Upload, HardDrive, Database, BellRing, History } from 'lucide-react';
+
+// Pause between the end of one refresh and the start of the next
+const REFRESH_INTERVAL_MS = 60000;
+// Slower pace kept while the tab is hidden, so alerts still go out
+const HIDDEN_REFRESH_INTERVAL_MS = 5 * 60000;
+
+const wantsBackgroundAlerts = () => getNotificationSettings().enabled || getWebhooks().some(h => h.enabled && h.url);
 
 function App() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
   const [sensors, setSensors] = useState<SensorData[]>([]);
-  const [gateway, setGateway] = useState<GatewayStatus | null>(null);
+  const [gateways, setGateways] = useState<Gateway[]>([]);
+  const [storageAlerts, setStorageAlerts] = useState<StorageAlert[]>([]);
+  const [sourceOutages, setSourceOutages] = useState<SourceOutage[]>([]);
+  const [ruleAlerts, setRuleAlerts] = useState<RuleAlert[]>([]);
   const [logs, setLogs] = useState<SheetRow[]>([]);
   
   const [selectedSensor, setSelectedSensor] = useState<SensorData | null>(null);
+  const [selectedGatewayId, setSelectedGatewayId] = useState<string | null>(null);
+  const [telemetryRows, setTelemetryRows] = useState<SheetRow[]>([]);
   const [lastRefreshed, setLastRefreshed] = useState<Date>(new Date());
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'logs' | 'weather'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'logs' | 'weather' | 'settings'>('dashboard');
   const [isRearranging, setIsRearranging] = useState(false);
   const [usingCache, setUsingCache] = useState(false);
   
@@ -32,6 +77,11 @@ function App() {
   const [editingNameId, setEditingNameId] = useState<string | null>(null);
   const [tempName, setTempName] = useState('');
 
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [logsView, setLogsView] = useState<'readings' | 'quality' | 'network' | 'sources' | 'alerts'>('readings');
+  const [deliveryThresholds, setDeliveryThresholds] = useState(getDeliveryThresholds());
+  const [showImport, setShowImport] = useState(false);
+
   // Filter State for Dashboard
   const [dashboardFilter, setDashboardFilter] = useState<'all' | 'lora' | 'gsm'>('all');
 
@@ -40,19 +90,45 @@ function App() {
   const [weatherLoading, setWeatherLoading] = useState(false);
   const [weatherError, setWeatherError] = useState(false);
 
-  const getSavedNames = () => {
-    try {
-      const saved = localStorage.getItem('sensor_custom_names');
-      return saved ? JSON.parse(saved) : {};
-    } catch { return {}; }
+  // Last merged snapshot; incremental refreshes append to it
+  const snapshotRef = useRef<SensorSnapshot | null>(null);
+
+  // Refresh in flight, and whether a full reload is waiting for it to stop
+  const refreshRef = useRef<{ promise: Promise<void>, controller: AbortController, full: boolean } | null>(null);
+  const queuedFullRef = useRef<Promise<void> | null>(null);
+
+  // Plot to open once its data is loaded (?plot= link or notification click).
+  // The link is read, and stripped from the address, on the first render only.
+  const [linkedPlot] = useState(takePlotFromUrl);
+  const pendingPlotRef = useRef<string | null>(linkedPlot);
+
+  // Latest forecast for alert rules, which run outside the render cycle
+  const weatherRef = useRef<WeatherData | null>(null);
+  // Whether the snapshot held came from a source that answered live
+  const liveDataRef = useRef(false);
+
+  // Re-assesses status with the plot's crop stage, which changes day to day
+  const stageAwareStatus = (sensor: SensorData) => {
+      const crop = getCropInfo(sensor.id);
+      if (!crop || sensor.history.length === 0) return {};
+      return assessStatus(sensor.currentLevel, sensor.history, {
+          calibration: getCalibration(sensor.id),
+          reported: sensor.raw["Status"],
+          stageIndex: crop.stageIndex,
+          stageName: crop.stageName
+      });
   };
 
-  const processAndSetData = (data: { sensors: SensorData[], gateway: GatewayStatus, logs: SheetRow[] }) => {
-      // 1. Apply Custom Names
-      const savedNames = getSavedNames();
-      const sensorsWithNames = data.sensors.map(s => ({
+  // `live` is true only for data a source has just returned: stored or
+  // cached snapshots make every plot look silent, so they raise no alerts.
+  // `rejudge` re-evaluates the rules on live data already held, after rules
+  // or settings changed; the next live refresh notifies, logs and sends.
+  const processAndSetData = (data: SensorSnapshot, live: boolean = false, rejudge: boolean = false) => {
+      // 1. Apply Registry Names and mark nodes that stopped reporting
+      const sensorsWithNames = withFreshness(data.sensors).map(s => ({
           ...s,
-          name: savedNames[s.id] || s.name
+          ...stageAwareStatus(s),
+          name: deviceName(s.id)
       }));
 
       // 2. Apply saved order
@@ -75,58 +151,98 @@ function App() {
       }
 
       setSensors(sortedSensors);
-      setGateway(data.gateway);
+      // Rules keep state between refreshes, so they only see live data too
+      const context: RuleContext = {
+          stageIndex: id => getCropInfo(id)?.stageIndex,
+          weather: weatherRef.current
+      };
+      if (live) {
+        const rules = evaluateRules(sortedSensors, context);
+        setRuleAlerts(rules);
+        const plotAlerts = [...settlePlotAlerts(detectPlotAlerts(sortedSensors, context), sortedSensors, context), ...rules.map(fromRuleAlert)];
+        notifyPlotAlerts(plotAlerts);
+        recordAlerts(plotAlerts, sortedSensors, context);
+        dispatchWebhooks(plotAlerts, sortedSensors);
+      } else if (rejudge && liveDataRef.current) {
+        setRuleAlerts(evaluateRules(sortedSensors, context));
+      }
+      // Standalone units are named after the device they are
+      const namedGateways = data.gateways.map(g => g.kind === 'standalone' ? { ...g, name: deviceName(g.id) } : g);
+      setGateways(namedGateways);
+      if (namedGateways.length > 0) {
+        const storage = updateStorageAlerts(namedGateways);
+        if (live) recordStorageAlerts(storage);
+        setStorageAlerts(storage.filter(a => !a.dismissed));
+      }
       setLogs(data.logs);
 
-      // Preserve selection with updated data
-      if (selectedSensor) {
+      // Opened from a notification: go straight to the plot
+      const linked = pendingPlotRef.current ? sortedSensors.find(s => s.id === pendingPlotRef.current) : undefined;
+      if (linked) {
+        pendingPlotRef.current = null;
+        setActiveTab('dashboard');
+        setSelectedGatewayId(null);
+        setSelectedSensor(linked);
+      } else if (selectedSensor) {
+        // Preserve selection with updated data
         const updated = sortedSensors.find(s => s.id === selectedSensor.id);
         if (updated) setSelectedSensor(updated);
       }
   };
 
-  const loadData = async () => {
+  // Incremental by default: only rows newer than each source's cursor are
+  // downloaded. Pass full=true to re-download everything.
+  const runRefresh = async (full: boolean, scheduled: boolean, signal: AbortSignal) => {
     if (!isRearranging) setLoading(true); 
     setError(null);
     // Note: Do not reset usingCache immediately to avoid flickering UI during re-fetch
     
+    // First load: show whatever the local store holds while the network catches up
+    if (!snapshotRef.current && !full) {
+      const cached = await loadCachedSnapshot();
+      if (cached && cached.snapshot.sensors.length > 0) {
+          snapshotRef.current = cached.snapshot;
+          processAndSetData(cached.snapshot);
+          setLastRefreshed(new Date(cached.lastSync || Date.now()));
+      }
+    }
+
     try {
-      const data = await fetchSensorData();
+      // Timer refreshes leave failing sources to their backoff
+      const data = await fetchSensorData({ full, previous: snapshotRef.current, force: !scheduled, signal });
       
       // If we got valid sensor data, treat as success
       if (data.sensors.length > 0) {
-          // Update Cache
-          localStorage.setItem('sensor_cache', JSON.stringify({
-              timestamp: Date.now(),
-              data
-          }));
-
-          processAndSetData(data);
-          setLastRefreshed(new Date());
-          setUsingCache(false); // Valid live data
+          snapshotRef.current = data;
+          processAndSetData(data, data.live);
+          // Rows the service worker answered from its cache are shown, but
+          // the offline banner stays until a source answers live
+          if (data.live) setLastRefreshed(new Date());
+          liveDataRef.current = !!data.live;
+          setUsingCache(!data.live);
       } else {
           // Received empty data structure (possibly offline or empty sheet)
           throw new Error("No data received from gateway");
       }
 
     } catch (err: any) {
-      console.warn("Fetch failed, attempting to load from cache", err);
+      if (err?.name === 'AbortError') return;
+      console.warn("Fetch failed, falling back to local store", err);
       
-      const cached = localStorage.getItem('sensor_cache');
-      if (cached) {
-          try {
-              const { timestamp, data } = JSON.parse(cached);
-              processAndSetData(data);
-              setLastRefreshed(new Date(timestamp));
-              setUsingCache(true);
-              // Clear error if we successfully loaded cache (we show the Offline Banner instead)
-              setError(null);
-          } catch (cacheErr) {
-              console.error("Cache corrupted", cacheErr);
-              setUsingCache(false);
-              const message = err.message || "Connection failed and cache is unavailable.";
-              setError(message);
-          }
+      const cached = snapshotRef.current ? null : await loadCachedSnapshot();
+      if (cached && cached.snapshot.sensors.length > 0) {
+          snapshotRef.current = cached.snapshot;
+          processAndSetData(cached.snapshot);
+          setLastRefreshed(new Date(cached.lastSync || Date.now()));
+      }
+
+      if (snapshotRef.current && snapshotRef.current.sensors.length > 0) {
+          // Re-assess freshness: silent nodes go stale while offline too
+          if (!cached) processAndSetData(snapshotRef.current);
+          liveDataRef.current = false;
+          setUsingCache(true);
+          // Clear error if we have stored readings (we show the Offline Banner instead)
+          setError(null);
       } else {
           setUsingCache(false);
           const message = err.message && err.message.length > 0 && err.message !== "Failed to fetch" 
@@ -135,17 +251,93 @@ function App() {
           setError(message);
       }
     } finally {
+      const outages = findSourceOutages(getDataSources().filter(isSourceConfigured));
+      recordSourceOutages(outages);
+      setSourceOutages(outages);
       setLoading(false);
     }
   };
 
-  // Initial Load
+  // Only one refresh runs at a time; later calls join it. A full reload
+  // cancels an incremental refresh in flight and runs once it has stopped.
+  const loadData = (full: boolean = false, scheduled: boolean = false): Promise<void> => {
+    const current = refreshRef.current;
+    if (current) {
+      if (full && !current.full) {
+        // Callers wait for the full reload, not the refresh it cancelled
+        if (!queuedFullRef.current) {
+          queuedFullRef.current = current.promise.then(() => {
+            queuedFullRef.current = null;
+            return loadData(true);
+          });
+          current.controller.abort();
+        }
+        return queuedFullRef.current;
+      }
+      return current.promise;
+    }
+
+    const controller = new AbortController();
+    const promise = runRefresh(full, scheduled, controller.signal)
+      .catch(err => console.error("Refresh failed", err))
+      .finally(() => {
+        refreshRef.current = null;
+      });
+    refreshRef.current = { promise, controller, full };
+    return promise;
+  };
+
+  // Initial Load, then a refresh a minute after each one finishes. Hidden
+  // tabs keep a slower pace while notifications or webhooks are on, so
+  // alerts still go out; otherwise they stop and catch up when shown.
   useEffect(() => {
-    loadData();
-    const interval = setInterval(loadData, 60000);
-    return () => clearInterval(interval);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const schedule = () => {
+      clearTimeout(timer);
+      if (stopped || (document.hidden && !wantsBackgroundAlerts())) return;
+      timer = setTimeout(() => loadData(false, true).then(schedule), document.hidden ? HIDDEN_REFRESH_INTERVAL_MS : REFRESH_INTERVAL_MS);
+    };
+
+    const handleVisibility = () => {
+      if (document.hidden) schedule();
+      else loadData(false, true).then(schedule);
+    };
+
+    loadData().then(schedule);
+    document.addEventListener('visibilitychange', handleVisibility);
+    // The service worker reached the network again or synced in the background
+    const unsubscribe = onDataRefreshed(() => { if (!document.hidden) loadData(false, true).then(schedule); });
+    const unsubscribePlot = onPlotOpened(plotId => {
+      pendingPlotRef.current = plotId;
+      if (snapshotRef.current) processAndSetData(snapshotRef.current);
+    });
+    return () => {
+      unsubscribePlot();
+      stopped = true;
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      unsubscribe();
+      refreshRef.current?.controller.abort();
+    };
   }, []);
 
+  // Battery and signal trends for the open plot, re-read from the store on every refresh
+  useEffect(() => {
+    if (!selectedSensor) return;
+    let cancelled = false;
+    const fallback = logs.filter(l => l["Device ID"] === selectedSensor.id);
+    queryStoredRows({ deviceId: selectedSensor.id, from: Date.now() - BATTERY_WINDOW_MS })
+      .then(rows => { if (!cancelled) setTelemetryRows(rows.length > 0 ? rows : fallback); })
+      .catch(() => { if (!cancelled) setTelemetryRows(fallback); });
+    return () => { cancelled = true; };
+  }, [selectedSensor?.id, selectedSensor?.lastUpdated]);
+
+  const battery = useMemo(() => estimateBattery(telemetryRows), [telemetryRows]);
+  const signalKind = useMemo(() => deviceSignalKind(telemetryRows), [telemetryRows]);
+  const signalSamples = useMemo(() => signalFromRows(telemetryRows, signalKind), [telemetryRows, signalKind]);
+
   // Load Weather from Storage on mount if available
   useEffect(() => {
     const saved = localStorage.getItem('fieldLocation');
@@ -174,6 +366,7 @@ function App() {
 
         const weatherDataWithCorrectName = { ...data, locationName: finalName };
         setWeather(weatherDataWithCorrectName);
+        weatherRef.current = weatherDataWithCorrectName;
         
         if (save || overrideName) {
             localStorage.setItem('fieldLocation', JSON.stringify({
@@ -246,13 +439,7 @@ function App() {
 
   const handleSaveName = (e: React.SyntheticEvent, id: string) => {
     e.stopPropagation();
-    const saved = getSavedNames();
-    if (!tempName.trim()) {
-        delete saved[id]; // Revert to default if empty
-    } else {
-        saved[id] = tempName.trim();
-    }
-    localStorage.setItem('sensor_custom_names', JSON.stringify(saved));
+    updateDevice(id, { name: tempName }); // Reverts to default if empty
     setEditingNameId(null);
     loadData(); // Reload to apply changes
   };
@@ -273,14 +460,28 @@ function App() {
     if (hours < 24) return `${hours} hour${hours !== 1 ? 's' : ''} ago`;
     const days = Math.floor(hours / 24);
     if (days < 7) return `${days} day${days !== 1 ? 's' : ''} ago`;
-    return new Date(ts).toLocaleDateString();
+    return new Date(ts).toLocaleDateString(undefined, { timeZone: intlTimeZone() });
+  };
+
+  // Calibration, filter or rule settings changed: re-derive levels from the
+  // raw rows already held and judge the rules on them again
+  const reprocessSnapshot = () => {
+    if (!snapshotRef.current) return;
+    snapshotRef.current = rebuildSnapshot(snapshotRef.current);
+    processAndSetData(snapshotRef.current, false, true);
+  };
+
+  // Imported seasons join the sensor histories like late-arriving rows
+  const handleImported = (rows: SheetRow[]) => {
+    snapshotRef.current = mergeRowsIntoSnapshot(snapshotRef.current, rows);
+    processAndSetData(snapshotRef.current);
   };
 
   const getCropInfo = (id: string) => {
     try {
         const saved = localStorage.getItem(`crop_${id}`);
         if (saved) {
-            return calculateStage(JSON.parse(saved));
+            return calculateStage(JSON.parse(saved), getCalibration(id));
         }
     } catch (e) { return null; }
     return null;
@@ -299,40 +500,50 @@ function App() {
   // Filter sensors based on selection
   const filteredSensors = useMemo(() => {
       if (dashboardFilter === 'all') return sensors;
-      if (dashboardFilter === 'lora') return sensors.filter(s => s.id.toLowerCase().includes('lora'));
-      if (dashboardFilter === 'gsm') return sensors.filter(s => !s.id.toLowerCase().includes('lora'));
+      if (dashboardFilter === 'lora') return sensors.filter(s => deviceTransport(s.id) === 'LoRa');
+      if (dashboardFilter === 'gsm') return sensors.filter(s => deviceTransport(s.id) !== 'LoRa');
       return sensors;
   }, [sensors, dashboardFilter]);
 
+  // Same device filter as a predicate, for views that read the local store
+  const includeDevice = useMemo(() => {
+      if (dashboardFilter === 'lora') return (id: string) => !!id && deviceTransport(id) === 'LoRa';
+      if (dashboardFilter === 'gsm') return (id: string) => !!id && deviceTransport(id) !== 'LoRa';
+      return undefined;
+  }, [dashboardFilter]);
+
   // Filter logs based on current dashboard filter
   const filteredLogs = useMemo(() => {
       if (dashboardFilter === 'all') return logs;
-      if (dashboardFilter === 'lora') return logs.filter(l => l["Device ID"] && l["Device ID"].toLowerCase().includes('lora'));
-      if (dashboardFilter === 'gsm') return logs.filter(l => l["Device ID"] && !l["Device ID"].toLowerCase().includes('lora'));
+      if (dashboardFilter === 'lora') return logs.filter(l => l["Device ID"] && deviceTransport(l["Device ID"]) === 'LoRa');
+      if (dashboardFilter === 'gsm') return logs.filter(l => l["Device ID"] && deviceTransport(l["Device ID"]) !== 'LoRa');
       return logs;
   }, [logs, dashboardFilter]);
 
-  // Calculate active gateway status based on filtered logs (latest log from filtered set)
-  const activeGateway = useMemo(() => {
-      if (filteredLogs.length > 0) {
-          const latest = filteredLogs[0];
-          return {
-              network: latest["Network"] || "Unknown",
-              simOperator: latest["SIM Operator"] || "-",
-              wifiSignal: String(latest["WiFi Strength (dBm)"] || "0"),
-              gsmSignal: String(latest["GSM Strength (RSSI)"] || "0"),
-              sdFree: String(latest["SD Free (MB)"] || "0"),
-              lastBatchUpload: latest["Batch Upload Time"] || latest["Gateway Received Time"] || "N/A",
-              source: latest["Device ID"]
-          } as GatewayStatus;
-      }
-      return gateway;
-  }, [filteredLogs, gateway]);
+  // Gateways behind the current dashboard filter
+  const visibleGateways = useMemo(() => {
+      if (dashboardFilter === 'lora') return gateways.filter(g => g.kind === 'lora-gateway');
+      if (dashboardFilter === 'gsm') return gateways.filter(g => g.kind === 'standalone');
+      return gateways;
+  }, [gateways, dashboardFilter]);
+
+  // Uplink delivery per node over the rows held by the snapshot
+  const deliveries = useMemo(() => {
+      const rowsByDevice: Record<string, SheetRow[]> = {};
+      logs.forEach(l => { (rowsByDevice[l["Device ID"]] = rowsByDevice[l["Device ID"]] || []).push(l); });
+      const result: Record<string, NodeDelivery> = {};
+      sensors.forEach(s => {
+          if (rowsByDevice[s.id]) result[s.id] = nodeDelivery(rowsByDevice[s.id], s.expectedInterval || 15 * 60000);
+      });
+      return result;
+  }, [logs, sensors]);
+
+  const selectedGateway = selectedGatewayId ? gateways.find(g => g.id === selectedGatewayId) || null : null;
 
   // Check if we have mixed device types to show filter
   const hasMixedDevices = useMemo(() => {
-      const hasLora = sensors.some(s => s.id.toLowerCase().includes('lora'));
-      const hasGsm = sensors.some(s => !s.id.toLowerCase().includes('lora'));
+      const hasLora = sensors.some(s => deviceTransport(s.id) === 'LoRa');
+      const hasGsm = sensors.some(s => deviceTransport(s.id) !== 'LoRa');
       return hasLora && hasGsm;
   }, [sensors]);
 
@@ -354,23 +565,29 @@ function App() {
             
             <div className="hidden md:flex items-center space-x-1 mx-6 bg-slate-100/50 p-1 rounded-full border border-slate-200/50">
                 <button 
-                  onClick={() => { setActiveTab('dashboard'); setSelectedSensor(null); }}
+                  onClick={() => { setActiveTab('dashboard'); setSelectedSensor(null); setSelectedGatewayId(null); }}
                   className={`px-5 py-1.5 rounded-full text-sm font-semibold transition-all flex items-center gap-2 ${activeTab === 'dashboard' ? 'bg-white text-emerald-600 shadow-sm ring-1 ring-slate-200' : 'text-slate-500 hover:text-slate-700 hover:bg-slate-200/50'}`}
                 >
                   <LayoutDashboard size={16} /> Fields
                 </button>
                 <button 
-                  onClick={() => { setActiveTab('logs'); setSelectedSensor(null); }}
+                  onClick={() => { setActiveTab('logs'); setSelectedSensor(null); setSelectedGatewayId(null); }}
                   className={`px-5 py-1.5 rounded-full text-sm font-semibold transition-all flex items-center gap-2 ${activeTab === 'logs' ? 'bg-white text-emerald-600 shadow-sm ring-1 ring-slate-200' : 'text-slate-500 hover:text-slate-700 hover:bg-slate-200/50'}`}
                 >
                   <FileText size={16} /> Logs
                 </button>
                 <button 
-                  onClick={() => { setActiveTab('weather'); setSelectedSensor(null); }}
+                  onClick={() => { setActiveTab('weather'); setSelectedSensor(null); setSelectedGatewayId(null); }}
                   className={`px-5 py-1.5 rounded-full text-sm font-semibold transition-all flex items-center gap-2 ${activeTab === 'weather' ? 'bg-white text-emerald-600 shadow-sm ring-1 ring-slate-200' : 'text-slate-500 hover:text-slate-700 hover:bg-slate-200/50'}`}
                 >
                   <CloudSun size={16} /> Weather
                 </button>
+                <button 
+                  onClick={() => { setActiveTab('settings'); setSelectedSensor(null); setSelectedGatewayId(null); }}
+                  className={`px-5 py-1.5 rounded-full text-sm font-semibold transition-all flex items-center gap-2 ${activeTab === 'settings' ? 'bg-white text-emerald-600 shadow-sm ring-1 ring-slate-200' : 'text-slate-500 hover:text-slate-700 hover:bg-slate-200/50'}`}
+                >
+                  <Settings size={16} /> Settings
+                </button>
             </div>
 
             <div className="flex items-center gap-4">
@@ -395,7 +612,7 @@ function App() {
                 <span className="block text-xs font-mono font-semibold text-slate-700">{lastRefreshed.toLocaleTimeString()}</span>
               </div>
               
-              {activeTab === 'dashboard' && !selectedSensor && (
+              {activeTab === 'dashboard' && !selectedSensor && !selectedGateway && (
                 <button 
                   onClick={() => setIsRearranging(!isRearranging)}
                   className={`p-2 rounded-full border transition-all ${isRearranging ? 'bg-emerald-600 text-white border-emerald-600 hover:bg-emerald-700' : 'bg-white text-slate-500 border-slate-200 hover:border-emerald-300 hover:text-emerald-600'}`}
@@ -406,7 +623,7 @@ function App() {
               )}
 
               <button 
-                onClick={loadData}
+                onClick={() => loadData()}
                 className={`p-2 rounded-full hover:bg-slate-100 border border-slate-200 hover:border-slate-300 hover:text-emerald-600 transition-all ${loading ? 'animate-spin text-emerald-600 bg-emerald-50 border-emerald-200' : 'text-slate-500'}`}
                 title="Refresh Data"
               >
@@ -417,25 +634,31 @@ function App() {
         </div>
         
         {/* Mobile Tabs */}
-        <div className="grid grid-cols-3 md:hidden border-t border-slate-100 bg-white">
+        <div className="grid grid-cols-4 md:hidden border-t border-slate-100 bg-white">
            <button 
-              onClick={() => { setActiveTab('dashboard'); setSelectedSensor(null); }}
+              onClick={() => { setActiveTab('dashboard'); setSelectedSensor(null); setSelectedGatewayId(null); }}
               className={`py-3 text-xs font-bold uppercase tracking-wide text-center border-b-2 transition-colors flex items-center justify-center gap-2 ${activeTab === 'dashboard' ? 'border-emerald-600 text-emerald-600 bg-emerald-50/50' : 'border-transparent text-slate-500'}`}
             >
               <LayoutDashboard size={14} /> Fields
             </button>
             <button 
-              onClick={() => { setActiveTab('logs'); setSelectedSensor(null); }}
+              onClick={() => { setActiveTab('logs'); setSelectedSensor(null); setSelectedGatewayId(null); }}
               className={`py-3 text-xs font-bold uppercase tracking-wide text-center border-b-2 transition-colors flex items-center justify-center gap-2 ${activeTab === 'logs' ? 'border-emerald-600 text-emerald-600 bg-emerald-50/50' : 'border-transparent text-slate-500'}`}
             >
               <FileText size={14} /> Logs
             </button>
             <button 
-              onClick={() => { setActiveTab('weather'); setSelectedSensor(null); }}
+              onClick={() => { setActiveTab('weather'); setSelectedSensor(null); setSelectedGatewayId(null); }}
               className={`py-3 text-xs font-bold uppercase tracking-wide text-center border-b-2 transition-colors flex items-center justify-center gap-2 ${activeTab === 'weather' ? 'border-emerald-600 text-emerald-600 bg-emerald-50/50' : 'border-transparent text-slate-500'}`}
             >
               <CloudSun size={14} /> Weather
             </button>
+            <button 
+              onClick={() => { setActiveTab('settings'); setSelectedSensor(null); setSelectedGatewayId(null); }}
+              className={`py-3 text-xs font-bold uppercase tracking-wide text-center border-b-2 transition-colors flex items-center justify-center gap-2 ${activeTab === 'settings' ? 'border-emerald-600 text-emerald-600 bg-emerald-50/50' : 'border-transparent text-slate-500'}`}
+            >
+              <Settings size={14} /> Setup
+            </button>
         </div>
       </nav>
 
@@ -452,7 +675,7 @@ function App() {
               <p className="text-xs text-red-700 mt-0.5">{error}</p>
             </div>
             <button 
-              onClick={loadData} 
+              onClick={() => loadData()} 
               className="px-4 py-2 bg-white border border-red-200 text-red-700 text-xs font-bold uppercase tracking-wide rounded-lg hover:bg-red-50 shadow-sm"
             >
               Retry
@@ -473,7 +696,7 @@ function App() {
               </p>
             </div>
             <button 
-              onClick={loadData} 
+              onClick={() => loadData()} 
               className="px-4 py-2 bg-white border border-amber-200 text-amber-700 text-xs font-bold uppercase tracking-wide rounded-lg hover:bg-amber-50 shadow-sm"
             >
               Retry
@@ -481,6 +704,80 @@ function App() {
           </div>
         )}
 
+        {/* Source Outage Banner */}
+        {(activeTab === 'dashboard' || activeTab === 'logs') && sourceOutages.length > 0 && (
+          <div className="bg-red-50 border border-red-100 rounded-xl p-4 mb-6 flex items-center gap-4 text-red-800 shadow-sm animate-in slide-in-from-top-2">
+            <div className="bg-red-100 p-2 rounded-full shrink-0">
+              <Database className="text-red-600" size={20} />
+            </div>
+            <div className="flex-1">
+              <p className="font-bold text-sm text-red-900">
+                {sourceOutages.length === 1 ? `${sourceOutages[0].name} is not responding` : `${sourceOutages.length} sources are not responding`}
+              </p>
+              <p className="text-xs text-red-700 mt-0.5">
+                {sourceOutages.map(o => `${o.name}: failing since ${formatDateTime(o.since)} (${o.error})`).join(' · ')}. Plots behind {sourceOutages.length === 1 ? 'it' : 'them'} are not updating.
+              </p>
+            </div>
+            <button
+              onClick={() => { setActiveTab('logs'); setLogsView('sources'); setSelectedSensor(null); setSelectedGatewayId(null); }}
+              className="px-4 py-2 bg-white border border-red-200 text-red-700 text-xs font-bold uppercase tracking-wide rounded-lg hover:bg-red-50 shadow-sm"
+            >
+              View
+            </button>
+          </div>
+        )}
+
+        {/* Alert Rule Banner */}
+        {activeTab === 'dashboard' && ruleAlerts.length > 0 && (
+          <div className={`${ruleAlerts.some(a => a.severity === 'critical') ? 'bg-red-50 border-red-100 text-red-800' : 'bg-amber-50 border-amber-100 text-amber-800'} border rounded-xl p-4 mb-6 flex items-start gap-4 shadow-sm animate-in slide-in-from-top-2`}>
+            <div className={`${ruleAlerts.some(a => a.severity === 'critical') ? 'bg-red-100 text-red-600' : 'bg-amber-100 text-amber-600'} p-2 rounded-full shrink-0`}>
+              <BellRing size={20} />
+            </div>
+            <div className="flex-1 space-y-1.5">
+              <p className="font-bold text-sm">
+                {ruleAlerts.length === 1 ? '1 alert rule triggered' : `${ruleAlerts.length} alert rules triggered`}
+              </p>
+              {ruleAlerts.map(alert => (
+                <button
+                  key={alert.key}
+                  onClick={() => { const s = sensors.find(x => x.id === alert.plotId); if (s) { setSelectedGatewayId(null); setSelectedSensor(s); } }}
+                  className="block text-left text-xs hover:underline"
+                >
+                  <span className="font-semibold">{alert.plotName} · {alert.ruleName}:</span> {alert.message} (since {formatDateTime(alert.since)})
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* SD Card Alerts */}
+        {activeTab === 'dashboard' && storageAlerts.map(alert => (
+          <div key={alert.gatewayId} className="bg-red-50 border border-red-100 rounded-xl p-4 mb-6 flex items-center gap-4 text-red-800 shadow-sm animate-in slide-in-from-top-2">
+            <div className="bg-red-100 p-2 rounded-full shrink-0">
+              <HardDrive className="text-red-600" size={20} />
+            </div>
+            <div className="flex-1">
+              <p className="font-bold text-sm text-red-900">{alert.name}: SD card nearly full</p>
+              <p className="text-xs text-red-700 mt-0.5">
+                {alert.daysLeft === 0 ? 'Less than a day' : `About ${alert.daysLeft} day${alert.daysLeft !== 1 ? 's' : ''}`} of space left. Batch uploads stop when the card is full.
+              </p>
+            </div>
+            <button
+              onClick={() => { setSelectedSensor(null); setSelectedGatewayId(alert.gatewayId); }}
+              className="px-4 py-2 bg-white border border-red-200 text-red-700 text-xs font-bold uppercase tracking-wide rounded-lg hover:bg-red-50 shadow-sm"
+            >
+              View
+            </button>
+            <button
+              onClick={() => { dismissStorageAlert(alert.gatewayId); setStorageAlerts(storageAlerts.filter(a => a.gatewayId !== alert.gatewayId)); }}
+              className="p-1.5 text-red-400 hover:text-red-600 rounded-lg"
+              title="Dismiss"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        ))}
+
         {/* Content Switcher */}
         {activeTab === 'weather' ? (
             <WeatherDashboard 
@@ -491,6 +788,16 @@ function App() {
                 onUpdateLocation={handleUpdateLocation}
                 onLocationNameChange={handleLocationNameChange}
             />
+        ) : activeTab === 'settings' ? (
+           <div className="animate-in fade-in duration-300 space-y-6">
+             <SourceSettings onSourcesChanged={() => loadData(true)} onFullReload={() => loadData(true)} />
+             <FilterSettings onChanged={reprocessSnapshot} />
+             <DisplaySettings onChanged={reprocessSnapshot} />
+             <DeviceSettings onChanged={reprocessSnapshot} />
+             <NotificationSettings />
+             <AlertRules sensors={sensors} onChanged={reprocessSnapshot} />
+             <WebhookSettings />
+           </div>
         ) : loading && sensors.length === 0 ? (
            <div className="flex flex-col justify-center items-center h-96 animate-in fade-in">
              <div className="relative mb-8">
@@ -503,9 +810,59 @@ function App() {
              <p className="text-slate-500 text-sm mt-2">Fetching water levels...</p>
            </div>
         ) : activeTab === 'logs' ? (
-           <div className="animate-in fade-in duration-300">
-             <DataLogs logs={filteredLogs} error={error} />
+           <div className="animate-in fade-in duration-300 space-y-4">
+             <div className="flex items-center justify-between gap-3">
+               <div className="flex bg-white p-1 rounded-lg border border-slate-200 shadow-sm w-fit">
+                 {([['readings', 'Readings', FileText], ['quality', 'Data Quality', ShieldCheck], ['network', 'Network', Radio], ['sources', 'Sources', Database], ['alerts', 'Alerts', History]] as const).map(([view, label, Icon]) => (
+                   <button
+                     key={view}
+                     onClick={() => setLogsView(view)}
+                     className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-bold transition-all ${logsView === view ? 'bg-emerald-50 text-emerald-600 ring-1 ring-emerald-200 shadow-sm' : 'text-slate-400 hover:text-slate-600 hover:bg-slate-50'}`}
+                   >
+                     <Icon size={14} /> {label}
+                   </button>
+                 ))}
+               </div>
+               <button
+                 onClick={() => setShowImport(!showImport)}
+                 className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold border shadow-sm transition-colors ${showImport ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : 'bg-white text-slate-600 border-slate-200 hover:text-emerald-600'}`}
+               >
+                 <Upload size={14} /> Import CSV
+               </button>
+             </div>
+             {showImport && <CsvImport onImported={handleImported} onClose={() => setShowImport(false)} />}
+             {logsView === 'quality'
+               ? <DataQuality logs={logs} />
+               : logsView === 'sources'
+               ? <SourceStatus
+                   sources={getDataSources().filter(isSourceConfigured)}
+                   onAlertsChanged={() => setSourceOutages(findSourceOutages(getDataSources().filter(isSourceConfigured)))}
+                 />
+               : logsView === 'alerts'
+               ? <AlertHistory refreshedAt={lastRefreshed.getTime()} />
+               : logsView === 'network'
+               ? <NetworkOverview
+                   sensors={sensors}
+                   gateways={gateways}
+                   deliveries={deliveries}
+                   thresholds={deliveryThresholds}
+                   onThresholdsChanged={setDeliveryThresholds}
+                   onSelect={sensor => { setActiveTab('dashboard'); setSelectedGatewayId(null); setSelectedSensor(sensor); }}
+                 />
+               : <DataLogs logs={filteredLogs} error={error} includeDevice={includeDevice} />}
            </div>
+        ) : selectedGateway ? (
+          <GatewayDetail
+              gateway={selectedGateway}
+              onBack={() => setSelectedGatewayId(null)}
+              onWarningChanged={() => setStorageAlerts(updateStorageAlerts(gateways).filter(a => !a.dismissed))}
+              onSelectNode={id => {
+                  const sensor = sensors.find(s => s.id === id);
+                  if (!sensor) return;
+                  setSelectedGatewayId(null);
+                  setSelectedSensor(sensor);
+              }}
+          />
         ) : selectedSensor ? (
           // Detailed View
           <div className="animate-in fade-in slide-in-from-right-4 duration-300">
@@ -519,6 +876,15 @@ function App() {
               Back to Overview
             </button>
 
+            {showCalibration && (
+              <CalibrationWizard
+                  key={selectedSensor.id}
+                  sensor={selectedSensor}
+                  onSaved={reprocessSnapshot}
+                  onClose={() => setShowCalibration(false)}
+              />
+            )}
+
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
               {/* Main Water Level Card */}
               <div className="lg:col-span-2 bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
@@ -554,18 +920,19 @@ function App() {
                             >
                                 <Edit2 size={18} />
                             </button>
-                            <StatusBadge status={selectedSensor.status} />
+                            <StatusBadge status={selectedSensor.status} assessment={selectedSensor.assessment} />
                           </div>
                       )}
                     </div>
                     
                     <div className="flex items-center gap-4 text-sm text-slate-500 mb-4">
                       {(() => {
-                          const isLora = selectedSensor.id.toLowerCase().includes('lora');
+                          const transport = deviceTransport(selectedSensor.id);
+                          const isLora = transport === 'LoRa';
                           return (
                              <div className={`flex items-center gap-1 px-2 py-0.5 rounded text-xs font-semibold border ${isLora ? 'bg-indigo-50 text-indigo-700 border-indigo-100' : 'bg-orange-50 text-orange-700 border-orange-100'}`}>
                                   {isLora ? <Radio size={12} /> : <Smartphone size={12} />}
-                                  {isLora ? 'LoRa' : 'GSM'}
+                                  {transport}
                               </div>
                           );
                       })()}
@@ -573,7 +940,19 @@ function App() {
                       <span className="flex items-center gap-1.5">
                           <Clock size={14} className="text-slate-400" />
                           Updated {getTimeAgo(selectedSensor.lastUpdated)}
+                          {selectedSensor.freshness && selectedSensor.freshness !== 'live' && (
+                              <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase border ${selectedSensor.freshness === 'offline' ? 'bg-red-50 text-red-700 border-red-100' : 'bg-amber-50 text-amber-700 border-amber-100'}`}>
+                                  {selectedSensor.freshness}
+                              </span>
+                          )}
                       </span>
+                      <button
+                          onClick={() => setShowCalibration(!showCalibration)}
+                          className={`flex items-center gap-1 px-2 py-0.5 rounded text-xs font-semibold border transition-colors ${showCalibration ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : 'bg-white text-slate-500 border-slate-200 hover:text-emerald-600 hover:border-emerald-200'}`}
+                          title="Calibrate Pipe"
+                      >
+                          <Ruler size={12} /> Calibrate
+                      </button>
                     </div>
                   </div>
                   
@@ -584,6 +963,17 @@ function App() {
                               <span className="text-4xl font-bold text-slate-900 tracking-tighter">{selectedSensor.currentLevel}</span>
                               <span className="text-lg font-medium text-slate-400">cm</span>
                           </div>
+                          {selectedSensor.assessment && (
+                              <div className="mt-1 text-[11px] text-slate-500 space-y-0.5 max-w-[220px]">
+                                  {selectedSensor.assessment.risePerHour !== 0 && (
+                                      <p className="font-medium">{selectedSensor.assessment.risePerHour > 0 ? 'Rising' : 'Falling'} {Math.abs(selectedSensor.assessment.risePerHour)} cm/h</p>
+                                  )}
+                                  {selectedSensor.assessment.reasons.map(reason => <p key={reason}>{reason}</p>)}
+                                  {!selectedSensor.assessment.agrees && (
+                                      <p className="text-amber-700 font-semibold">Device reports "{selectedSensor.assessment.reported}"</p>
+                                  )}
+                              </div>
+                          )}
                       </div>
                       <div className="hidden sm:block h-10 w-px bg-slate-100"></div>
                       <div className="sm:min-w-[200px]">
@@ -592,6 +982,9 @@ function App() {
                               weather={weather}
                               cropStage={getCropInfo(selectedSensor.id) ? { name: getCropInfo(selectedSensor.id)!.stageName, index: getCropInfo(selectedSensor.id)!.stageIndex } : undefined}
                               plotName={selectedSensor.name}
+                              calibration={getCalibration(selectedSensor.id)}
+                              freshness={selectedSensor.freshness}
+                              lastSeen={getTimeAgo(selectedSensor.lastUpdated)}
                           />
                           {weather && weather.isRainy && (
                               <div className="mt-2 flex items-center gap-1.5 text-xs text-blue-600 font-medium bg-blue-50 px-2 py-1 rounded border border-blue-100">
@@ -607,7 +1000,7 @@ function App() {
                     <Zap size={16} className="text-amber-500" />
                     Field Water History
                   </h3>
-                  <WaterLevelChart data={selectedSensor.history} />
+                  <WaterLevelChart data={selectedSensor.history} deviceId={selectedSensor.id} calibration={getCalibration(selectedSensor.id)} />
                 </div>
               </div>
 
@@ -627,6 +1020,24 @@ function App() {
                 <DetailCard label="Last Received" value={formatDateTime(selectedSensor.raw["Gateway Received Time"])} />
                 <DetailCard label="Batch Upload" value={formatDateTime(selectedSensor.raw["Batch Upload Time"])} />
                 <DetailCard label="Signal Quality" value={`${selectedSensor.raw["GSM Strength (RSSI)"] || '-'} CSQ`} />
+                <DetailCard
+                  label="Battery"
+                  value={!battery ? '-' : `${battery.voltage.toFixed(2)} V${battery.daysLeft !== null ? ` · ~${battery.daysLeft} days left` : battery.trendPerDay !== null ? ' · steady' : ''}`}
+                  tone={battery?.health === 'critical' ? 'text-red-600' : battery?.health === 'low' ? 'text-amber-600' : undefined}
+                />
+                <DetailCard label="Board Temp" value={selectedSensor.raw["Board Temp (°C)"] !== undefined ? `${selectedSensor.raw["Board Temp (°C)"]} °C` : '-'} />
+                <DetailCard
+                  label="LoRa Link"
+                  value={selectedSensor.raw["LoRa RSSI (dBm)"] !== undefined
+                    ? `${selectedSensor.raw["LoRa RSSI (dBm)"]} dBm · SNR ${selectedSensor.raw["LoRa SNR (dB)"] ?? '-'} dB · SF${selectedSensor.raw["Spreading Factor"] ?? '-'}`
+                    : '-'}
+                />
+              </div>
+              <div className="mt-6 pt-6 border-t border-slate-200">
+                <ReportingReliability key={selectedSensor.id} sensor={selectedSensor} delivery={deliveries[selectedSensor.id]} onChanged={() => snapshotRef.current && processAndSetData(snapshotRef.current)} />
+              </div>
+              <div className="mt-6 pt-6 border-t border-slate-200">
+                <SignalAnalytics kind={signalKind} samples={signalSamples} intervalMs={selectedSensor.expectedInterval || 15 * 60000} />
               </div>
             </div>
           </div>
@@ -697,9 +1108,9 @@ function App() {
           )}
 
           {/* Gateway Status */}
-          {(activeGateway || gateway) && !isRearranging && (
+          {visibleGateways.length > 0 && !isRearranging && (
             <div className="animate-in fade-in slide-in-from-top-4 duration-500">
-                <SystemHealth status={activeGateway || gateway!} />
+                <SystemHealth gateways={visibleGateways} onSelect={setSelectedGatewayId} />
             </div>
           )}
 
@@ -741,7 +1152,7 @@ function App() {
                     onClick={() => setDashboardFilter('gsm')}
                     className={`px-3 py-1.5 text-xs font-bold rounded-md transition-all flex items-center gap-1 ${dashboardFilter === 'gsm' ? 'bg-orange-50 text-orange-700' : 'text-slate-500 hover:bg-slate-50'}`}
                   >
-                      <Smartphone size={12} /> Standalone GSM
+                      <Smartphone size={12} /> Standalone
                   </button>
               </div>
           )}
@@ -758,6 +1169,7 @@ function App() {
             )}
             {filteredSensors.map((sensor, index) => {
               const cropInfo = getCropInfo(sensor.id);
+              const calibration = getCalibration(sensor.id);
               const progress = cropInfo ? Math.min((cropInfo.days / cropInfo.totalDuration) * 100, 100) : 0;
               const phaseGradient = cropInfo ? getPhaseGradient(cropInfo.phase) : 'from-emerald-400 to-emerald-600';
 
@@ -769,8 +1181,8 @@ function App() {
               >
                 <div className="flex justify-between items-start mb-4">
                    <div className="flex items-center gap-3 overflow-hidden">
-                      <div className={`p-2 rounded-xl shrink-0 ${sensor.id.toLowerCase().includes('lora') ? 'bg-indigo-50 text-indigo-600' : 'bg-orange-50 text-orange-600'}`}>
-                          {sensor.id.toLowerCase().includes('lora') ? <Radio size={18} /> : <Smartphone size={18} />}
+                      <div className={`p-2 rounded-xl shrink-0 ${deviceTransport(sensor.id) === 'LoRa' ? 'bg-indigo-50 text-indigo-600' : 'bg-orange-50 text-orange-600'}`}>
+                          {deviceTransport(sensor.id) === 'LoRa' ? <Radio size={18} /> : <Smartphone size={18} />}
                       </div>
                       <div className="flex-1 min-w-0">
                           {editingNameId === sensor.id ? (
@@ -805,7 +1217,7 @@ function App() {
                           <p className="text-xs text-slate-400 font-mono truncate">{sensor.id}</p>
                       </div>
                    </div>
-                   <StatusBadge status={sensor.status} />
+                   <StatusBadge status={sensor.status} assessment={sensor.assessment} />
                 </div>
 
                 {/* Water Level & Gauge */}
@@ -813,22 +1225,22 @@ function App() {
                     <div className="flex flex-col">
                         <span className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Water Level</span>
                         <div className="flex items-baseline gap-1 mb-2">
-                            <span className="text-4xl font-bold text-slate-900 tracking-tighter">{sensor.currentLevel}</span>
+                            <span className={`text-4xl font-bold tracking-tighter ${sensor.freshness && sensor.freshness !== 'live' ? 'text-slate-400' : 'text-slate-900'}`}>{sensor.currentLevel}</span>
                             <span className="text-base font-medium text-slate-400">cm</span>
                         </div>
                         <div className="text-xs font-semibold">
-                            {sensor.currentLevel >= 15 ? (
+                            {sensor.currentLevel >= calibration.soilLevel ? (
                                 <span className="text-blue-600 bg-blue-50 px-2 py-1 rounded-md border border-blue-100 flex items-center w-fit gap-1">
-                                    <ArrowUp size={12} /> {Math.round(sensor.currentLevel - 15)}cm Above
+                                    <ArrowUp size={12} /> {Math.round(sensor.currentLevel - calibration.soilLevel)}cm Above
                                 </span>
                             ) : (
                                 <span className="text-amber-600 bg-amber-50 px-2 py-1 rounded-md border border-amber-100 flex items-center w-fit gap-1">
-                                    <ArrowDown size={12} /> {Math.abs(Math.round(sensor.currentLevel - 15))}cm Below
+                                    <ArrowDown size={12} /> {Math.abs(Math.round(sensor.currentLevel - calibration.soilLevel))}cm Below
                                 </span>
                             )}
                         </div>
                     </div>
-                    <AWDGauge level={sensor.currentLevel} />
+                    <AWDGauge level={sensor.currentLevel} calibration={calibration} />
                 </div>
 
                 {/* Crop Stage Info with Visual and Progress Bar */}
@@ -867,12 +1279,19 @@ function App() {
                     weather={weather}
                     cropStage={cropInfo ? { name: cropInfo.stageName, index: cropInfo.stageIndex } : undefined}
                     plotName={sensor.name}
+                    calibration={calibration}
+                    freshness={sensor.freshness}
+                    lastSeen={getTimeAgo(sensor.lastUpdated)}
                 />
                 
                 <div className="flex items-center justify-between text-xs text-slate-500 border-t border-slate-50 pt-3 mt-3">
-                   <div className="flex items-center gap-1.5">
-                      <Clock size={12} />
+                   <div className={`flex items-center gap-1.5 ${sensor.freshness === 'offline' ? 'text-red-600 font-semibold' : sensor.freshness === 'stale' ? 'text-amber-600 font-semibold' : ''}`}>
+                      {sensor.freshness && sensor.freshness !== 'live' ? <WifiOff size={12} /> : <Clock size={12} />}
                       {getTimeAgo(sensor.lastUpdated)}
+                      {sensor.freshness === 'offline' ? ' · Offline' : sensor.freshness === 'stale' ? ' · Stale' : ''}
+                      {deliveries[sensor.id] && ['degraded', 'critical'].includes(linkState(deliveries[sensor.id].recent, deliveryThresholds)) && (
+                          <span className="text-amber-600 font-semibold"> · Link degraded</span>
+                      )}
                    </div>
                    <div className="flex items-center gap-1 font-medium text-emerald-600 group-hover:translate-x-1 transition-transform">
                       View Details <ArrowRight size={12} />
@@ -909,10 +1328,10 @@ function App() {
   );
 }
 
-const DetailCard = ({ label, value }: { label: string, value: string }) => (
+const DetailCard = ({ label, value, tone }: { label: string, value: string, tone?: string }) => (
   <div className="bg-white p-3 rounded-xl border border-slate-100 shadow-sm">
     <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1">{label}</span>
-    <span className="font-mono font-semibold text-slate-700 text-xs sm:text-sm break-all">{value}</span>
+    <span className={`font-mono font-semibold ${tone || 'text-slate-700'} text-xs sm:text-sm break-all`}>{value}</span>
   </div>
 );
 
@@ -0,0 +1,203 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, Download, ChevronDown, CheckCircle2, Filter } from 'lucide-react';
+import { AlertRecord, AlertHistoryKind, ALERT_HISTORY_LABELS, getAlertHistory, acknowledgeAlert, saveResolution, getAckName, alertHistoryCsv } from '../services/alertHistory';
+import { formatDateTime } from '../services/dataService';
+
+interface Props {
+  // Changes after every refresh, so new and ended alerts show up
+  refreshedAt: number;
+}
+
+type StatusFilter = 'all' | 'active' | 'unacknowledged';
+
+const SELECT = "pl-3 pr-8 py-1.5 bg-white border border-slate-300 text-slate-700 text-xs font-medium rounded-md hover:border-blue-400 focus:outline-none focus:ring-2 focus:ring-blue-500/20 appearance-none cursor-pointer shadow-sm";
+
+const KIND_STYLES: Record<AlertHistoryKind, string> = {
+  flood: 'bg-red-50 text-red-700 border-red-100',
+  low: 'bg-orange-50 text-orange-700 border-orange-100',
+  stale: 'bg-slate-100 text-slate-600 border-slate-200',
+  rule: 'bg-amber-50 text-amber-700 border-amber-100',
+  storage: 'bg-purple-50 text-purple-700 border-purple-100',
+  source: 'bg-rose-50 text-rose-700 border-rose-100'
+};
+
+const duration = (r: AlertRecord, now: number) => {
+  const minutes = Math.round(((r.endedAt ?? now) - r.startedAt) / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 6) / 10} h`;
+  return `${Math.round(minutes / 1440)} d`;
+};
+
+export const AlertHistory: React.FC<Props> = ({ refreshedAt }) => {
+  const [records, setRecords] = useState<AlertRecord[]>([]);
+  const [available, setAvailable] = useState(true);
+  const [plot, setPlot] = useState('All');
+  const [kind, setKind] = useState<AlertHistoryKind | 'All'>('All');
+  const [status, setStatus] = useState<StatusFilter>('all');
+  const [ackingId, setAckingId] = useState<string | null>(null);
+  const [ackName, setAckName] = useState(getAckName());
+  const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({});
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAlertHistory()
+      .then(rows => { if (!cancelled) { setRecords(rows.reverse()); setAvailable(true); } })
+      .catch(() => { if (!cancelled) setAvailable(false); });
+    return () => { cancelled = true; };
+  }, [refreshedAt, version]);
+
+  const plotOptions = useMemo(() => {
+    const names = new Map<string, string>();
+    records.forEach(r => names.set(r.plotId, r.plotName));
+    return Array.from(names.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [records]);
+
+  const filtered = useMemo(() => records.filter(r =>
+    (plot === 'All' || r.plotId === plot) &&
+    (kind === 'All' || r.kind === kind) &&
+    (status === 'all' || (status === 'active' ? r.endedAt === null : !r.acknowledgedBy))
+  ), [records, plot, kind, status]);
+
+  const handleAcknowledge = async (id: string) => {
+    if (!ackName.trim()) return;
+    await acknowledgeAlert(id, ackName.trim());
+    setAckingId(null);
+    setVersion(v => v + 1);
+  };
+
+  const handleSaveNote = async (id: string) => {
+    await saveResolution(id, noteDrafts[id] ?? '');
+    setNoteDrafts(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    setVersion(v => v + 1);
+  };
+
+  const downloadCSV = () => {
+    if (!filtered.length) return;
+    const blob = new Blob([alertHistoryCsv(filtered)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `alert_history_${plot}_${new Date().toISOString().slice(0,10)}.csv`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const now = Date.now();
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50/50 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-blue-100 p-2 rounded-lg text-blue-600">
+            <History size={20} />
+          </div>
+          <div>
+            <h3 className="font-bold text-slate-800">Alert History</h3>
+            <p className="text-xs text-slate-500">Plot, SD card and source alerts, with who handled them and how</p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Filter size={14} className="text-slate-400" />
+          {[
+            { value: plot, onChange: setPlot, options: [['All', 'All Plots'], ...plotOptions] },
+            { value: kind, onChange: (v: string) => setKind(v as AlertHistoryKind | 'All'), options: [['All', 'All Types'], ...Object.entries(ALERT_HISTORY_LABELS)] },
+            { value: status, onChange: (v: string) => setStatus(v as StatusFilter), options: [['all', 'Any Status'], ['active', 'Active'], ['unacknowledged', 'Not Acknowledged']] }
+          ].map((f, i) => (
+            <div key={i} className="relative">
+              <select value={f.value} onChange={e => f.onChange(e.target.value)} className={SELECT}>
+                {f.options.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+              </select>
+              <div className="absolute inset-y-0 right-0 pr-2 flex items-center pointer-events-none">
+                <ChevronDown size={12} className="text-slate-400" />
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={downloadCSV}
+            className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 text-xs font-medium rounded-md transition-colors shadow-sm"
+          >
+            <Download size={14} /> Export CSV
+          </button>
+        </div>
+      </div>
+
+      {!available ? (
+        <p className="p-12 text-center text-sm text-slate-500">The alert history needs IndexedDB, which this browser does not provide.</p>
+      ) : filtered.length === 0 ? (
+        <p className="p-12 text-center text-sm text-slate-500">{records.length === 0 ? 'No alerts have been raised yet.' : 'No alerts match these filters.'}</p>
+      ) : (
+        <div className="overflow-auto">
+          <table className="min-w-full divide-y divide-slate-100 text-left">
+            <thead className="bg-slate-50">
+              <tr>
+                {['Plot', 'Type', 'Started', 'Duration', 'Peak', 'Acknowledged', 'Resolution'].map(h => (
+                  <th key={h} className="px-4 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider border-b border-slate-200">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-slate-100">
+              {filtered.map(r => (
+                <tr key={r.id} className="align-top hover:bg-blue-50/50 transition-colors">
+                  <td className="px-4 py-3 text-sm font-semibold text-slate-800 whitespace-nowrap">{r.plotName}</td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-0.5 text-[10px] font-bold uppercase rounded border whitespace-nowrap ${KIND_STYLES[r.kind]}`}>{r.label}</span>
+                    <p className="text-[11px] text-slate-500 mt-1 max-w-xs">{r.message}</p>
+                  </td>
+                  <td className="px-4 py-3 text-xs font-mono text-slate-600 whitespace-nowrap">{formatDateTime(r.startedAt)}</td>
+                  <td className="px-4 py-3 text-xs text-slate-600 whitespace-nowrap">
+                    {r.endedAt === null
+                      ? <span className="font-bold text-red-600">Active · {duration(r, now)}</span>
+                      : <span title={`Ended ${formatDateTime(r.endedAt)}`}>{duration(r, now)}</span>}
+                  </td>
+                  <td className="px-4 py-3 text-sm font-mono font-bold text-slate-700 whitespace-nowrap">{r.peak}{r.unit}</td>
+                  <td className="px-4 py-3 text-xs whitespace-nowrap">
+                    {r.acknowledgedBy ? (
+                      <span className="flex items-center gap-1 text-emerald-700" title={r.acknowledgedAt ? formatDateTime(r.acknowledgedAt) : undefined}>
+                        <CheckCircle2 size={12} /> {r.acknowledgedBy}
+                      </span>
+                    ) : ackingId === r.id ? (
+                      <div className="flex items-center gap-1">
+                        <input
+                          autoFocus
+                          value={ackName}
+                          onChange={e => setAckName(e.target.value)}
+                          onKeyDown={e => e.key === 'Enter' && handleAcknowledge(r.id)}
+                          placeholder="Your name"
+                          className="w-28 px-2 py-1 text-xs border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-emerald-500/20"
+                        />
+                        <button onClick={() => handleAcknowledge(r.id)} disabled={!ackName.trim()} className="px-2 py-1 bg-emerald-600 text-white text-xs font-bold rounded-md disabled:opacity-40">OK</button>
+                      </div>
+                    ) : (
+                      <button onClick={() => setAckingId(r.id)} className="px-2 py-1 border border-slate-300 hover:bg-slate-50 text-slate-600 font-medium rounded-md">
+                        Acknowledge
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 min-w-[14rem]">
+                    <textarea
+                      value={noteDrafts[r.id] ?? r.resolution ?? ''}
+                      onChange={e => setNoteDrafts(prev => ({ ...prev, [r.id]: e.target.value }))}
+                      rows={2}
+                      placeholder="What was done"
+                      className="w-full px-2 py-1 text-xs border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-emerald-500/20 resize-y"
+                    />
+                    {noteDrafts[r.id] !== undefined && noteDrafts[r.id] !== (r.resolution ?? '') && (
+                      <button onClick={() => handleSaveNote(r.id)} className="mt-1 px-2 py-0.5 bg-emerald-600 text-white text-[10px] font-bold rounded">Save Note</button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import { BellRing, Save, Plus, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+import { SensorData } from '../types';
+import { AlertRule, RuleOverride, RuleMetric, RuleOperator, RuleSeverity, METRICS, CROP_STAGES, RULE_TEMPLATES, getAlertRules, saveAlertRules, createAlertRule } from '../services/alertRules';
+
+interface Props {
+  sensors: SensorData[];
+  onChanged: () => void;
+}
+
+const INPUT = "w-full px-2 py-1.5 text-xs border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-emerald-500/20 bg-white text-slate-700";
+const LABEL = "block text-[10px] font-bold text-slate-400 uppercase mb-1";
+
+const SEVERITY_STYLES: Record<RuleSeverity, string> = {
+  info: 'bg-blue-50 text-blue-700 border-blue-100',
+  warning: 'bg-amber-50 text-amber-700 border-amber-100',
+  critical: 'bg-red-50 text-red-700 border-red-100'
+};
+
+const unitOf = (metric: RuleMetric) => METRICS.find(m => m.value === metric)?.unit || '';
+
+const summary = (rule: AlertRule) => {
+  const metric = METRICS.find(m => m.value === rule.metric)?.label || rule.metric;
+  const duration = rule.forMinutes > 0 ? ` for ${rule.forMinutes} min` : '';
+  const stages = rule.stages.length > 0 ? ` during ${rule.stages.map(i => CROP_STAGES[i]).join(', ')}` : '';
+  return `${metric} ${rule.operator} ${rule.threshold}${unitOf(rule.metric)}${duration}${stages}`;
+};
+
+// Empty input = use the rule's value
+const parseOptional = (value: string): number | undefined => {
+  if (!value.trim()) return undefined;
+  const n = parseFloat(value);
+  return isNaN(n) ? undefined : n;
+};
+
+export const AlertRules: React.FC<Props> = ({ sensors, onChanged }) => {
+  const [rules, setRules] = useState<AlertRule[]>(getAlertRules());
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [dirty, setDirty] = useState(false);
+
+  const update = (id: string, patch: Partial<AlertRule>) => {
+    setRules(prev => prev.map(r => r.id === id ? { ...r, ...patch } : r));
+    setDirty(true);
+  };
+
+  const updateOverride = (rule: AlertRule, plotId: string, patch: RuleOverride) => {
+    const next: RuleOverride = { ...rule.overrides[plotId], ...patch };
+    (Object.keys(next) as (keyof RuleOverride)[]).forEach(k => { if (next[k] === undefined) delete next[k]; });
+    const overrides = { ...rule.overrides };
+    if (Object.keys(next).length > 0) overrides[plotId] = next;
+    else delete overrides[plotId];
+    update(rule.id, { overrides });
+  };
+
+  const toggleIn = <T,>(list: T[], value: T): T[] => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const handleAdd = (template: Partial<AlertRule> = {}) => {
+    const rule = createAlertRule(template);
+    setRules(prev => [...prev, rule]);
+    setOpenId(rule.id);
+    setDirty(true);
+  };
+
+  const handleDelete = (id: string) => {
+    setRules(prev => prev.filter(r => r.id !== id));
+    setDirty(true);
+  };
+
+  const handleSave = () => {
+    saveAlertRules(rules);
+    setDirty(false);
+    onChanged();
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50/50 flex justify-between items-center gap-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-amber-100 p-2 rounded-lg text-amber-600">
+            <BellRing size={20} />
+          </div>
+          <div>
+            <h3 className="font-bold text-slate-800">Alert Rules</h3>
+            <p className="text-xs text-slate-500">Your own conditions, checked on every refresh alongside the built-in alerts</p>
+          </div>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!dirty}
+          className="flex items-center gap-2 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-bold rounded-md transition-colors shadow-sm disabled:opacity-40"
+        >
+          <Save size={14} /> Save
+        </button>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => handleAdd()}
+            className="flex items-center gap-1.5 px-3 py-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 text-xs font-medium rounded-lg transition-colors"
+          >
+            <Plus size={12} /> New Rule
+          </button>
+          {RULE_TEMPLATES.map(t => (
+            <button
+              key={t.name}
+              onClick={() => handleAdd(t)}
+              className="flex items-center gap-1.5 px-3 py-2 bg-slate-50 border border-slate-200 hover:bg-slate-100 text-slate-600 text-xs font-medium rounded-lg transition-colors"
+            >
+              <Plus size={12} /> {t.name}
+            </button>
+          ))}
+        </div>
+
+        {rules.length === 0 && (
+          <p className="text-xs text-slate-400 italic">No rules yet. Start from one of the examples above.</p>
+        )}
+
+        {rules.map(rule => {
+          const open = openId === rule.id;
+          const unit = unitOf(rule.metric);
+          return (
+            <div key={rule.id} className="border border-slate-200 rounded-lg overflow-hidden">
+              <div className="flex items-center gap-3 px-4 py-3 bg-slate-50/50">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={e => update(rule.id, { enabled: e.target.checked })}
+                  className="accent-emerald-600"
+                  title="Enabled"
+                />
+                <button onClick={() => setOpenId(open ? null : rule.id)} className="flex-1 text-left min-w-0">
+                  <span className={`text-sm font-semibold ${rule.enabled ? 'text-slate-800' : 'text-slate-400'}`}>{rule.name}</span>
+                  <span className="block text-[11px] text-slate-500 truncate">{summary(rule)}</span>
+                </button>
+                <span className={`px-2 py-0.5 text-[10px] font-bold uppercase rounded border ${SEVERITY_STYLES[rule.severity]}`}>{rule.severity}</span>
+                <button onClick={() => setOpenId(open ? null : rule.id)} className="p-1 text-slate-400 hover:text-slate-600">
+                  {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                </button>
+                <button onClick={() => handleDelete(rule.id)} className="p-1 text-slate-400 hover:text-red-600" title="Delete rule">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+
+              {open && (
+                <div className="p-4 space-y-4 border-t border-slate-200">
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    <div className="col-span-2">
+                      <label className={LABEL}>Name</label>
+                      <input value={rule.name} onChange={e => update(rule.id, { name: e.target.value })} className={INPUT} />
+                    </div>
+                    <div>
+                      <label className={LABEL}>Severity</label>
+                      <select value={rule.severity} onChange={e => update(rule.id, { severity: e.target.value as RuleSeverity })} className={INPUT}>
+                        <option value="info">Info</option>
+                        <option value="warning">Warning</option>
+                        <option value="critical">Critical</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className={LABEL}>Metric</label>
+                      <select value={rule.metric} onChange={e => update(rule.id, { metric: e.target.value as RuleMetric })} className={INPUT}>
+                        {METRICS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className={LABEL}>Condition</label>
+                      <select value={rule.operator} onChange={e => update(rule.id, { operator: e.target.value as RuleOperator })} className={INPUT}>
+                        <option value="above">Above</option>
+                        <option value="below">Below</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className={LABEL}>Threshold ({unit})</label>
+                      <input type="number" value={rule.threshold} onChange={e => update(rule.id, { threshold: parseFloat(e.target.value) || 0 })} className={INPUT} />
+                    </div>
+                    <div>
+                      <label className={LABEL}>For (min)</label>
+                      <input type="number" min={0} value={rule.forMinutes} onChange={e => update(rule.id, { forMinutes: Math.max(0, parseInt(e.target.value) || 0) })} className={INPUT} />
+                    </div>
+                    <div>
+                      <label className={LABEL}>Hysteresis ({unit})</label>
+                      <input type="number" min={0} step="any" value={rule.hysteresis} onChange={e => update(rule.id, { hysteresis: Math.max(0, parseFloat(e.target.value) || 0) })} className={INPUT} />
+                    </div>
+                    <div>
+                      <label className={LABEL}>Cooldown (min)</label>
+                      <input type="number" min={0} value={rule.cooldownMinutes} onChange={e => update(rule.id, { cooldownMinutes: Math.max(0, parseInt(e.target.value) || 0) })} className={INPUT} />
+                    </div>
+                  </div>
+                  <p className="text-[10px] text-slate-400">
+                    Fires once the condition has held for the set time, clears when the value is back {rule.hysteresis}{unit} past the threshold, and does not fire again on the same plot within the cooldown.
+                  </p>
+
+                  <div>
+                    <label className={LABEL}>Crop Stages (none = any)</label>
+                    <div className="flex flex-wrap gap-1.5">
+                      {CROP_STAGES.map((stage, i) => (
+                        <button
+                          key={stage}
+                          onClick={() => update(rule.id, { stages: toggleIn(rule.stages, i).sort((a, b) => a - b) })}
+                          className={`px-2 py-1 text-[11px] rounded-md border ${rule.stages.includes(i) ? 'bg-emerald-500 text-white border-emerald-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+                        >
+                          {stage}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className={LABEL}>Plots (none = all) and per-plot overrides</label>
+                    <div className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+                      {sensors.map(sensor => {
+                        const override = rule.overrides[sensor.id] || {};
+                        return (
+                          <div key={sensor.id} className="flex flex-wrap items-center gap-3 px-3 py-2">
+                            <label className="flex items-center gap-2 flex-1 min-w-[8rem] text-xs text-slate-700 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={rule.plots.includes(sensor.id)}
+                                onChange={() => update(rule.id, { plots: toggleIn(rule.plots, sensor.id) })}
+                                className="accent-emerald-600"
+                              />
+                              {sensor.name}
+                            </label>
+                            <label className="flex items-center gap-1 text-[10px] text-slate-500">
+                              <input
+                                type="checkbox"
+                                checked={override.enabled !== false}
+                                onChange={e => updateOverride(rule, sensor.id, { enabled: e.target.checked ? undefined : false })}
+                                className="accent-emerald-600"
+                              />
+                              Active
+                            </label>
+                            <input
+                              type="number"
+                              placeholder={`${rule.threshold}${unit}`}
+                              value={override.threshold ?? ''}
+                              onChange={e => updateOverride(rule, sensor.id, { threshold: parseOptional(e.target.value) })}
+                              className={`${INPUT} w-20`}
+                              title="Threshold for this plot"
+                            />
+                            <input
+                              type="number"
+                              min={0}
+                              placeholder={`${rule.forMinutes} min`}
+                              value={override.forMinutes ?? ''}
+                              onChange={e => updateOverride(rule, sensor.id, { forMinutes: parseOptional(e.target.value) })}
+                              className={`${INPUT} w-20`}
+                              title="Minutes for this plot"
+                            />
+                          </div>
+                        );
+                      })}
+                      {sensors.length === 0 && <p className="px-3 py-2 text-xs text-slate-400">No plots loaded yet.</p>}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
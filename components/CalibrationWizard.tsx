@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { Ruler, Save, RotateCcw, X, CheckCircle2, Circle } from 'lucide-react';
+import { SensorData } from '../types';
+import { formatDateTime } from '../services/dataService';
+import { CalibrationProfile, getCalibration, saveCalibration, resetCalibration, calibrateFromReadings, hasCustomCalibration } from '../services/calibrationService';
+
+interface Props {
+  sensor: SensorData;
+  onSaved: () => void;
+  onClose: () => void;
+}
+
+interface CapturedReading {
+  value: number;
+  time: string;
+}
+
+export const CalibrationWizard: React.FC<Props> = ({ sensor, onSaved, onClose }) => {
+  const initial = getCalibration(sensor.id);
+  const [profile, setProfile] = useState<CalibrationProfile>(initial);
+  const [emptyReading, setEmptyReading] = useState<CapturedReading | null>(null);
+  const [soilReading, setSoilReading] = useState<CapturedReading | null>(null);
+  const [wizardError, setWizardError] = useState<string | null>(null);
+
+  // The wizard works on the uncalibrated value the device last sent
+  const rawValue = Number(sensor.raw["Water Level (cm)"]);
+  const latestRaw: CapturedReading = { value: isNaN(rawValue) ? 0 : rawValue, time: sensor.raw["Gateway Received Time"] };
+
+  const updateField = (field: keyof CalibrationProfile, value: string) => {
+    const num = parseFloat(value);
+    if (!isNaN(num)) setProfile(prev => ({ ...prev, [field]: num }));
+  };
+
+  const applyReadings = (empty: CapturedReading | null, soil: CapturedReading | null) => {
+    if (!empty || !soil) return;
+    const computed = calibrateFromReadings(empty.value, soil.value, profile.soilLevel, profile.pipeLength);
+    if (!computed) {
+      setWizardError("The two readings are too close together. Wait for a fresh reading and record again.");
+      return;
+    }
+    setWizardError(null);
+    setProfile(computed);
+  };
+
+  const recordEmpty = () => {
+    setEmptyReading(latestRaw);
+    applyReadings(latestRaw, soilReading);
+  };
+
+  const recordSoil = () => {
+    setSoilReading(latestRaw);
+    applyReadings(emptyReading, latestRaw);
+  };
+
+  const handleSave = () => {
+    saveCalibration(sensor.id, profile);
+    onSaved();
+    onClose();
+  };
+
+  const handleReset = () => {
+    resetCalibration(sensor.id);
+    onSaved();
+    onClose();
+  };
+
+  const StepRow = ({ step, title, hint, reading, onRecord }: { step: number, title: string, hint: string, reading: CapturedReading | null, onRecord: () => void }) => (
+    <div className="flex items-start gap-3 p-3 rounded-xl border border-slate-100 bg-slate-50">
+      <div className={`mt-0.5 ${reading ? 'text-emerald-600' : 'text-slate-300'}`}>
+        {reading ? <CheckCircle2 size={18} /> : <Circle size={18} />}
+      </div>
+      <div className="flex-1">
+        <p className="text-xs font-bold text-slate-700">Step {step}: {title}</p>
+        <p className="text-[11px] text-slate-500 mt-0.5">{hint}</p>
+        {reading && (
+          <p className="text-[11px] font-mono text-emerald-700 mt-1">Recorded {reading.value} cm raw ({formatDateTime(reading.time)})</p>
+        )}
+      </div>
+      <button
+        onClick={onRecord}
+        className="px-3 py-1.5 bg-white border border-slate-300 hover:bg-emerald-50 hover:text-emerald-700 text-slate-700 text-xs font-bold rounded-md transition-colors shrink-0"
+      >
+        Record
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 mb-6 animate-in fade-in slide-in-from-top-2">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <div className="p-1.5 bg-emerald-50 rounded-lg text-emerald-600">
+            <Ruler size={16} />
+          </div>
+          <div>
+            <h3 className="text-sm font-bold text-slate-800">Pipe Calibration</h3>
+            <p className="text-[11px] text-slate-500">Latest raw reading: <span className="font-mono font-semibold">{latestRaw.value} cm</span> at {formatDateTime(latestRaw.time)}</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+        {([
+          ['pipeLength', 'Pipe Length (cm)'],
+          ['soilLevel', 'Soil Mark (cm)'],
+          ['scale', 'Scale'],
+          ['offset', 'Zero Offset (cm)']
+        ] as [keyof CalibrationProfile, string][]).map(([field, label]) => (
+          <div key={field}>
+            <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">{label}</label>
+            <input
+              type="number"
+              step={field === 'scale' ? 0.001 : 0.1}
+              value={profile[field]}
+              onChange={e => updateField(field, e.target.value)}
+              className="w-full p-2 text-sm font-mono border border-slate-200 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white text-slate-900"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2 mb-4">
+        <StepRow
+          step={1}
+          title="Empty pipe"
+          hint="Bail out the pipe (or lift the sensor clear of water), wait for the next reading, then record."
+          reading={emptyReading}
+          onRecord={recordEmpty}
+        />
+        <StepRow
+          step={2}
+          title="Water at soil surface"
+          hint="Let water settle exactly at the soil surface inside the pipe, wait for the next reading, then record."
+          reading={soilReading}
+          onRecord={recordSoil}
+        />
+      </div>
+
+      {wizardError && (
+        <p className="text-xs font-medium text-red-700 bg-red-50 border border-red-100 rounded-lg px-3 py-2 mb-4">{wizardError}</p>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={handleReset}
+          disabled={!hasCustomCalibration(sensor.id)}
+          className="flex items-center gap-1.5 text-xs font-medium text-slate-500 hover:text-red-600 disabled:opacity-40"
+        >
+          <RotateCcw size={12} /> Reset to standard 30cm pipe
+        </button>
+        <button
+          onClick={handleSave}
+          className="flex items-center gap-2 bg-emerald-600 text-white px-4 py-2 rounded-xl font-bold text-xs hover:bg-emerald-700 transition-colors"
+        >
+          <Save size={14} /> Save Profile
+        </button>
+      </div>
+    </div>
+  );
+};
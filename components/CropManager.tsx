@@ -3,6 +3,7 @@ import React, { useState, useEffect } from 'react';
 import { Save, Edit2, Sprout, Timer, AlertCircle, BookOpen, Bug, Droplets, Leaf, Scissors, Sun, Wind, Thermometer, Droplet, StickyNote, Smartphone } from 'lucide-react';
 import { PaddyVisual } from './PaddyVisual';
 import { WeatherData } from '../services/weatherService';
+import { CalibrationProfile, DEFAULT_CALIBRATION, getCalibration } from '../services/calibrationService';
 
 interface Props {
   sensorId: string;
@@ -21,18 +22,20 @@ export const VARIETY_DATA = {
   long: { name: 'Long Duration', min: 140, max: 160, avg: 150 }
 };
 
-export const calculateStage = (cfg: CropConfig) => {
+export const calculateStage = (cfg: CropConfig, calibration: CalibrationProfile = DEFAULT_CALIBRATION) => {
   const start = new Date(cfg.transplantDate).getTime();
   const now = new Date().getTime();
   const days = Math.floor((now - start) / (1000 * 60 * 60 * 24));
   const totalDuration = VARIETY_DATA[cfg.variety].avg;
 
   // Dynamic Stage Calculation based on % of Total Duration
-  // NOTE: Gauge Scale: 0cm = Bottom, 15cm = Soil Surface, 30cm = Top
+  // NOTE: Gauge Scale: 0cm = Bottom, soil mark from the pipe's calibration
+  // (15cm on a standard 30cm pipe). g(n) is the gauge reading n cm above soil.
+  const g = (delta: number) => calibration.soilLevel + delta;
   
   let stageIndex = 0;
   let stageName = "Establishment";
-  let advice = "Maintain shallow water (Gauge 17-18cm)";
+  let advice = `Maintain shallow water (Gauge ${g(2)}-${g(3)}cm)`;
   let phase = "Vegetative";
   let managementTips: { category: string, text: string, icon: any }[] = [];
   
@@ -41,34 +44,34 @@ export const calculateStage = (cfg: CropConfig) => {
   if (pct < 12) {
     stageIndex = 0;
     stageName = "Transplanting / Recovery";
-    advice = "Keep soil saturated (Gauge 15-17cm). Avoid deep flood (>18cm).";
+    advice = `Keep soil saturated (Gauge ${g(0)}-${g(2)}cm). Avoid deep flood (>${g(3)}cm).`;
     phase = "Vegetative";
     managementTips = [
         { category: "Pest", text: "Monitor for Golden Apple Snails (feed on seedlings)", icon: Bug },
         { category: "Weeds", text: "Apply pre-emergence herbicide within 3-5 days", icon: AlertCircle },
         { category: "Care", text: "Replant missing hills (gap filling) within 7 days", icon: Sprout },
-        { category: "Water", text: "Keep saturated. Deep water (>18cm on Gauge) drowns seedlings.", icon: Droplets }
+        { category: "Water", text: `Keep saturated. Deep water (>${g(3)}cm on Gauge) drowns seedlings.`, icon: Droplets }
     ];
   } 
   else if (pct < 35) {
     stageIndex = 1;
     stageName = "Active Tillering";
-    advice = "Maintain Gauge 17-20cm (Shallow Water). Apply N fertilizer.";
+    advice = `Maintain Gauge ${g(2)}-${g(5)}cm (Shallow Water). Apply N fertilizer.`;
     phase = "Vegetative";
     managementTips = [
         { category: "Nutrient", text: "Apply 1st Nitrogen Topdress (Urea) for tillers", icon: Leaf },
         { category: "Weeds", text: "Critical time for weeding. Weeds steal light.", icon: AlertCircle },
         { category: "Pest", text: "Check for Whorl Maggot or Caseworm damage", icon: Bug },
-        { category: "Water", text: "Gauge 17-20cm promotes tillering. AWD is safe.", icon: Droplets }
+        { category: "Water", text: `Gauge ${g(2)}-${g(5)}cm promotes tillering. AWD is safe.`, icon: Droplets }
     ];
   }
   else if (pct < 50) {
     stageIndex = 2;
     stageName = "Stem Elongation";
-    advice = "Periodic drying (AWD) is beneficial. Allow gauge to drop <15cm.";
+    advice = `Periodic drying (AWD) is beneficial. Allow gauge to drop <${g(0)}cm.`;
     phase = "Vegetative";
     managementTips = [
-        { category: "Water", text: "Practice AWD (Gauge <15cm). Drying deepens roots", icon: Droplets },
+        { category: "Water", text: `Practice AWD (Gauge <${g(0)}cm). Drying deepens roots`, icon: Droplets },
         { category: "Nutrient", text: "Apply Potassium (K) for strong stems", icon: Leaf },
         { category: "Pest", text: "Scout for Stem Borer deadhearts (white heads)", icon: Bug },
         { category: "Disease", text: "Inspect lower sheath for Sheath Blight", icon: AlertCircle }
@@ -77,10 +80,10 @@ export const calculateStage = (cfg: CropConfig) => {
   else if (pct < 65) {
     stageIndex = 3;
     stageName = "Panicle Initiation (Booting)";
-    advice = "Flood Required! Keep Gauge >20cm. Do not stress.";
+    advice = `Flood Required! Keep Gauge >${g(5)}cm. Do not stress.`;
     phase = "Reproductive";
     managementTips = [
-        { category: "Water", text: "Do NOT drain (Gauge must be >20cm). Stress reduces yield.", icon: Droplets },
+        { category: "Water", text: `Do NOT drain (Gauge must be >${g(5)}cm). Stress reduces yield.`, icon: Droplets },
         { category: "Care", text: "Protect the flag leaf (provides 50% of yield)", icon: Sun },
         { category: "Pest", text: "Control rats - they prefer sweet stalks now", icon: Bug },
         { category: "Nutrient", text: "Stop Nitrogen to avoid attracting pests", icon: Leaf }
@@ -89,7 +92,7 @@ export const calculateStage = (cfg: CropConfig) => {
   else if (pct < 75) {
     stageIndex = 4;
     stageName = "Heading / Flowering";
-    advice = "Maintain steady water (Gauge 17-20cm). Avoid drainage.";
+    advice = `Maintain steady water (Gauge ${g(2)}-${g(5)}cm). Avoid drainage.`;
     phase = "Reproductive";
     managementTips = [
         { category: "Care", text: "Avoid spraying 9am-3pm to save pollinators", icon: Timer },
@@ -101,11 +104,11 @@ export const calculateStage = (cfg: CropConfig) => {
   else if (pct < 90) {
     stageIndex = 5;
     stageName = "Milk / Dough Stage";
-    advice = "Keep soil saturated. Gauge 15-18cm is sufficient.";
+    advice = `Keep soil saturated. Gauge ${g(0)}-${g(3)}cm is sufficient.`;
     phase = "Ripening";
     managementTips = [
         { category: "Pest", text: "Protect ripening grain from birds and rats", icon: Bug },
-        { category: "Water", text: "Standing water not required, just moist soil (Gauge ~15cm)", icon: Droplets },
+        { category: "Water", text: `Standing water not required, just moist soil (Gauge ~${g(0)}cm)`, icon: Droplets },
         { category: "Care", text: "Remove off-types (rogueing) for purity", icon: Sprout },
         { category: "Harvest", text: "Plan harvest when 85% grains are golden", icon: Scissors }
     ];
@@ -113,17 +116,17 @@ export const calculateStage = (cfg: CropConfig) => {
   else if (pct < 100 + 10) {
     stageIndex = 6;
     stageName = "Maturity / Ripening";
-    advice = "Drain field completely (Gauge <15cm) to hasten ripening.";
+    advice = `Drain field completely (Gauge <${g(0)}cm) to hasten ripening.`;
     phase = "Ripening";
     managementTips = [
-        { category: "Water", text: "Drain field (Gauge <15cm) 10-15 days before harvest", icon: Droplets },
+        { category: "Water", text: `Drain field (Gauge <${g(0)}cm) 10-15 days before harvest`, icon: Droplets },
         { category: "Harvest", text: "Check grain moisture (target 20-24%)", icon: Scissors },
         { category: "Care", text: "Prepare threshing equipment and mats", icon: BookOpen }
     ];
   } else {
     stageIndex = 7;
     stageName = "Harvest Ready";
-    advice = "Field should be dry (Gauge <15cm).";
+    advice = `Field should be dry (Gauge <${g(0)}cm).`;
     phase = "Finished";
     managementTips = [
         { category: "Harvest", text: "Harvest immediately to avoid shattering", icon: Scissors },
@@ -143,6 +146,8 @@ export const CropManager: React.FC<Props> = ({ sensorId, weather }) => {
   const [variety, setVariety] = useState<'short' | 'medium' | 'long'>('medium');
   const [date, setDate] = useState('');
 
+  const calibration = getCalibration(sensorId);
+
   useEffect(() => {
     const saved = localStorage.getItem(`crop_${sensorId}`);
     if (saved) {
@@ -193,7 +198,7 @@ export const CropManager: React.FC<Props> = ({ sensorId, weather }) => {
 
     // Temp Analysis
     if (weather.temp > 35 && stageIndex === 4) {
-        alerts.push({ icon: Thermometer, text: "Heat Stress! Flood field (Gauge >20cm) to cool canopy.", color: "text-red-600", bg: "bg-red-50" });
+        alerts.push({ icon: Thermometer, text: `Heat Stress! Flood field (Gauge >${calibration.soilLevel + 5}cm) to cool canopy.`, color: "text-red-600", bg: "bg-red-50" });
     }
 
     return alerts;
@@ -253,7 +258,7 @@ export const CropManager: React.FC<Props> = ({ sensorId, weather }) => {
 
   if (!config) return null;
 
-  const info = calculateStage(config);
+  const info = calculateStage(config, calibration);
   const progress = Math.min((info.days / info.totalDuration) * 100, 100);
   const weatherAlerts = weather ? getWeatherAnalysis(info.stageIndex, weather) : [];
 
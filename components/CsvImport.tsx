@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import { Upload, X, FileSpreadsheet, Loader2, CheckCircle2 } from 'lucide-react';
+import { SheetRow } from '../types';
+import { SHEET_FIELDS, ColumnMapping, parseCsv, guessMapping, mapCsvRows } from '../services/csvImport';
+import { importRows, formatDateTime } from '../services/dataService';
+import { TimestampFormat, TIMESTAMP_FORMATS, listTimeZones } from '../services/timeService';
+
+interface Props {
+  onImported: (rows: SheetRow[]) => void;
+  onClose: () => void;
+}
+
+interface ImportSummary {
+  added: number;
+  duplicates: number;
+  rejected: number;
+}
+
+const PREVIEW_ROWS = 5;
+
+export const CsvImport: React.FC<Props> = ({ onImported, onClose }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [table, setTable] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [timestampFormat, setTimestampFormat] = useState<TimestampFormat>('auto');
+  const [timezone, setTimezone] = useState('local');
+  const [importing, setImporting] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const headers = table[0] || [];
+  const lines = useMemo(() => table.slice(1), [table]);
+
+  const results = useMemo(() => {
+    if (!mapping) return [];
+    return mapCsvRows(lines, mapping, timestampFormat, timezone);
+  }, [lines, mapping, timestampFormat, timezone]);
+
+  const validCount = results.filter(r => !r.rejected).length;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setSummary(null);
+    setFileError(null);
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.length < 2) throw new Error("The file has no data rows");
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessMapping(parsed[0]));
+    } catch (e: any) {
+      setFileError(e?.message || "Could not read the file");
+      setTable([]);
+      setMapping(null);
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const valid = results.filter(r => !r.rejected).map(r => r.row);
+      const { added, duplicates } = await importRows(valid);
+      setSummary({ added: added.length, duplicates, rejected: results.length - valid.length });
+      if (added.length > 0) onImported(added);
+    } catch (e: any) {
+      setFileError(e?.message || "Import failed");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden animate-in fade-in slide-in-from-top-2">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50/50 flex justify-between items-center gap-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-emerald-100 p-2 rounded-lg text-emerald-600">
+            <FileSpreadsheet size={20} />
+          </div>
+          <div>
+            <h3 className="font-bold text-slate-800">Import CSV</h3>
+            <p className="text-xs text-slate-500">Dashboard exports, gateway sheet downloads or SD card logs</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="p-6 space-y-5">
+        <label className="flex items-center justify-center gap-2 px-4 py-6 border-2 border-dashed border-slate-200 rounded-xl text-sm text-slate-500 hover:border-emerald-300 hover:text-emerald-600 cursor-pointer transition-colors">
+          <Upload size={16} />
+          {fileName ? `${fileName} · ${lines.length} rows` : 'Choose a CSV file'}
+          <input type="file" accept=".csv,text/csv" className="hidden" onChange={e => handleFile(e.target.files?.[0])} />
+        </label>
+
+        {fileError && (
+          <p className="text-xs font-medium text-red-700 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{fileError}</p>
+        )}
+
+        {mapping && (
+          <>
+            {/* Column Mapping */}
+            <div>
+              <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Column Mapping</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                {SHEET_FIELDS.map(field => (
+                  <label key={field} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="font-medium text-slate-600 truncate">{field}</span>
+                    <select
+                      value={mapping[field]}
+                      onChange={e => setMapping({ ...mapping, [field]: Number(e.target.value) })}
+                      className="w-40 px-2 py-1 bg-white border border-slate-300 text-slate-700 text-xs rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                    >
+                      <option value={-1}>— none —</option>
+                      {headers.map((h, i) => (
+                        <option key={i} value={i}>{h || `Column ${i + 1}`}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2 mt-3">
+                <select
+                  value={timestampFormat}
+                  onChange={e => setTimestampFormat(e.target.value as TimestampFormat)}
+                  className="px-2 py-1.5 bg-white border border-slate-300 text-slate-700 text-xs font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                  title="How the file writes its timestamps"
+                >
+                  {TIMESTAMP_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                </select>
+                <select
+                  value={timezone}
+                  onChange={e => setTimezone(e.target.value)}
+                  className="px-2 py-1.5 bg-white border border-slate-300 text-slate-700 text-xs font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20 max-w-[180px]"
+                  title="Time zone the file was logged in"
+                >
+                  <option value="local">Browser Time Zone</option>
+                  {listTimeZones().map(z => <option key={z} value={z}>{z}</option>)}
+                </select>
+              </div>
+            </div>
+
+            {/* Preview */}
+            <div className="overflow-x-auto border border-slate-100 rounded-lg">
+              <table className="w-full text-left text-xs">
+                <thead className="bg-slate-50 text-[10px] font-bold text-slate-400 uppercase">
+                  <tr>
+                    <th className="px-3 py-2">Time</th>
+                    <th className="px-3 py-2">Device</th>
+                    <th className="px-3 py-2">Level</th>
+                    <th className="px-3 py-2">Status</th>
+                    <th className="px-3 py-2">Check</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {results.slice(0, PREVIEW_ROWS).map((r, i) => (
+                    <tr key={i} className={r.rejected ? 'bg-red-50/50' : ''}>
+                      <td className="px-3 py-2 font-mono text-slate-600 whitespace-nowrap">{r.ts ? formatDateTime(r.ts) : r.row["Gateway Received Time"] || '—'}</td>
+                      <td className="px-3 py-2 text-slate-700">{r.row["Device ID"] || '—'}</td>
+                      <td className="px-3 py-2 font-mono text-slate-700">{isNaN(r.row["Water Level (cm)"]) ? '—' : r.row["Water Level (cm)"]}</td>
+                      <td className="px-3 py-2 text-slate-500">{r.row["Status"]}</td>
+                      <td className={`px-3 py-2 ${r.rejected ? 'text-red-600 font-semibold' : r.issues.length ? 'text-amber-600' : 'text-emerald-600'}`}>
+                        {r.issues.length ? r.issues.map(issue => issue.reason).join('; ') : 'OK'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <p className="text-xs text-slate-500">
+                <span className="font-semibold text-slate-700">{validCount}</span> of {results.length} rows valid
+                {results.length - validCount > 0 && <span className="text-red-600"> · {results.length - validCount} will be skipped</span>}
+              </p>
+              <button
+                onClick={handleImport}
+                disabled={importing || validCount === 0}
+                className="flex items-center justify-center gap-2 bg-emerald-600 text-white px-4 py-2 rounded-xl font-bold text-xs hover:bg-emerald-700 transition-colors disabled:opacity-40"
+              >
+                {importing ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />} Import {validCount} Rows
+              </button>
+            </div>
+          </>
+        )}
+
+        {summary && (
+          <div className="flex items-center gap-2 text-xs font-medium px-3 py-2 rounded-lg border bg-emerald-50 text-emerald-700 border-emerald-100">
+            <CheckCircle2 size={14} />
+            Added {summary.added} readings · {summary.duplicates} already present · {summary.rejected} invalid
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
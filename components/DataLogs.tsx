@@ -1,39 +1,74 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { SheetRow } from '../types';
 import { StatusBadge } from './StatusBadge';
-import { Database, Clock, Download, AlertCircle, Filter, ChevronDown, Table } from 'lucide-react';
-import { mapDeviceNickname, formatDateTime } from '../services/dataService';
+import { Database, Clock, Download, AlertCircle, Filter, ChevronDown, Table, CalendarRange, History } from 'lucide-react';
+import { formatDateTime, queryStoredRows } from '../services/dataService';
+import { deviceName } from '../services/deviceRegistry';
 import { SignalBars, getSignalQuality } from './SignalBars';
+import { SHEET_FIELDS } from '../services/csvImport';
+import { getAlertHistory, alertHistoryCsv } from '../services/alertHistory';
 
 interface Props {
   logs: SheetRow[];
   error?: string | null;
+  // Applies the dashboard's device filter to rows read from the local store
+  includeDevice?: (deviceId: string) => boolean;
 }
 
-export const DataLogs: React.FC<Props> = ({ logs, error }) => {
+type LogRange = '24h' | '7d' | '30d' | 'all';
+
+const RANGE_MS: Record<LogRange, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  'all': 0
+};
+
+export const DataLogs: React.FC<Props> = ({ logs, error, includeDevice }) => {
   const [selectedDevice, setSelectedDevice] = useState<string>('All');
+  const [range, setRange] = useState<LogRange>('7d');
+  const [storedLogs, setStoredLogs] = useState<SheetRow[] | null>(null);
+
+  // Read the selected range from the local store; `logs` changing means a
+  // refresh has written new rows
+  useEffect(() => {
+    let cancelled = false;
+    const from = range === 'all' ? 0 : Date.now() - RANGE_MS[range];
+    queryStoredRows({ from })
+      .then(rows => {
+        if (cancelled) return;
+        const visible = includeDevice ? rows.filter(r => includeDevice(r["Device ID"])) : rows;
+        setStoredLogs(visible.length > 0 ? visible.reverse() : null);
+      })
+      .catch(() => { if (!cancelled) setStoredLogs(null); });
+    return () => { cancelled = true; };
+  }, [logs, range, includeDevice]);
+
+  const rangeLogs = storedLogs || logs;
 
   // Extract unique device IDs
   const deviceOptions = useMemo(() => {
-    if (!logs) return [];
-    const devices = new Set(logs.map(log => log["Device ID"]).filter(Boolean));
+    if (!rangeLogs) return [];
+    const devices = new Set(rangeLogs.map(log => log["Device ID"]).filter(Boolean));
     return Array.from(devices).sort();
-  }, [logs]);
+  }, [rangeLogs]);
 
   // Filter logs based on selection
   const filteredLogs = useMemo(() => {
-    if (selectedDevice === 'All') return logs;
-    return logs.filter(log => log["Device ID"] === selectedDevice);
-  }, [logs, selectedDevice]);
+    if (selectedDevice === 'All') return rangeLogs;
+    return rangeLogs.filter(log => log["Device ID"] === selectedDevice);
+  }, [rangeLogs, selectedDevice]);
 
   const downloadCSV = () => {
     if (!filteredLogs.length) return;
     
-    const headers = Object.keys(filteredLogs[0]);
+    // Fixed columns, so rows without node telemetry still line up and the
+    // file can be imported again
+    const headers = SHEET_FIELDS;
     const csvContent = [
       headers.join(','),
       ...filteredLogs.map(row => headers.map(fieldName => 
-        JSON.stringify(row[fieldName as keyof SheetRow])
+        JSON.stringify(row[fieldName] ?? '')
       ).join(','))
     ].join('\n');
 
@@ -47,6 +82,21 @@ export const DataLogs: React.FC<Props> = ({ logs, error }) => {
     document.body.removeChild(link);
   };
 
+  // Alerts raised over the same range and device, for review next to the readings
+  const downloadAlertsCSV = async () => {
+    const from = range === 'all' ? 0 : Date.now() - RANGE_MS[range];
+    const records = (await getAlertHistory(from)).filter(r => selectedDevice === 'All' || r.plotId === selectedDevice);
+    if (!records.length) return;
+    const blob = new Blob([alertHistoryCsv(records)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `alert_history_${selectedDevice}_${new Date().toISOString().slice(0,10)}.csv`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
   if (error) {
     return (
       <div className="bg-white rounded-xl shadow-sm border border-red-100 p-12 text-center flex flex-col items-center justify-center h-96">
@@ -102,7 +152,7 @@ export const DataLogs: React.FC<Props> = ({ logs, error }) => {
               <option value="All">All Devices</option>
               {deviceOptions.map(id => (
                 <option key={id} value={id}>
-                  {mapDeviceNickname(id)} ({id})
+                  {deviceName(id)} ({id})
                 </option>
               ))}
             </select>
@@ -111,6 +161,26 @@ export const DataLogs: React.FC<Props> = ({ logs, error }) => {
             </div>
           </div>
 
+          {/* Range Filter */}
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-2.5 flex items-center pointer-events-none">
+              <CalendarRange size={14} className="text-slate-400" />
+            </div>
+            <select 
+              value={range}
+              onChange={(e) => setRange(e.target.value as LogRange)}
+              className="pl-8 pr-8 py-1.5 bg-white border border-slate-300 text-slate-700 text-xs font-medium rounded-md hover:border-blue-400 focus:outline-none focus:ring-2 focus:ring-blue-500/20 appearance-none cursor-pointer shadow-sm"
+            >
+              <option value="24h">Last 24 hours</option>
+              <option value="7d">Last 7 days</option>
+              <option value="30d">Last 30 days</option>
+              <option value="all">All stored</option>
+            </select>
+            <div className="absolute inset-y-0 right-0 pr-2 flex items-center pointer-events-none">
+              <ChevronDown size={12} className="text-slate-400" />
+            </div>
+          </div>
+
           <span className="text-xs font-medium bg-slate-200 text-slate-600 px-2.5 py-1 rounded-full">
             {filteredLogs.length} Records
           </span>
@@ -121,6 +191,12 @@ export const DataLogs: React.FC<Props> = ({ logs, error }) => {
           >
             <Download size={14} /> Export CSV
           </button>
+          <button 
+            onClick={downloadAlertsCSV}
+            className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 text-xs font-medium rounded-md transition-colors shadow-sm"
+          >
+            <History size={14} /> Export Alerts
+          </button>
         </div>
       </div>
       
@@ -152,7 +228,7 @@ export const DataLogs: React.FC<Props> = ({ logs, error }) => {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex flex-col">
-                        <span className="text-sm font-semibold text-slate-800">{mapDeviceNickname(row["Device ID"])}</span>
+                        <span className="text-sm font-semibold text-slate-800">{deviceName(row["Device ID"])}</span>
                         <span className="text-[11px] text-slate-400 font-mono mt-0.5">{row["Device ID"]}</span>
                       </div>
                     </td>
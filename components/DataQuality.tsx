@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldCheck, RotateCcw, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { SheetRow } from '../types';
+import { DataQualityReport, QualityCounts, getQualityReport, resetQualityReport, UNKNOWN_DEVICE } from '../services/dataQuality';
+import { getDataSources } from '../services/sourceRegistry';
+import { formatDateTime } from '../services/dataService';
+import { deviceName } from '../services/deviceRegistry';
+
+interface Props {
+  // Changes after every refresh, when the report may have grown
+  logs: SheetRow[];
+}
+
+const topReasons = (counts: QualityCounts) => Object.entries(counts.reasons)
+  .sort((a, b) => b[1] - a[1])
+  .slice(0, 3);
+
+const CountsTable: React.FC<{ title: string, rows: [string, string, QualityCounts][] }> = ({ title, rows }) => (
+  <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+    <div className="px-6 py-3 border-b border-slate-200 bg-slate-50/50">
+      <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">{title}</h4>
+    </div>
+    {rows.length === 0 ? (
+      <p className="px-6 py-8 text-center text-sm text-slate-400 italic">Nothing received yet.</p>
+    ) : (
+      <table className="w-full text-left text-sm">
+        <thead className="text-[10px] font-bold text-slate-400 uppercase">
+          <tr>
+            <th className="px-6 py-2">Name</th>
+            <th className="px-3 py-2 text-right">Accepted</th>
+            <th className="px-3 py-2 text-right">Coerced</th>
+            <th className="px-3 py-2 text-right">Rejected</th>
+            <th className="px-6 py-2">Top Reasons</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {rows.map(([key, label, counts]) => (
+            <tr key={key}>
+              <td className="px-6 py-2.5">
+                <p className="font-semibold text-slate-800">{label}</p>
+                {label !== key && <p className="text-[10px] font-mono text-slate-400">{key}</p>}
+              </td>
+              <td className="px-3 py-2.5 text-right font-mono text-slate-700">{counts.accepted}</td>
+              <td className={`px-3 py-2.5 text-right font-mono ${counts.coerced > 0 ? 'text-amber-600 font-bold' : 'text-slate-400'}`}>{counts.coerced}</td>
+              <td className={`px-3 py-2.5 text-right font-mono ${counts.rejected > 0 ? 'text-red-600 font-bold' : 'text-slate-400'}`}>{counts.rejected}</td>
+              <td className="px-6 py-2.5 text-xs text-slate-500">
+                {topReasons(counts).map(([reason, n]) => (
+                  <span key={reason} className="block">{reason} <span className="text-slate-400">×{n}</span></span>
+                ))}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+export const DataQuality: React.FC<Props> = ({ logs }) => {
+  const [report, setReport] = useState<DataQualityReport>(getQualityReport());
+
+  useEffect(() => {
+    setReport(getQualityReport());
+  }, [logs]);
+
+  const handleReset = () => {
+    resetQualityReport();
+    setReport(getQualityReport());
+  };
+
+  const sourceNames: Record<string, string> = {};
+  getDataSources().forEach(s => { sourceNames[s.id] = s.name; });
+
+  const sourceRows = Object.entries(report.sources)
+    .map(([id, counts]) => [id, sourceNames[id] || id, counts] as [string, string, QualityCounts]);
+  const deviceRows = Object.entries(report.devices)
+    .sort((a, b) => b[1].rejected - a[1].rejected)
+    .map(([id, counts]) => [id, id === UNKNOWN_DEVICE ? id : deviceName(id), counts] as [string, string, QualityCounts]);
+
+  const totalRejected = sourceRows.reduce((sum, [, , c]) => sum + c.rejected, 0);
+  const totalCoerced = sourceRows.reduce((sum, [, , c]) => sum + c.coerced, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 px-6 py-4 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div className="flex items-center gap-3">
+          <div className={`p-2 rounded-lg ${totalRejected > 0 ? 'bg-red-100 text-red-600' : 'bg-emerald-100 text-emerald-600'}`}>
+            <ShieldCheck size={20} />
+          </div>
+          <div>
+            <h3 className="font-bold text-slate-800">Data Quality</h3>
+            <p className="text-xs text-slate-500">
+              {totalRejected} rejected · {totalCoerced} coerced since {formatDateTime(report.since)}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleReset}
+          className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 text-xs font-medium rounded-md transition-colors shadow-sm"
+        >
+          <RotateCcw size={14} /> Reset Counts
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <CountsTable title="By Source" rows={sourceRows} />
+        <CountsTable title="By Device" rows={deviceRows} />
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-3 border-b border-slate-200 bg-slate-50/50">
+          <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Recent Issues</h4>
+        </div>
+        {report.recent.length === 0 ? (
+          <div className="px-6 py-10 flex flex-col items-center text-slate-400">
+            <CheckCircle2 className="h-6 w-6 text-emerald-400 mb-2" />
+            <p className="text-sm">Every received row passed validation.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto max-h-[420px]">
+            <table className="w-full text-left text-xs">
+              <thead className="text-[10px] font-bold text-slate-400 uppercase bg-white sticky top-0">
+                <tr>
+                  <th className="px-6 py-2">Row Time</th>
+                  <th className="px-3 py-2">Device</th>
+                  <th className="px-3 py-2">Source</th>
+                  <th className="px-3 py-2">Field</th>
+                  <th className="px-3 py-2">Value</th>
+                  <th className="px-6 py-2">Outcome</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {report.recent.map((event, i) => (
+                  <tr key={i}>
+                    <td className="px-6 py-2 font-mono text-slate-600 whitespace-nowrap">{event.rowTime ? formatDateTime(event.rowTime) : '—'}</td>
+                    <td className="px-3 py-2 text-slate-700">{event.deviceId}</td>
+                    <td className="px-3 py-2 text-slate-500">{sourceNames[event.sourceId] || event.sourceId}</td>
+                    <td className="px-3 py-2 text-slate-500">{event.field}</td>
+                    <td className="px-3 py-2 font-mono text-slate-700 max-w-[160px] truncate" title={event.value}>{event.value}</td>
+                    <td className="px-6 py-2">
+                      <span className={`inline-flex items-center gap-1 font-semibold ${event.action === 'rejected' ? 'text-red-600' : 'text-amber-600'}`}>
+                        <AlertTriangle size={12} />
+                        {event.action === 'rejected' ? 'Rejected' : 'Coerced'}: {event.reason}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { Cpu, Save, MapPin, RotateCcw } from 'lucide-react';
+import { DeviceRecord, Transport, TRANSPORTS, getDevices, updateDevice } from '../services/deviceRegistry';
+import { getCalibration, hasCustomCalibration, resetCalibration } from '../services/calibrationService';
+
+interface Props {
+  onChanged: () => void;
+}
+
+// Form state keeps coordinates as typed until saved
+interface Draft {
+  name: string;
+  transport: Transport;
+  installedOn: string;
+  plot: string;
+  lat: string;
+  lon: string;
+  notes: string;
+}
+
+const toDraft = (d: DeviceRecord): Draft => ({
+  name: d.name,
+  transport: d.transport,
+  installedOn: d.installedOn || '',
+  plot: d.plot || '',
+  lat: d.location ? String(d.location.lat) : '',
+  lon: d.location ? String(d.location.lon) : '',
+  notes: d.notes || ''
+});
+
+const parseLocation = (draft: Draft): DeviceRecord['location'] | null => {
+  if (!draft.lat.trim() && !draft.lon.trim()) return undefined;
+  const lat = parseFloat(draft.lat);
+  const lon = parseFloat(draft.lon);
+  if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { lat, lon };
+};
+
+const INPUT = "w-full px-2 py-1.5 text-xs border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-emerald-500/20 bg-white text-slate-700";
+
+export const DeviceSettings: React.FC<Props> = ({ onChanged }) => {
+  const [devices, setDevices] = useState<DeviceRecord[]>(getDevices());
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const draftFor = (d: DeviceRecord) => drafts[d.id] || toDraft(d);
+
+  const update = (d: DeviceRecord, patch: Partial<Draft>) => {
+    setDrafts(prev => ({ ...prev, [d.id]: { ...draftFor(d), ...patch } }));
+  };
+
+  const handleSave = () => {
+    const nextErrors: Record<string, string> = {};
+    Object.entries(drafts).forEach(([id, draft]) => {
+      const location = parseLocation(draft);
+      if (location === null) {
+        nextErrors[id] = 'Latitude -90 to 90, longitude -180 to 180';
+        return;
+      }
+      updateDevice(id, {
+        name: draft.name,
+        transport: draft.transport,
+        installedOn: draft.installedOn,
+        plot: draft.plot.trim(),
+        location,
+        notes: draft.notes.trim()
+      });
+    });
+    setErrors(nextErrors);
+    setDrafts(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => nextErrors[id])));
+    setDevices(getDevices());
+    onChanged();
+  };
+
+  const handleResetCalibration = (id: string) => {
+    resetCalibration(id);
+    setDevices(getDevices());
+    onChanged();
+  };
+
+  const dirty = Object.keys(drafts).length > 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50/50 flex justify-between items-center gap-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-indigo-100 p-2 rounded-lg text-indigo-600">
+            <Cpu size={20} />
+          </div>
+          <div>
+            <h3 className="font-bold text-slate-800">Devices</h3>
+            <p className="text-xs text-slate-500">Names, transport and installation details for every device that has reported</p>
+          </div>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!dirty}
+          className="flex items-center gap-2 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-bold rounded-md transition-colors shadow-sm disabled:opacity-40"
+        >
+          <Save size={14} /> Save
+        </button>
+      </div>
+
+      <div className="divide-y divide-slate-100">
+        {devices.length === 0 && (
+          <div className="px-6 py-12 text-center text-slate-400 italic bg-slate-50/30">
+            Devices appear here once their first reading arrives.
+          </div>
+        )}
+        {devices.map(device => {
+          const draft = draftFor(device);
+          const calibration = getCalibration(device.id);
+          return (
+            <div key={device.id} className="px-6 py-5 space-y-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={e => update(device, { name: e.target.value })}
+                  placeholder="Default name"
+                  className="flex-1 min-w-[160px] text-sm font-bold text-slate-800 border-b border-slate-200 focus:border-emerald-500 focus:outline-none bg-transparent px-1"
+                />
+                <span className="text-[10px] text-slate-400 font-mono">{device.id}</span>
+                <select
+                  value={draft.transport}
+                  onChange={e => update(device, { transport: e.target.value as Transport })}
+                  className="px-2 py-1.5 bg-white border border-slate-300 text-slate-700 text-xs font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-emerald-500/20 cursor-pointer"
+                >
+                  {TRANSPORTS.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <label className="block text-[10px] font-bold text-slate-400 uppercase">
+                  Plot
+                  <input type="text" value={draft.plot} onChange={e => update(device, { plot: e.target.value })} className={`${INPUT} mt-1 normal-case font-normal`} />
+                </label>
+                <label className="block text-[10px] font-bold text-slate-400 uppercase">
+                  Installed
+                  <input type="date" value={draft.installedOn} onChange={e => update(device, { installedOn: e.target.value })} className={`${INPUT} mt-1 font-normal`} />
+                </label>
+                <label className="block text-[10px] font-bold text-slate-400 uppercase">
+                  Latitude
+                  <input type="number" step="any" value={draft.lat} onChange={e => update(device, { lat: e.target.value })} className={`${INPUT} mt-1 font-mono font-normal`} />
+                </label>
+                <label className="block text-[10px] font-bold text-slate-400 uppercase">
+                  Longitude
+                  <input type="number" step="any" value={draft.lon} onChange={e => update(device, { lon: e.target.value })} className={`${INPUT} mt-1 font-mono font-normal`} />
+                </label>
+              </div>
+
+              <textarea
+                value={draft.notes}
+                onChange={e => update(device, { notes: e.target.value })}
+                placeholder="Notes (antenna, mounting, maintenance...)"
+                rows={2}
+                className={INPUT}
+              />
+
+              <div className="flex flex-wrap items-center gap-3 text-xs text-slate-500">
+                <span>
+                  Pipe: {hasCustomCalibration(device.id)
+                    ? <span className="font-semibold text-slate-700">{calibration.pipeLength} cm, soil at {calibration.soilLevel} cm</span>
+                    : 'default (use Calibrate on the plot page)'}
+                </span>
+                {hasCustomCalibration(device.id) && (
+                  <button
+                    onClick={() => handleResetCalibration(device.id)}
+                    className="flex items-center gap-1 text-slate-400 hover:text-red-600 transition-colors"
+                  >
+                    <RotateCcw size={12} /> Reset
+                  </button>
+                )}
+                {device.location && (
+                  <a
+                    href={`https://www.openstreetmap.org/?mlat=${device.location.lat}&mlon=${device.location.lon}#map=17/${device.location.lat}/${device.location.lon}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-emerald-600 hover:text-emerald-700"
+                  >
+                    <MapPin size={12} /> Map
+                  </a>
+                )}
+                {errors[device.id] && <span className="text-red-600 font-semibold">{errors[device.id]}</span>}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
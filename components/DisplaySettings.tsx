@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { Globe } from 'lucide-react';
+import { getDisplayTimeZone, saveDisplayTimeZone, listTimeZones } from '../services/timeService';
+import { formatDateTime } from '../services/dataService';
+
+interface Props {
+  onChanged: () => void;
+}
+
+export const DisplaySettings: React.FC<Props> = ({ onChanged }) => {
+  const [zone, setZone] = useState(getDisplayTimeZone());
+  const timeZones = listTimeZones();
+
+  const handleChange = (value: string) => {
+    saveDisplayTimeZone(value);
+    setZone(value);
+    onChanged();
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50/50 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-indigo-100 p-2 rounded-lg text-indigo-600">
+            <Globe size={20} />
+          </div>
+          <div>
+            <h3 className="font-bold text-slate-800">Display Time Zone</h3>
+            <p className="text-xs text-slate-500">Readings are stored in UTC and shown in this zone</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-xs font-mono text-slate-500">{formatDateTime(Date.now())}</span>
+          <select
+            value={zone}
+            onChange={e => handleChange(e.target.value)}
+            className="px-2 py-1.5 bg-white border border-slate-300 text-slate-700 text-xs font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20 cursor-pointer"
+          >
+            <option value="local">Browser Time Zone</option>
+            {timeZones.map(z => (
+              <option key={z} value={z}>{z}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+};
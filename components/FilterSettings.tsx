@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Activity, Save } from 'lucide-react';
+import { FilterConfig, FilterMethod, getFilterConfig, saveFilterConfig, DEFAULT_FILTER_CONFIG } from '../services/signalFilter';
+
+interface Props {
+  onChanged: () => void;
+}
+
+const METHODS: { value: FilterMethod, label: string, hint: string }[] = [
+  { value: 'hampel', label: 'Hampel', hint: 'Replace samples far from the local median' },
+  { value: 'median', label: 'Rolling Median', hint: 'Smooth every sample to the local median' },
+  { value: 'none', label: 'Off', hint: 'Use raw readings as received' }
+];
+
+export const FilterSettings: React.FC<Props> = ({ onChanged }) => {
+  const [config, setConfig] = useState<FilterConfig>(getFilterConfig());
+  const [dirty, setDirty] = useState(false);
+
+  const update = (patch: Partial<FilterConfig>) => {
+    setConfig(prev => ({ ...prev, ...patch }));
+    setDirty(true);
+  };
+
+  const updateNumber = (field: keyof FilterConfig, value: string) => {
+    const num = parseFloat(value);
+    if (!isNaN(num) && num >= 0) update({ [field]: num });
+  };
+
+  const handleSave = () => {
+    saveFilterConfig(config);
+    setDirty(false);
+    onChanged();
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50/50 flex justify-between items-center gap-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-amber-100 p-2 rounded-lg text-amber-600">
+            <Activity size={20} />
+          </div>
+          <div>
+            <h3 className="font-bold text-slate-800">Spike Filtering</h3>
+            <p className="text-xs text-slate-500">Flags single-sample sensor spikes before they reach status and advice</p>
+          </div>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!dirty}
+          className="flex items-center gap-2 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-bold rounded-md transition-colors shadow-sm disabled:opacity-40"
+        >
+          <Save size={14} /> Save
+        </button>
+      </div>
+
+      <div className="p-6 space-y-5">
+        <div className="grid grid-cols-3 gap-2">
+          {METHODS.map(m => (
+            <button
+              key={m.value}
+              onClick={() => update({ method: m.value })}
+              className={`px-2 py-2 text-xs font-semibold rounded-lg border text-left ${config.method === m.value ? 'bg-emerald-500 text-white border-emerald-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+            >
+              {m.label}
+              <span className="block text-[10px] font-normal opacity-80">{m.hint}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className={`grid grid-cols-2 sm:grid-cols-4 gap-3 ${config.method === 'none' ? 'opacity-40 pointer-events-none' : ''}`}>
+          {([
+            ['halfWindow', 'Window (± samples)', DEFAULT_FILTER_CONFIG.halfWindow],
+            ['nSigmas', 'Threshold (σ)', DEFAULT_FILTER_CONFIG.nSigmas],
+            ['maxRatePerHour', 'Max Rate (cm/h)', DEFAULT_FILTER_CONFIG.maxRatePerHour],
+            ['minDeviation', 'Ignore Below (cm)', DEFAULT_FILTER_CONFIG.minDeviation]
+          ] as [keyof FilterConfig, string, number][]).map(([field, label, fallback]) => (
+            <div key={field}>
+              <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">{label}</label>
+              <input
+                type="number"
+                step={field === 'halfWindow' ? 1 : 0.5}
+                value={config[field] as number}
+                placeholder={String(fallback)}
+                onChange={e => updateNumber(field, e.target.value)}
+                className="w-full p-2 text-sm font-mono border border-slate-200 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white text-slate-900"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
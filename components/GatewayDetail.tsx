@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { ArrowLeft, Server, Smartphone, Radio, History, HardDrive, Save } from 'lucide-react';
+import { Gateway, GatewaySample } from '../types';
+import { formatDateTime } from '../services/dataService';
+import { deviceName } from '../services/deviceRegistry';
+import { intlTimeZone } from '../services/timeService';
+import { forecastStorage, getStorageWarningDays, saveStorageWarningDays, isStorageLow } from '../services/storageForecast';
+import { GatewayStatusCard } from './SystemHealth';
+import { SignalAnalytics } from './SignalAnalytics';
+import { signalFromGateway, typicalInterval } from '../services/signalAnalytics';
+
+interface Props {
+  gateway: Gateway;
+  onBack: () => void;
+  onWarningChanged: () => void;
+  onSelectNode: (deviceId: string) => void;
+}
+
+// Network or operator changes are rare, so the list stays short
+const MAX_CHANGES = 20;
+
+interface Change {
+  ts: number;
+  field: 'Network' | 'Operator';
+  from: string;
+  to: string;
+}
+
+const findChanges = (history: GatewaySample[]): Change[] => {
+  const changes: Change[] = [];
+  for (let i = 1; i < history.length; i++) {
+    const prev = history[i - 1];
+    const cur = history[i];
+    if (cur.network !== prev.network) changes.push({ ts: cur.ts, field: 'Network', from: prev.network, to: cur.network });
+    if (cur.simOperator !== prev.simOperator) changes.push({ ts: cur.ts, field: 'Operator', from: prev.simOperator, to: cur.simOperator });
+  }
+  return changes.reverse().slice(0, MAX_CHANGES);
+};
+
+export const GatewayDetail: React.FC<Props> = ({ gateway, onBack, onWarningChanged, onSelectNode }) => {
+  const isWifi = gateway.status.network.toLowerCase().includes('wifi');
+  const changes = useMemo(() => findChanges(gateway.history), [gateway.history]);
+  const storage = useMemo(() => forecastStorage(gateway.history), [gateway.history]);
+  const [warningDays, setWarningDays] = useState(String(getStorageWarningDays()));
+  const storageLow = isStorageLow(storage);
+
+  const handleSaveWarning = () => {
+    const value = parseFloat(warningDays);
+    saveStorageWarningDays(isNaN(value) ? 0 : value);
+    setWarningDays(String(getStorageWarningDays()));
+    onWarningChanged();
+  };
+
+  const chartData = useMemo(() => {
+    const timeZone = intlTimeZone();
+    return gateway.history.map(s => ({
+      ts: s.ts,
+      label: new Date(s.ts).toLocaleString([], { timeZone, month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }),
+      sdFree: s.sdFree
+    }));
+  }, [gateway.history]);
+
+  const signalSamples = useMemo(() => signalFromGateway(gateway.history, isWifi ? 'WiFi' : 'GSM'), [gateway.history, isWifi]);
+  const uploadInterval = useMemo(() => typicalInterval(gateway.history) || 10 * 60000, [gateway.history]);
+
+  return (
+    <div className="animate-in fade-in slide-in-from-right-4 duration-300">
+      <button
+        onClick={onBack}
+        className="group flex items-center text-sm text-slate-500 hover:text-emerald-600 mb-6 transition-colors font-medium"
+      >
+        <div className="p-1.5 rounded-lg bg-white border border-slate-200 group-hover:border-emerald-300 mr-2 shadow-sm transition-all">
+           <ArrowLeft className="h-4 w-4" />
+        </div>
+        Back to Overview
+      </button>
+
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-3 bg-blue-50 rounded-xl text-blue-600">
+          {gateway.kind === 'standalone' ? <Smartphone size={22} /> : <Server size={22} />}
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900 tracking-tight">{gateway.name}</h2>
+          <p className="text-xs text-slate-500">
+            <span className="font-mono bg-slate-100 px-2 py-0.5 rounded border border-slate-200 mr-2">{gateway.id}</span>
+            {gateway.kind === 'standalone' ? 'Standalone GSM unit' : 'LoRa gateway'} · last upload {formatDateTime(gateway.lastSeen)}
+          </p>
+        </div>
+      </div>
+
+      <GatewayStatusCard status={gateway.status} />
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-slate-200 p-5 space-y-6">
+          <SignalAnalytics kind={isWifi ? 'WiFi' : 'GSM'} samples={signalSamples} intervalMs={uploadInterval} />
+          <div>
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">SD Free (MB)</h3>
+            <div className="h-40">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="label" tick={{ fontSize: 10, fill: '#94a3b8' }} minTickGap={40} />
+                  <YAxis tick={{ fontSize: 10, fill: '#94a3b8' }} domain={['auto', 'auto']} />
+                  <Tooltip contentStyle={{ fontSize: 12, borderRadius: 8 }} />
+                  <Line type="stepAfter" dataKey="sdFree" name="SD Free" stroke="#10b981" strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {/* SD Card Forecast */}
+          <div className={`bg-white rounded-xl shadow-sm border p-5 ${storageLow ? 'border-red-200' : 'border-slate-200'}`}>
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+              <HardDrive size={14} /> SD Card Forecast
+            </h3>
+            {!storage ? (
+              <p className="text-xs text-slate-400">This gateway does not report free space</p>
+            ) : (
+              <div className="space-y-1 text-xs text-slate-600">
+                <p><span className="font-semibold text-slate-800">{storage.freeMb} MB</span> free</p>
+                <p>
+                  {storage.mbPerDay === null ? 'Not enough history for a trend yet'
+                    : storage.daysLeft === null ? 'Not filling'
+                    : `Using ${storage.mbPerDay} MB/day`}
+                </p>
+                {storage.fullAt !== null && (
+                  <p className={storageLow ? 'text-red-600 font-bold' : ''}>
+                    Full around {formatDateTime(storage.fullAt)} (~{storage.daysLeft} days)
+                  </p>
+                )}
+              </div>
+            )}
+            <div className="flex items-end gap-2 mt-4 pt-4 border-t border-slate-100">
+              <div>
+                <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Warn below (days)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={warningDays}
+                  onChange={e => setWarningDays(e.target.value)}
+                  className="w-24 p-2 text-sm font-mono border border-slate-200 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white text-slate-900"
+                />
+              </div>
+              <button
+                onClick={handleSaveWarning}
+                className="flex items-center gap-1.5 px-3 py-2 bg-white border border-slate-300 hover:bg-emerald-50 hover:text-emerald-700 text-slate-700 text-xs font-bold rounded-lg transition-colors"
+              >
+                <Save size={12} /> Save
+              </button>
+            </div>
+          </div>
+
+          {/* Relayed Nodes */}
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-5">
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+              <Radio size={14} /> {gateway.kind === 'standalone' ? 'Device' : 'Relayed Nodes'}
+            </h3>
+            <div className="flex flex-wrap gap-2">
+              {gateway.nodes.map(id => (
+                <button
+                  key={id}
+                  onClick={() => onSelectNode(id)}
+                  className="px-2.5 py-1 bg-slate-50 border border-slate-200 rounded-lg text-xs font-semibold text-slate-700 hover:border-emerald-300 hover:text-emerald-700 transition-colors"
+                  title={id}
+                >
+                  {deviceName(id)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Network & Operator Changes */}
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-5">
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+              <History size={14} /> Changes
+            </h3>
+            {changes.length === 0 ? (
+              <p className="text-xs text-slate-400">No network or operator changes in {gateway.history.length} uploads</p>
+            ) : (
+              <ul className="space-y-2">
+                {changes.map((c, i) => (
+                  <li key={i} className="text-xs">
+                    <span className="font-mono text-slate-400 block">{formatDateTime(c.ts)}</span>
+                    <span className="text-slate-700"><span className="font-semibold">{c.field}</span> {c.from} → {c.to}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
-import { Droplets, Check, CloudRain, ArrowDown, Sprout, Info, Lightbulb } from 'lucide-react';
-import { WeatherData } from '../services/weatherService';
+import { Droplets, Check, CloudRain, ArrowDown, Sprout, Info, Lightbulb, WifiOff } from 'lucide-react';
+import { WeatherData, isRainExpected } from '../services/weatherService';
+import { CalibrationProfile, DEFAULT_CALIBRATION, getThresholds } from '../services/calibrationService';
+import { Freshness } from '../types';
 
 interface Props {
     level: number;
@@ -10,6 +12,9 @@ interface Props {
         index: number;
     };
     plotName?: string;
+    calibration?: CalibrationProfile;
+    freshness?: Freshness;
+    lastSeen?: string; // e.g. "3 hours ago"
 }
 
 interface AdviceState {
@@ -21,26 +26,26 @@ interface AdviceState {
     icon: React.ReactNode;
 }
 
-export const IrrigationAdvice: React.FC<Props> = ({ level, weather, cropStage }) => {
+export const IrrigationAdvice: React.FC<Props> = ({ level, weather, cropStage, calibration = DEFAULT_CALIBRATION, freshness = 'live', lastSeen }) => {
     const [showRationale, setShowRationale] = useState(false);
 
     // --- Constants & Thresholds ---
-    // Sensor Depth Mapping:
+    // Sensor Depth Mapping (from the pipe's calibration profile):
     // 0cm = Bottom of pipe (Dry)
-    // 15cm = Soil Surface
-    // 30cm = Top of gauge
+    // soilLevel = Soil Surface (15cm on a standard pipe)
+    // pipeLength = Top of gauge
 
-    const SOIL_LEVEL = 15;
+    const thresholds = getThresholds(calibration);
+    const SOIL_LEVEL = thresholds.soil;
 
-    // User Defined Rules (Absolute Gauge Readings)
-    const THRESHOLD_LOW = 5;  // Gauge < 5cm (Very Dry)
-    const THRESHOLD_HIGH = 20; // Gauge > 20cm (High Water)
+    // User Defined Rules (Gauge Readings relative to the soil mark)
+    const THRESHOLD_LOW = thresholds.low;   // 10cm below soil (Very Dry)
+    const THRESHOLD_HIGH = thresholds.high; // 5cm above soil (High Water)
 
     // Weather Factors
     const rainChance = weather?.rainChance || 0;
     const rainForecast = weather?.rainForecast24h || 0;
-    // Consider rain "Expected" if chance > 50% OR significant volume (>5mm)
-    const isRainExpected = rainChance > 50 || rainForecast > 5;
+    const rainExpected = isRainExpected(weather);
     const isHighHeat = (weather?.temp || 0) > 35;
 
     // Advice State
@@ -67,7 +72,7 @@ export const IrrigationAdvice: React.FC<Props> = ({ level, weather, cropStage })
     // --- Decision Logic Helpers ---
 
     const adviseLowWater = (stageName: string) => {
-        if (isRainExpected) {
+        if (rainExpected) {
             setAdvice(
                 'warn',
                 'Wait for Rain',
@@ -78,24 +83,24 @@ export const IrrigationAdvice: React.FC<Props> = ({ level, weather, cropStage })
             );
         } else {
             setAdvice(
-                'critical', // Always critical if below 5cm and no rain
+                'critical', // Always critical if below the low threshold and no rain
                 'Irrigate Now',
                 `Level ${level}cm (Low)`,
                 `Gauge reads ${level}cm, which is critically low (<${THRESHOLD_LOW}cm) for ${stageName}. Risk of soil cracking.`,
-                'Fill to Gauge 15cm+ (Soil Surface) immediately.',
+                `Fill to Gauge ${SOIL_LEVEL}cm+ (Soil Surface) immediately.`,
                 <Droplets size={16} />
             );
         }
     };
 
     const adviseHighWater = () => {
-        if (isRainExpected) {
+        if (rainExpected) {
             setAdvice(
                 'warn',
                 'Drain Excess',
                 `Rain Expected.`,
-                `Gauge is at ${level}cm. Rain will increase this further. Drain to ~15cm to prevent overflow.`,
-                'Lower spillways to 15cm level.',
+                `Gauge is at ${level}cm. Rain will increase this further. Drain to ~${SOIL_LEVEL}cm to prevent overflow.`,
+                `Lower spillways to ${SOIL_LEVEL}cm level.`,
                 <ArrowDown size={16} />
             );
         } else {
@@ -118,58 +123,72 @@ export const IrrigationAdvice: React.FC<Props> = ({ level, weather, cropStage })
         const stageName = cropStage?.name ?? "Vegetative";
 
         // 2. Identify Stage Sensitivity
-        // Stages 3 (Booting) and 4 (Flowering) need FLOOD (>15cm Gauge)
-        // Stage 0 (Establishment) needs SATURATION (>15cm Gauge)
+        // Stages 3 (Booting) and 4 (Flowering) need FLOOD (above soil mark)
+        // Stage 0 (Establishment) needs SATURATION (above soil mark)
         const needsFlood = [0, 3, 4].includes(stageIndex);
         const allowAWD = [1, 2, 5].includes(stageIndex);
         const needsDrain = [6, 7].includes(stageIndex);
 
         // 3. Apply Logic Priorities
 
+        // PRIORITY 0: No live reading
+        // A silent node's last level says nothing about the field now.
+        if (freshness !== 'live') {
+            const since = lastSeen ? `Last reading ${lastSeen}.` : 'No recent readings.';
+            return setAdvice(
+                freshness === 'offline' ? 'critical' : 'warn',
+                freshness === 'offline' ? 'Sensor Offline' : 'Reading Stale',
+                since,
+                `The node has missed several scheduled transmissions, so the last gauge reading (${level}cm) may no longer match the field. Advice is paused until it reports again.`,
+                'Check the field by eye, and the node\'s battery and antenna.',
+                <WifiOff size={16} />
+            );
+        }
+
         // PRIORITY 1: Harvest / Drain Stages
-        // If field needs to be dry, any water > 15cm is bad.
+        // If field needs to be dry, any water above the soil mark is bad.
         if (needsDrain) {
             if (level > SOIL_LEVEL) {
-                return setAdvice('warn', 'Drain Field', 'Prepare harvest.', 'Field should be dry (Gauge <15cm) for ripening.', 'Open all drainage outlets.', <ArrowDown size={16} />);
+                return setAdvice('warn', 'Drain Field', 'Prepare harvest.', `Field should be dry (Gauge <${SOIL_LEVEL}cm) for ripening.`, 'Open all drainage outlets.', <ArrowDown size={16} />);
             } else {
                 return setAdvice('good', 'Ready', 'Field dry.', 'Conditions optimal for harvest.', null, <Sprout size={16} />);
             }
         }
 
-        // PRIORITY 2: High Water Rule (>20cm)
+        // PRIORITY 2: High Water Rule
         if (level > THRESHOLD_HIGH) {
             return adviseHighWater();
         }
 
-        // PRIORITY 3: Critical Low Water Rule (<5cm)
+        // PRIORITY 3: Critical Low Water Rule
         if (level < THRESHOLD_LOW) {
             return adviseLowWater(stageName);
         }
 
-        // PRIORITY 4: Intermediate Levels (5cm to 20cm)
+        // PRIORITY 4: Intermediate Levels (low to high threshold)
 
         // A: Stages requiring Flood (Establishment, Booting, Flowering)
         if (needsFlood) {
-            if (level < SOIL_LEVEL) { // 5cm to 15cm Gauge
-                if (isRainExpected) {
+            if (level < SOIL_LEVEL) { // Low threshold to soil mark
+                if (rainExpected) {
                     return setAdvice('warn', 'Wait for Rain', `Rain chance ${rainChance}%.`, `Gauge (${level}cm) is below soil surface, but rain is likely.`, null, <CloudRain size={16} />);
                 } else {
-                    return setAdvice('warn', 'Increase Level', 'Target Gauge 15cm+.', `Stage ${stageName} requires standing water (Gauge >15cm).`, 'Top up to 17-18cm.', <Droplets size={16} />);
+                    return setAdvice('warn', 'Increase Level', `Target Gauge ${SOIL_LEVEL}cm+.`, `Stage ${stageName} requires standing water (Gauge >${SOIL_LEVEL}cm).`, `Top up to ${SOIL_LEVEL + 2}-${SOIL_LEVEL + 3}cm.`, <Droplets size={16} />);
                 }
             } else {
-                // 15cm to 20cm -> Perfect
+                // Soil mark to high threshold -> Perfect
                 return setAdvice('good', 'Optimal Flood', 'Maintained.', `Gauge level (${level}cm) is ideal for ${stageName}.`, isHighHeat ? 'Flood helps cool the canopy.' : null, <Check size={16} />);
             }
         }
 
         // B: Stages allowing AWD (Tillering, Elongation, Filling)
         if (allowAWD) {
-            if (level < SOIL_LEVEL) { // 5cm to 15cm Gauge
+            if (level < SOIL_LEVEL) { // Low threshold to soil mark
                 // This is the AWD "Safe Drying" zone
-                return setAdvice('info', 'AWD Active', 'Soil drying.', 'Water is below soil surface (Gauge <15cm) but safe. Promotes root depth.', 'Monitor for soil cracks.', <ArrowDown size={16} />);
+                return setAdvice('info', 'AWD Active', 'Soil drying.', `Water is below soil surface (Gauge <${SOIL_LEVEL}cm) but safe. Promotes root depth.`, 'Monitor for soil cracks.', <ArrowDown size={16} />);
             } else {
-                // 15cm to 20cm
-                return setAdvice('good', 'Levels Good', 'Saturated.', 'Water availability is adequate (Gauge >15cm).', null, <Check size={16} />);
+                // Soil mark to high threshold
+                return setAdvice('good', 'Levels Good', 'Saturated.', `Water availability is adequate (Gauge >${SOIL_LEVEL}cm).`, null, <Check size={16} />);
             }
         }
     };
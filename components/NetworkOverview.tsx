@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Radio, Save } from 'lucide-react';
+import { Gateway, SensorData } from '../types';
+import { DeliveryThresholds, NodeDelivery, linkState, saveDeliveryThresholds } from '../services/packetLoss';
+import { gatewayIdFor } from '../services/gatewayService';
+
+interface Props {
+  sensors: SensorData[];
+  gateways: Gateway[];
+  deliveries: Record<string, NodeDelivery>;
+  thresholds: DeliveryThresholds;
+  onThresholdsChanged: (thresholds: DeliveryThresholds) => void;
+  onSelect: (sensor: SensorData) => void;
+}
+
+const STATE_STYLES = {
+  ok: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  degraded: 'bg-amber-50 text-amber-700 border-amber-100',
+  critical: 'bg-red-50 text-red-700 border-red-100',
+  unknown: 'bg-slate-50 text-slate-400 border-slate-200'
+};
+
+const STATE_LABELS = { ok: 'OK', degraded: 'Degraded', critical: 'Critical', unknown: '—' };
+
+export const NetworkOverview: React.FC<Props> = ({ sensors, gateways, deliveries, thresholds, onThresholdsChanged, onSelect }) => {
+  const [degraded, setDegraded] = useState(String(thresholds.degraded));
+  const [critical, setCritical] = useState(String(thresholds.critical));
+
+  const gatewayName = (sensor: SensorData) => {
+    const id = gatewayIdFor(sensor.raw);
+    return gateways.find(g => g.id === id)?.name || id;
+  };
+
+  const cellTone = (ratio: number | null) => {
+    if (ratio === null) return 'bg-white text-slate-300 border-slate-100';
+    const pct = ratio * 100;
+    if (pct < thresholds.critical) return 'bg-red-50 text-red-700 border-red-100';
+    if (pct < thresholds.degraded) return 'bg-amber-50 text-amber-700 border-amber-100';
+    return 'bg-emerald-50 text-emerald-700 border-emerald-100';
+  };
+
+  const handleSave = () => {
+    const next = { degraded: parseFloat(degraded), critical: parseFloat(critical) };
+    if (isNaN(next.degraded) || isNaN(next.critical) || next.critical > next.degraded) return;
+    saveDeliveryThresholds(next);
+    onThresholdsChanged(next);
+  };
+
+  // Worst links first
+  const rows = sensors
+    .map(sensor => ({ sensor, delivery: deliveries[sensor.id] }))
+    .filter(r => r.delivery)
+    .sort((a, b) => (a.delivery.recent.ratio ?? 1) - (b.delivery.recent.ratio ?? 1));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50/50 flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-blue-100 p-2 rounded-lg text-blue-600">
+            <Radio size={20} />
+          </div>
+          <div>
+            <h3 className="font-bold text-slate-800">Uplink Delivery</h3>
+            <p className="text-xs text-slate-500">Share of transmissions that reached the sheet, per node and day</p>
+          </div>
+        </div>
+        <div className="flex items-end gap-2">
+          <div>
+            <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Degraded below %</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={degraded}
+              onChange={e => setDegraded(e.target.value)}
+              className="w-24 p-2 text-sm font-mono border border-slate-200 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white text-slate-900"
+            />
+          </div>
+          <div>
+            <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Critical below %</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={critical}
+              onChange={e => setCritical(e.target.value)}
+              className="w-24 p-2 text-sm font-mono border border-slate-200 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white text-slate-900"
+            />
+          </div>
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-1.5 px-3 py-2 bg-white border border-slate-300 hover:bg-emerald-50 hover:text-emerald-700 text-slate-700 text-xs font-bold rounded-lg transition-colors"
+          >
+            <Save size={12} /> Save
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="bg-slate-50 text-[10px] font-bold text-slate-400 uppercase">
+            <tr>
+              <th className="px-4 py-2">Node</th>
+              <th className="px-4 py-2">Gateway</th>
+              <th className="px-4 py-2">24h</th>
+              <th className="px-4 py-2">Link</th>
+              <th className="px-4 py-2">Last 7 Days</th>
+              <th className="px-4 py-2">Method</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map(({ sensor, delivery }) => {
+              const state = linkState(delivery.recent, thresholds);
+              return (
+                <tr key={sensor.id} className="hover:bg-slate-50 cursor-pointer" onClick={() => onSelect(sensor)}>
+                  <td className="px-4 py-2">
+                    <p className="font-semibold text-slate-800">{sensor.name}</p>
+                    <p className="font-mono text-[10px] text-slate-400">{sensor.id}</p>
+                  </td>
+                  <td className="px-4 py-2 text-slate-600">{gatewayName(sensor)}</td>
+                  <td className="px-4 py-2 font-mono">
+                    {delivery.recent.ratio === null ? '—' : (
+                      <>
+                        <span className="font-semibold text-slate-800">{Math.round(delivery.recent.ratio * 100)}%</span>
+                        <span className="text-slate-400"> · {delivery.recent.lost} lost</span>
+                      </>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">
+                    <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase border ${STATE_STYLES[state]}`}>{STATE_LABELS[state]}</span>
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex gap-1">
+                      {[...delivery.days].reverse().map(d => (
+                        <span
+                          key={d.day}
+                          className={`w-8 text-center rounded border text-[10px] font-bold py-0.5 ${cellTone(d.ratio)}`}
+                          title={`${d.day}: ${d.received} received, ${d.lost} lost`}
+                        >
+                          {d.ratio === null ? '—' : Math.round(d.ratio * 100)}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-4 py-2 text-slate-500">{delivery.method === 'counter' ? 'Frame counter' : 'Interval'}</td>
+                </tr>
+              );
+            })}
+            {rows.length === 0 && (
+              <tr><td colSpan={6} className="px-4 py-6 text-center text-slate-400">No readings yet</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
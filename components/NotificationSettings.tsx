@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Bell, BellOff, Save, Send } from 'lucide-react';
+import { NotificationSettings as Settings, getNotificationSettings, saveNotificationSettings, requestNotificationPermission, isNotificationSupported, sendTestNotification } from '../services/notificationService';
+import { PlotAlertKind, PLOT_ALERT_LABELS } from '../services/plotAlerts';
+
+const KIND_HINTS: Record<PlotAlertKind, string> = {
+  flood: 'Water above the flood mark or rising fast towards it',
+  low: 'Water below the dry limit; irrigate now',
+  stale: 'A sensor has stopped reporting',
+  rule: 'Your own alert rules from the Alert Rules settings'
+};
+
+export const NotificationSettings: React.FC = () => {
+  const [settings, setSettings] = useState<Settings>(getNotificationSettings());
+  const [dirty, setDirty] = useState(false);
+  const [permission, setPermission] = useState(isNotificationSupported() ? Notification.permission : 'denied');
+
+  const update = (patch: Partial<Settings>) => {
+    setSettings(prev => ({ ...prev, ...patch }));
+    setDirty(true);
+  };
+
+  const handleToggle = async () => {
+    if (settings.enabled) {
+      update({ enabled: false });
+      return;
+    }
+    const granted = await requestNotificationPermission();
+    setPermission(isNotificationSupported() ? Notification.permission : 'denied');
+    if (granted) update({ enabled: true });
+  };
+
+  const handleSave = () => {
+    saveNotificationSettings(settings);
+    setDirty(false);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50/50 flex justify-between items-center gap-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-purple-100 p-2 rounded-lg text-purple-600">
+            <Bell size={20} />
+          </div>
+          <div>
+            <h3 className="font-bold text-slate-800">Notifications</h3>
+            <p className="text-xs text-slate-500">Alerts on this device when a plot needs attention, even with the app closed</p>
+          </div>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!dirty}
+          className="flex items-center gap-2 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-bold rounded-md transition-colors shadow-sm disabled:opacity-40"
+        >
+          <Save size={14} /> Save
+        </button>
+      </div>
+
+      <div className="p-6 space-y-5">
+        {!isNotificationSupported() || permission === 'denied' ? (
+          <p className="flex items-center gap-2 text-xs text-slate-500">
+            <BellOff size={14} />
+            {isNotificationSupported() ? 'Notifications are blocked for this site in the browser settings.' : 'This browser does not support notifications.'}
+          </p>
+        ) : (
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={handleToggle}
+              className={`px-3 py-2 text-xs font-semibold rounded-lg border ${settings.enabled ? 'bg-emerald-500 text-white border-emerald-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+            >
+              {settings.enabled ? 'Notifications On' : 'Turn On Notifications'}
+            </button>
+            {settings.enabled && (
+              <button
+                onClick={() => sendTestNotification()}
+                className="flex items-center gap-1.5 px-3 py-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 text-xs font-medium rounded-lg transition-colors"
+              >
+                <Send size={12} /> Send Test
+              </button>
+            )}
+          </div>
+        )}
+
+        <div className={`space-y-5 ${settings.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {(Object.keys(PLOT_ALERT_LABELS) as PlotAlertKind[]).map(kind => (
+              <label key={kind} className="flex items-start gap-2 px-3 py-2 rounded-lg border border-slate-200 cursor-pointer hover:bg-slate-50">
+                <input
+                  type="checkbox"
+                  checked={settings.kinds[kind]}
+                  onChange={e => update({ kinds: { ...settings.kinds, [kind]: e.target.checked } })}
+                  className="mt-0.5 accent-emerald-600"
+                />
+                <span className="text-xs font-semibold text-slate-700">
+                  {PLOT_ALERT_LABELS[kind]}
+                  <span className="block text-[10px] font-normal text-slate-500">{KIND_HINTS[kind]}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase cursor-pointer pb-2">
+              <input
+                type="checkbox"
+                checked={settings.quietHours}
+                onChange={e => update({ quietHours: e.target.checked })}
+                className="accent-emerald-600"
+              />
+              Quiet Hours
+            </label>
+            {(['quietStart', 'quietEnd'] as const).map(field => (
+              <div key={field} className={settings.quietHours ? '' : 'opacity-40'}>
+                <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">{field === 'quietStart' ? 'From' : 'Until'}</label>
+                <input
+                  type="time"
+                  value={settings[field]}
+                  disabled={!settings.quietHours}
+                  onChange={e => update({ [field]: e.target.value })}
+                  className="p-2 text-sm font-mono border border-slate-200 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white text-slate-900"
+                />
+              </div>
+            ))}
+            <p className="text-[10px] text-slate-400 pb-2">Alerts still active when quiet hours end are sent then.</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
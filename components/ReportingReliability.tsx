@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Signal, Save } from 'lucide-react';
+import { SensorData } from '../types';
+import { dailyGaps, getConfiguredInterval, saveConfiguredInterval, learnInterval } from '../services/freshnessService';
+import { NodeDelivery, linkState } from '../services/packetLoss';
+
+interface Props {
+  sensor: SensorData;
+  // Frame-counter based delivery, when the node's payload carries a counter
+  delivery?: NodeDelivery;
+  onChanged: () => void;
+}
+
+const LINK_LABELS = {
+  ok: { text: 'Link OK', tone: 'bg-emerald-50 text-emerald-700 border-emerald-100' },
+  degraded: { text: 'Link degraded', tone: 'bg-amber-50 text-amber-700 border-amber-100' },
+  critical: { text: 'Link degraded', tone: 'bg-red-50 text-red-700 border-red-100' },
+  unknown: { text: 'Not enough data', tone: 'bg-slate-50 text-slate-500 border-slate-200' }
+};
+
+const formatInterval = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 120 ? `${minutes} min` : `${Math.round(minutes / 60)} h`;
+};
+
+export const ReportingReliability: React.FC<Props> = ({ sensor, delivery, onChanged }) => {
+  const configured = getConfiguredInterval(sensor.id);
+  const [minutes, setMinutes] = useState<string>(configured ? String(configured) : '');
+  const learned = learnInterval(sensor.history);
+  const interval = sensor.expectedInterval || (configured ? configured * 60000 : learned || 15 * 60000);
+  // Counters see every lost uplink; otherwise gaps against the interval,
+  // which also catch a node that has gone silent today
+  const days = delivery?.method === 'counter'
+    ? delivery.days.map(d => ({ day: d.day, received: d.received, gaps: 0, missed: d.lost, reliability: d.ratio ?? 0 }))
+    : dailyGaps(sensor.history, interval);
+  const state = delivery ? linkState(delivery.recent) : 'unknown';
+
+  const handleSave = () => {
+    const value = parseFloat(minutes);
+    saveConfiguredInterval(sensor.id, isNaN(value) ? null : value);
+    onChanged();
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+            <Signal size={14} />
+            Reporting Reliability
+          </h3>
+          <p className="text-[11px] text-slate-500 mt-1">
+            Expects a reading every <span className="font-semibold text-slate-700">{formatInterval(interval)}</span>
+            {configured ? ' (set manually)' : learned ? ' (learned from history)' : ' (default)'}
+          </p>
+          {delivery && (
+            <p className="text-[11px] text-slate-500 mt-1 flex items-center gap-2">
+              <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase border ${LINK_LABELS[state].tone}`}>{LINK_LABELS[state].text}</span>
+              {delivery.recent.ratio !== null && (
+                <span>
+                  <span className="font-semibold text-slate-700">{Math.round(delivery.recent.ratio * 100)}%</span> delivered in 24h
+                  ({delivery.recent.lost} lost, {delivery.method === 'counter' ? 'from frame counters' : 'from the expected interval'})
+                </span>
+              )}
+            </p>
+          )}
+        </div>
+        <div className="flex items-end gap-2">
+          <div>
+            <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Interval (min)</label>
+            <input
+              type="number"
+              min={1}
+              value={minutes}
+              placeholder={learned ? `Auto (${Math.round(learned / 60000)})` : 'Auto'}
+              onChange={e => setMinutes(e.target.value)}
+              className="w-28 p-2 text-sm font-mono border border-slate-200 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white text-slate-900"
+            />
+          </div>
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-1.5 px-3 py-2 bg-white border border-slate-300 hover:bg-emerald-50 hover:text-emerald-700 text-slate-700 text-xs font-bold rounded-lg transition-colors"
+          >
+            <Save size={12} /> Save
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 gap-2">
+        {days.map(d => {
+          const empty = d.received + d.missed === 0;
+          const pct = Math.round(d.reliability * 100);
+          const tone = empty ? 'bg-white text-slate-300 border-slate-100'
+            : pct >= 95 ? 'bg-emerald-50 text-emerald-700 border-emerald-100'
+            : pct >= 75 ? 'bg-amber-50 text-amber-700 border-amber-100'
+            : 'bg-red-50 text-red-700 border-red-100';
+          return (
+            <div key={d.day} className={`rounded-lg border p-2 text-center ${tone}`} title={`${d.received} received, ${d.missed} missed`}>
+              <p className="text-[10px] font-bold uppercase opacity-70">{d.day.slice(5)}</p>
+              <p className="text-sm font-bold">{empty ? '—' : `${pct}%`}</p>
+              <p className="text-[10px] font-medium">{delivery?.method === 'counter' ? `${d.missed} lost` : `${d.gaps} gap${d.gaps !== 1 ? 's' : ''}`}</p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea } from 'recharts';
+import { Signal } from 'lucide-react';
+import { SignalKind, SignalSample, dailySignalStats, gapCorrelation, findGaps, operatorStats } from '../services/signalAnalytics';
+import { formatDateTime } from '../services/dataService';
+import { intlTimeZone } from '../services/timeService';
+import { getSignalQuality } from './SignalBars';
+
+interface Props {
+  kind: SignalKind;
+  samples: SignalSample[]; // Oldest -> Newest
+  intervalMs: number;
+}
+
+const UNITS: Record<SignalKind, string> = { WiFi: 'dBm', GSM: 'CSQ', LoRa: 'dBm' };
+
+const QUALITY_ORDER = ['Excellent', 'Good', 'Fair', 'Weak', 'Poor', 'No Signal'];
+const QUALITY_COLORS: Record<string, string> = {
+  'Excellent': 'bg-emerald-500',
+  'Good': 'bg-emerald-400',
+  'Fair': 'bg-amber-400',
+  'Weak': 'bg-orange-500',
+  'Poor': 'bg-red-500',
+  'No Signal': 'bg-slate-300'
+};
+
+const percent = (n: number) => `${Math.round(n * 100)}%`;
+
+export const SignalAnalytics: React.FC<Props> = ({ kind, samples, intervalMs }) => {
+  const classify = (value: number) => getSignalQuality(kind, value).label;
+  // Weak, Poor and No Signal all show a single bar or none
+  const isWeak = (value: number) => getSignalQuality(kind, value).strength <= 1;
+
+  const days = useMemo(() => dailySignalStats(samples, intervalMs, classify), [samples, intervalMs, kind]);
+  const correlation = useMemo(() => gapCorrelation(samples, intervalMs, isWeak), [samples, intervalMs, kind]);
+  const gaps = useMemo(() => findGaps(samples, intervalMs), [samples, intervalMs]);
+  const operators = useMemo(() => operatorStats(samples, intervalMs, isWeak), [samples, intervalMs, kind]);
+
+  const chartData = useMemo(() => samples.map(s => ({ ts: s.ts, value: s.value })), [samples]);
+  const timeZone = intlTimeZone();
+  const tickLabel = (ts: number) => new Date(ts).toLocaleString([], { timeZone, month: 'short', day: 'numeric', hour: '2-digit' });
+
+  if (samples.length === 0) {
+    return <p className="text-xs text-slate-400">No {kind} signal readings in this period</p>;
+  }
+
+  const showOperators = operators.some(o => o.operator !== '-');
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+          <Signal size={14} /> {kind} Signal ({UNITS[kind]})
+          {gaps.length > 0 && <span className="normal-case font-medium text-red-400">· shaded: missed transmissions</span>}
+        </h3>
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="ts" type="number" domain={['dataMin', 'dataMax']} scale="time" tickFormatter={tickLabel} tick={{ fontSize: 10, fill: '#94a3b8' }} minTickGap={40} />
+              <YAxis tick={{ fontSize: 10, fill: '#94a3b8' }} domain={['auto', 'auto']} />
+              <Tooltip
+                labelFormatter={(ts: number) => formatDateTime(ts)}
+                formatter={(value: number) => [`${value} ${UNITS[kind]} (${classify(value)})`, 'Signal']}
+                contentStyle={{ fontSize: 12, borderRadius: 8 }}
+              />
+              {gaps.map(([from, to]) => (
+                <ReferenceArea key={from} x1={from} x2={to} fill="#fecaca" fillOpacity={0.5} ifOverflow="extendDomain" />
+              ))}
+              <Line type="monotone" dataKey="value" stroke="#3b82f6" strokeWidth={2} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Outages vs Signal */}
+      <p className="text-xs text-slate-600 bg-slate-50 border border-slate-100 rounded-lg px-3 py-2">
+        {correlation.gaps === 0
+          ? 'No missed transmissions in this period.'
+          : <>
+              <span className="font-semibold text-slate-800">{correlation.gapsAfterWeak} of {correlation.gaps}</span> outages followed a weak reading
+              ({percent(correlation.weakShare)} of readings were weak).
+              {correlation.gapRateWeak > correlation.gapRateOther * 2 && correlation.gapsAfterWeak >= 2
+                ? <span className="font-semibold text-amber-700"> Outages are much more likely on a weak link; check the antenna or operator.</span>
+                : <span> Outages do not track signal strength; check power and firmware.</span>}
+            </>}
+      </p>
+
+      {/* Daily Percentiles and Time per Quality */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="text-[10px] font-bold text-slate-400 uppercase">
+            <tr>
+              <th className="py-2 pr-3">Day</th>
+              <th className="py-2 pr-3">P10</th>
+              <th className="py-2 pr-3">Median</th>
+              <th className="py-2 pr-3">P90</th>
+              <th className="py-2 w-1/2">Time by Quality</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {days.map(d => {
+              const total = Object.values(d.buckets).reduce((a, b) => a + b, 0);
+              return (
+                <tr key={d.day}>
+                  <td className="py-2 pr-3 font-mono text-slate-500">{d.day.slice(5)}</td>
+                  <td className="py-2 pr-3 font-mono text-slate-700">{d.p10 ?? '—'}</td>
+                  <td className="py-2 pr-3 font-mono font-semibold text-slate-800">{d.p50 ?? '—'}</td>
+                  <td className="py-2 pr-3 font-mono text-slate-700">{d.p90 ?? '—'}</td>
+                  <td className="py-2">
+                    {total === 0 ? <span className="text-slate-300">—</span> : (
+                      <div className="flex h-2.5 rounded-full overflow-hidden bg-slate-100">
+                        {QUALITY_ORDER.filter(q => d.buckets[q]).map(q => (
+                          <div
+                            key={q}
+                            className={QUALITY_COLORS[q]}
+                            style={{ width: percent(d.buckets[q] / total) }}
+                            title={`${q}: ${percent(d.buckets[q] / total)}`}
+                          />
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <div className="flex flex-wrap gap-3 mt-2">
+          {QUALITY_ORDER.map(q => (
+            <span key={q} className="flex items-center gap-1 text-[10px] text-slate-500">
+              <span className={`w-2 h-2 rounded-sm ${QUALITY_COLORS[q]}`} /> {q}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* SIM Operators */}
+      {showOperators && (
+        <div>
+          <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">By SIM Operator</h4>
+          <table className="w-full text-left text-xs">
+            <thead className="text-[10px] font-bold text-slate-400 uppercase">
+              <tr>
+                <th className="py-1.5 pr-3">Operator</th>
+                <th className="py-1.5 pr-3">Readings</th>
+                <th className="py-1.5 pr-3">Median</th>
+                <th className="py-1.5 pr-3">Weak</th>
+                <th className="py-1.5">Time</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {operators.map(o => (
+                <tr key={o.operator}>
+                  <td className="py-1.5 pr-3 font-semibold text-slate-700">{o.operator}</td>
+                  <td className="py-1.5 pr-3 font-mono text-slate-600">{o.count}</td>
+                  <td className="py-1.5 pr-3 font-mono text-slate-600">{o.median} {UNITS[kind]}</td>
+                  <td className={`py-1.5 pr-3 font-mono ${o.weakShare > 0.2 ? 'text-red-600 font-semibold' : 'text-slate-600'}`}>{percent(o.weakShare)}</td>
+                  <td className="py-1.5 font-mono text-slate-600">{Math.round(o.timeMs / 3600000)} h</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
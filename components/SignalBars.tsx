@@ -1,12 +1,12 @@
 import React from 'react';
 
 interface Props {
-  type: 'WiFi' | 'GSM' | 'Unknown';
+  type: 'WiFi' | 'GSM' | 'LoRa' | 'Unknown';
   value: number | string;
   className?: string;
 }
 
-export const getSignalQuality = (type: 'WiFi' | 'GSM' | 'Unknown', value: number | string) => {
+export const getSignalQuality = (type: 'WiFi' | 'GSM' | 'LoRa' | 'Unknown', value: number | string) => {
   const numValue = parseInt(String(value), 10);
   let strength = 0; // 0-4 scale
   let label = 'Unknown';
@@ -32,6 +32,19 @@ export const getSignalQuality = (type: 'WiFi' | 'GSM' | 'Unknown', value: number
     } else { 
         strength = 1; label = 'Poor'; activeBarColor = 'bg-red-500'; textColor = 'text-red-600';
     }
+  } else if (type === 'LoRa') {
+    // LoRa uplink RSSI (dBm) at the gateway
+    if (numValue >= -90) { 
+        strength = 4; label = 'Excellent'; activeBarColor = 'bg-emerald-500'; textColor = 'text-emerald-600';
+    } else if (numValue >= -100) { 
+        strength = 3; label = 'Good'; activeBarColor = 'bg-emerald-400'; textColor = 'text-emerald-600';
+    } else if (numValue >= -110) { 
+        strength = 2; label = 'Fair'; activeBarColor = 'bg-amber-400'; textColor = 'text-amber-600';
+    } else if (numValue >= -120) { 
+        strength = 1; label = 'Weak'; activeBarColor = 'bg-orange-500'; textColor = 'text-orange-600';
+    } else { 
+        strength = 1; label = 'Poor'; activeBarColor = 'bg-red-500'; textColor = 'text-red-600';
+    }
   } else {
     // GSM (CSQ 0-31)
     if (numValue >= 20 && numValue !== 99) { 
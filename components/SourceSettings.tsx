@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { Database, Plus, Trash2, PlayCircle, CheckCircle2, XCircle, Loader2, Link2, Save, RotateCcw } from 'lucide-react';
+import { DataSourceConfig, SourceFormat, getDataSources, saveDataSources, createDataSource, listAdapters, isSimulatorSource, DEFAULT_TIMEOUT_SECONDS } from '../services/sourceRegistry';
+import { SimulatorConfig, createSimulatorConfig } from '../services/fieldSimulator';
+import { testDataSource, formatDateTime } from '../services/dataService';
+import { shareSourceUrls } from '../services/offlineService';
+import { TimestampFormat, TIMESTAMP_FORMATS, listTimeZones } from '../services/timeService';
+
+interface Props {
+  onSourcesChanged: () => void;
+  onFullReload: () => void;
+}
+
+interface TestResult {
+  loading: boolean;
+  ok?: boolean;
+  message?: string;
+}
+
+export const SourceSettings: React.FC<Props> = ({ onSourcesChanged, onFullReload }) => {
+  const [sources, setSources] = useState<DataSourceConfig[]>(getDataSources());
+  const [testResults, setTestResults] = useState<Record<string, TestResult>>({});
+  const [dirty, setDirty] = useState(false);
+
+  const adapters = listAdapters();
+  const timeZones = listTimeZones();
+
+  const updateSource = (id: string, patch: Partial<DataSourceConfig>) => {
+    setSources(prev => prev.map(s => {
+      if (s.id !== id) return s;
+      const next = { ...s, ...patch };
+      // A simulator's season starts the first time it is switched on
+      if (isSimulatorSource(next) && !next.simulator) next.simulator = createSimulatorConfig();
+      return next;
+    }));
+    setDirty(true);
+  };
+
+  const updateSimulator = (source: DataSourceConfig, patch: Partial<SimulatorConfig>) => {
+    updateSource(source.id, { simulator: createSimulatorConfig({ ...source.simulator, ...patch }) });
+  };
+
+  const updateSimulatorNumber = (source: DataSourceConfig, field: keyof SimulatorConfig, value: string) => {
+    const num = parseInt(value, 10);
+    if (!isNaN(num) && num >= (field === 'seed' ? 0 : 1)) updateSimulator(source, { [field]: num });
+  };
+
+  const handleAdd = () => {
+    setSources(prev => [...prev, createDataSource({ enabled: false })]);
+    setDirty(true);
+  };
+
+  const handleRemove = (id: string) => {
+    setSources(prev => prev.filter(s => s.id !== id));
+    setDirty(true);
+  };
+
+  const handleSave = () => {
+    saveDataSources(sources);
+    shareSourceUrls();
+    setDirty(false);
+    onSourcesChanged();
+  };
+
+  const handleTest = async (source: DataSourceConfig) => {
+    setTestResults(prev => ({ ...prev, [source.id]: { loading: true } }));
+    const result = await testDataSource(source);
+    const message = result.ok
+      ? `${result.rowCount} rows${result.rejectedCount > 0 ? ` (${result.rejectedCount} rejected)` : ''}${result.sample ? ` · latest ${result.sample["Device ID"]} at ${formatDateTime(result.sample["Gateway Received Time"])}` : ''}`
+      : result.error;
+    setTestResults(prev => ({ ...prev, [source.id]: { loading: false, ok: result.ok, message } }));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50/50 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-blue-100 p-2 rounded-lg text-blue-600">
+            <Database size={20} />
+          </div>
+          <div>
+            <h3 className="font-bold text-slate-800">Data Sources</h3>
+            <p className="text-xs text-slate-500">Gateway sheets and device feeds polled by the dashboard</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onFullReload}
+            className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 text-xs font-medium rounded-md transition-colors shadow-sm"
+            title="Download every row again instead of only new rows"
+          >
+            <RotateCcw size={14} /> Full Reload
+          </button>
+          <button
+            onClick={handleAdd}
+            className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 text-xs font-medium rounded-md transition-colors shadow-sm"
+          >
+            <Plus size={14} /> Add Source
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!dirty}
+            className="flex items-center gap-2 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-bold rounded-md transition-colors shadow-sm disabled:opacity-40"
+          >
+            <Save size={14} /> Save
+          </button>
+        </div>
+      </div>
+
+      <div className="divide-y divide-slate-100">
+        {sources.length === 0 && (
+          <div className="px-6 py-12 text-center text-slate-400 italic bg-slate-50/30">
+            No data sources configured.
+          </div>
+        )}
+        {sources.map(source => {
+          const test = testResults[source.id];
+          return (
+            <div key={source.id} className={`px-6 py-5 space-y-3 ${source.enabled ? '' : 'opacity-60'}`}>
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={source.enabled}
+                    onChange={e => updateSource(source.id, { enabled: e.target.checked })}
+                    className="accent-emerald-600"
+                  />
+                  Enabled
+                </label>
+                <input
+                  type="text"
+                  value={source.name}
+                  onChange={e => updateSource(source.id, { name: e.target.value })}
+                  className="flex-1 min-w-[160px] text-sm font-bold text-slate-800 border-b border-slate-200 focus:border-emerald-500 focus:outline-none bg-transparent px-1"
+                />
+                <span className="text-[10px] text-slate-400 font-mono">{source.id}</span>
+              </div>
+
+              <div className="flex flex-col md:flex-row gap-3">
+                {isSimulatorSource(source) ? (
+                  <div className="flex-1 flex flex-wrap items-center gap-2">
+                    {([
+                      ['seed', 'Seed'],
+                      ['plots', 'Plots'],
+                      ['intervalMinutes', 'Interval (min)']
+                    ] as [keyof SimulatorConfig, string][]).map(([field, label]) => (
+                      <label key={field} className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 uppercase">
+                        {label}
+                        <input
+                          type="number"
+                          value={source.simulator ? source.simulator[field] : ''}
+                          onChange={e => updateSimulatorNumber(source, field, e.target.value)}
+                          className="w-20 px-2 py-1.5 text-xs font-mono border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20 bg-white text-slate-700"
+                        />
+                      </label>
+                    ))}
+                    <button
+                      onClick={() => updateSimulator(source, { startedAt: createSimulatorConfig().startedAt })}
+                      className="px-2 py-1.5 text-xs font-medium text-slate-500 hover:text-slate-700 hover:bg-slate-50 rounded-md"
+                      title="Start a fresh simulated season ending now (use Full Reload afterwards)"
+                    >
+                      Restart Season
+                    </button>
+                  </div>
+                ) : (
+                  <div className="relative flex-1">
+                    <div className="absolute inset-y-0 left-0 pl-2.5 flex items-center pointer-events-none">
+                      <Link2 size={14} className="text-slate-400" />
+                    </div>
+                    <input
+                      type="url"
+                      value={source.url}
+                      placeholder="https://script.google.com/macros/s/.../exec"
+                      onChange={e => updateSource(source.id, { url: e.target.value })}
+                      className="w-full pl-8 pr-2 py-1.5 text-xs font-mono border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20 bg-white text-slate-700"
+                    />
+                  </div>
+                )}
+                <select
+                  value={source.format}
+                  onChange={e => updateSource(source.id, { format: e.target.value as SourceFormat })}
+                  className="px-2 py-1.5 bg-white border border-slate-300 text-slate-700 text-xs font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20 cursor-pointer"
+                  title={adapters.find(a => a.format === source.format)?.description}
+                >
+                  {adapters.map(a => (
+                    <option key={a.format} value={a.format}>{a.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={source.timestampFormat || 'auto'}
+                  onChange={e => updateSource(source.id, { timestampFormat: e.target.value as TimestampFormat })}
+                  className="px-2 py-1.5 bg-white border border-slate-300 text-slate-700 text-xs font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20 cursor-pointer"
+                  title="How this source writes its timestamps"
+                >
+                  {TIMESTAMP_FORMATS.map(f => (
+                    <option key={f.value} value={f.value}>{f.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={source.timezone || 'local'}
+                  onChange={e => updateSource(source.id, { timezone: e.target.value })}
+                  className="px-2 py-1.5 bg-white border border-slate-300 text-slate-700 text-xs font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20 cursor-pointer max-w-[180px]"
+                  title="Time zone the source's logger runs in (ignored for timestamps with an explicit offset)"
+                >
+                  <option value="local">Browser Time Zone</option>
+                  {timeZones.map(z => (
+                    <option key={z} value={z}>{z}</option>
+                  ))}
+                </select>
+                {!isSimulatorSource(source) && (
+                  <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 uppercase" title="Abort requests that take longer than this">
+                    Timeout (s)
+                    <input
+                      type="number"
+                      min={1}
+                      value={source.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS}
+                      onChange={e => {
+                        const num = parseInt(e.target.value, 10);
+                        if (!isNaN(num) && num >= 1) updateSource(source.id, { timeoutSeconds: num });
+                      }}
+                      className="w-16 px-2 py-1.5 text-xs font-mono border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20 bg-white text-slate-700"
+                    />
+                  </label>
+                )}
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => handleTest(source)}
+                    disabled={test?.loading}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-300 hover:bg-blue-50 hover:text-blue-600 text-slate-700 text-xs font-medium rounded-md transition-colors"
+                  >
+                    {test?.loading ? <Loader2 size={14} className="animate-spin" /> : <PlayCircle size={14} />} Test
+                  </button>
+                  <button
+                    onClick={() => handleRemove(source.id)}
+                    className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors"
+                    title="Remove Source"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+
+              {test && !test.loading && (
+                <div className={`flex items-center gap-2 text-xs font-medium px-3 py-2 rounded-lg border ${test.ok ? 'bg-emerald-50 text-emerald-700 border-emerald-100' : 'bg-red-50 text-red-700 border-red-100'}`}>
+                  {test.ok ? <CheckCircle2 size={14} /> : <XCircle size={14} />}
+                  {test.message}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
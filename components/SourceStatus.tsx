@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { Database, Save, RotateCcw } from 'lucide-react';
+import { DataSourceConfig, isSimulatorSource } from '../services/sourceRegistry';
+import { FAILURE_LABELS, FailureKind, SourceHealth, getSourceHealth, resetSourceHealth, typicalLatency, getSourceAlertMinutes, saveSourceAlertMinutes } from '../services/sourceHealth';
+import { formatDateTime, getRetryAt } from '../services/dataService';
+
+interface Props {
+  sources: DataSourceConfig[];
+  onAlertsChanged: () => void;
+}
+
+const stateOf = (health: SourceHealth | undefined, thresholdMs: number, now: number) => {
+  if (!health || health.requests === 0) return { label: 'No Requests', style: 'bg-slate-50 text-slate-400 border-slate-200' };
+  if (health.failingSince === null) return { label: 'OK', style: 'bg-emerald-50 text-emerald-700 border-emerald-100' };
+  if (now - health.failingSince >= thresholdMs) return { label: 'Down', style: 'bg-red-50 text-red-700 border-red-100' };
+  return { label: 'Failing', style: 'bg-amber-50 text-amber-700 border-amber-100' };
+};
+
+export const SourceStatus: React.FC<Props> = ({ sources, onAlertsChanged }) => {
+  // Read on every render so the page follows the refreshes behind it
+  const health = getSourceHealth();
+  const [minutes, setMinutes] = useState(String(getSourceAlertMinutes()));
+
+  const thresholdMs = getSourceAlertMinutes() * 60000;
+  const now = Date.now();
+
+  const handleSave = () => {
+    const value = parseFloat(minutes);
+    saveSourceAlertMinutes(isNaN(value) ? 0 : value);
+    setMinutes(String(getSourceAlertMinutes()));
+    onAlertsChanged();
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Clear the request history for every source?')) return;
+    resetSourceHealth();
+    onAlertsChanged();
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50/50 flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-blue-100 p-2 rounded-lg text-blue-600">
+            <Database size={20} />
+          </div>
+          <div>
+            <h3 className="font-bold text-slate-800">Source Health</h3>
+            <p className="text-xs text-slate-500">Latency, responses and failures for each configured source</p>
+          </div>
+        </div>
+        <div className="flex items-end gap-2">
+          <div>
+            <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Alert after (min)</label>
+            <input
+              type="number"
+              min={1}
+              value={minutes}
+              onChange={e => setMinutes(e.target.value)}
+              className="w-24 p-2 text-sm font-mono border border-slate-200 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white text-slate-900"
+            />
+          </div>
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-1.5 px-3 py-2 bg-white border border-slate-300 hover:bg-emerald-50 hover:text-emerald-700 text-slate-700 text-xs font-bold rounded-lg transition-colors"
+          >
+            <Save size={12} /> Save
+          </button>
+          <button
+            onClick={handleReset}
+            className="flex items-center gap-1.5 px-3 py-2 bg-white border border-slate-300 hover:bg-red-50 hover:text-red-700 text-slate-700 text-xs font-bold rounded-lg transition-colors"
+          >
+            <RotateCcw size={12} /> Reset
+          </button>
+        </div>
+      </div>
+
+      <div className="divide-y divide-slate-100">
+        {sources.length === 0 && (
+          <div className="px-6 py-12 text-center text-slate-400 italic bg-slate-50/30">
+            No data sources enabled.
+          </div>
+        )}
+        {sources.map(source => {
+          const h = health[source.id];
+          const state = stateOf(h, thresholdMs, now);
+          const latency = h ? typicalLatency(h) : null;
+          return (
+            <div key={source.id} className="px-6 py-5 space-y-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="font-bold text-sm text-slate-800">{source.name}</span>
+                <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase border ${state.style}`}>{state.label}</span>
+                <span className="text-[10px] text-slate-400 font-mono truncate max-w-full">{isSimulatorSource(source) ? 'simulator' : source.url}</span>
+              </div>
+
+              {h && h.requests > 0 && (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-xs">
+                    <div>
+                      <p className="text-[10px] font-bold text-slate-400 uppercase">Last Success</p>
+                      <p className="font-mono text-slate-700">{h.lastSuccess ? formatDateTime(h.lastSuccess) : 'Never'}</p>
+                    </div>
+                    <div>
+                      <p className="text-[10px] font-bold text-slate-400 uppercase">Latency</p>
+                      <p className="font-mono text-slate-700">
+                        {latency === null ? '—' : `${latency} ms`}
+                        {h.recent.length > 0 && <span className="text-slate-400"> · last {h.recent[h.recent.length - 1].latencyMs} ms</span>}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-[10px] font-bold text-slate-400 uppercase">HTTP Status</p>
+                      <p className="font-mono text-slate-700">{h.lastStatus ?? '—'}</p>
+                    </div>
+                    <div>
+                      <p className="text-[10px] font-bold text-slate-400 uppercase">Last Rows</p>
+                      <p className="font-mono text-slate-700">
+                        {h.lastRowCount}
+                        {h.lastRejected > 0 && <span className="text-amber-600"> · {h.lastRejected} rejected</span>}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-[10px] font-bold text-slate-400 uppercase">Failures</p>
+                      <p className="font-mono text-slate-700">{h.failures} of {h.requests}</p>
+                    </div>
+                  </div>
+
+                  {/* Recent requests, oldest first */}
+                  <div className="flex gap-0.5">
+                    {h.recent.map(r => (
+                      <span
+                        key={r.ts}
+                        className={`w-2 h-4 rounded-sm ${r.ok ? 'bg-emerald-400' : 'bg-red-400'}`}
+                        title={`${formatDateTime(r.ts)}: ${r.ok ? 'OK' : 'failed'} in ${r.latencyMs} ms`}
+                      />
+                    ))}
+                  </div>
+
+                  {h.failures > 0 && (
+                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                      {(Object.entries(h.failureCounts) as [FailureKind, number][]).map(([kind, count]) => (
+                        <span key={kind} className="px-1.5 py-0.5 rounded border border-slate-200 bg-slate-50 text-slate-600">
+                          {FAILURE_LABELS[kind]}: <span className="font-semibold">{count}</span>
+                        </span>
+                      ))}
+                      {h.lastError && (
+                        <span className={h.failingSince !== null ? 'text-red-600' : 'text-slate-400'}>
+                          Last error {formatDateTime(h.lastError.ts)}: {h.lastError.message}
+                        </span>
+                      )}
+                      {h.failingSince !== null && getRetryAt(source.id) !== null && getRetryAt(source.id)! > now && (
+                        <span className="text-slate-500">Next attempt {formatDateTime(getRetryAt(source.id)!)}</span>
+                      )}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,13 @@
 import React from 'react';
+import { StatusAssessment } from '../types';
 
 interface Props {
   status: string;
+  // When given, a disagreeing device status is marked on the badge
+  assessment?: StatusAssessment;
 }
 
-export const StatusBadge: React.FC<Props> = ({ status }) => {
+export const StatusBadge: React.FC<Props> = ({ status, assessment }) => {
   let colorClass = "bg-gray-100 text-gray-800";
 
   switch (status) {
@@ -22,9 +25,18 @@ export const StatusBadge: React.FC<Props> = ({ status }) => {
       break;
   }
 
-  return (
+  const badge = (
     <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${colorClass}`}>
       {status}
     </span>
   );
+
+  if (!assessment || assessment.agrees) return badge;
+
+  return (
+    <span className="inline-flex items-center gap-1" title={`Device reported "${assessment.reported}"${assessment.reasons.length ? `. ${assessment.reasons.join('. ')}` : ''}`}>
+      {badge}
+      <span className="h-4 w-4 rounded-full bg-amber-100 text-amber-700 border border-amber-200 text-[10px] font-bold flex items-center justify-center">!</span>
+    </span>
+  );
 };
\ No newline at end of file
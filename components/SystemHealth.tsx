@@ -1,15 +1,88 @@
 
 import React from 'react';
-import { GatewayStatus } from '../types';
-import { Wifi, Signal, Database, UploadCloud, Activity, Smartphone, CalendarClock, Server } from 'lucide-react';
+import { Gateway, GatewayStatus } from '../types';
+import { Wifi, Signal, Database, UploadCloud, Activity, Smartphone, CalendarClock, Server, ChevronRight } from 'lucide-react';
 import { formatDateTime } from '../services/dataService';
+import { forecastStorage, getStorageWarningDays, isStorageLow } from '../services/storageForecast';
 import { SignalBars, getSignalQuality } from './SignalBars';
 
 interface Props {
-  status: GatewayStatus;
+  gateways: Gateway[];
+  onSelect: (id: string) => void;
 }
 
-export const SystemHealth: React.FC<Props> = ({ status }) => {
+export const SystemHealth: React.FC<Props> = ({ gateways, onSelect }) => {
+  const warningDays = getStorageWarningDays();
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 mb-8 overflow-hidden">
+      <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+        <div className="flex items-center gap-2">
+            <div className="p-1.5 bg-blue-50 rounded-lg text-blue-600">
+            <Activity size={16} />
+            </div>
+            <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wide">
+            Gateways
+            </h3>
+        </div>
+        <span className="text-[10px] font-semibold text-slate-400">{gateways.length} reporting</span>
+      </div>
+
+      <div className="divide-y divide-slate-100">
+        {gateways.map(g => {
+          const isWifi = g.status.network.toLowerCase().includes('wifi');
+          const signalValue = isWifi ? g.status.wifiSignal : g.status.gsmSignal;
+          const { label: signalLabel, textColor: signalColor } = getSignalQuality(isWifi ? 'WiFi' : 'GSM', signalValue);
+          const storage = forecastStorage(g.history);
+          const storageLow = isStorageLow(storage, warningDays);
+          return (
+            <button
+              key={g.id}
+              onClick={() => onSelect(g.id)}
+              className="w-full text-left px-5 py-3 grid grid-cols-2 sm:grid-cols-5 items-center gap-3 hover:bg-slate-50 transition-colors group"
+            >
+              <div className="flex items-center gap-3 col-span-2 sm:col-span-1 min-w-0">
+                <div className="p-2 bg-slate-50 rounded-lg text-slate-500 border border-slate-100 shrink-0">
+                  {g.kind === 'standalone' ? <Smartphone size={14} /> : <Server size={14} />}
+                </div>
+                <div className="min-w-0">
+                  <p className="font-semibold text-sm text-slate-800 truncate">{g.name}</p>
+                  <p className="text-[10px] text-slate-400 font-medium">
+                    {g.kind === 'standalone' ? 'Standalone unit' : `${g.nodes.length} node${g.nodes.length !== 1 ? 's' : ''}`}
+                  </p>
+                </div>
+              </div>
+              <div className="text-xs">
+                <p className="font-semibold text-slate-700">{g.status.network}</p>
+                <p className="text-[10px] text-slate-400">{g.status.simOperator}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <SignalBars type={isWifi ? 'WiFi' : 'GSM'} value={signalValue} />
+                <span className={`text-[10px] font-bold ${signalColor}`}>{signalLabel}</span>
+              </div>
+              <div className="text-xs">
+                <p className={`font-semibold ${storageLow ? 'text-red-600' : 'text-slate-700'}`}>{g.status.sdFree} MB</p>
+                <p className={`text-[10px] ${storageLow ? 'text-red-600 font-bold' : 'text-slate-400'}`}>
+                  {storage && storage.daysLeft !== null ? `SD full in ~${storage.daysLeft}d` : 'SD free'}
+                </p>
+              </div>
+              <div className="flex items-center justify-between gap-2 col-span-2 sm:col-span-1">
+                <span className="font-mono text-[11px] text-slate-500">{formatDateTime(g.lastSeen)}</span>
+                <ChevronRight size={14} className="text-slate-300 group-hover:text-emerald-600" />
+              </div>
+            </button>
+          );
+        })}
+        {gateways.length === 0 && (
+          <p className="px-5 py-6 text-xs text-slate-400 text-center">No gateway has reported yet</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Latest values of one gateway, shown on its detail page
+export const GatewayStatusCard: React.FC<{ status: GatewayStatus }> = ({ status }) => {
   // Robust check for WiFi vs Cellular (handles "WiFi", "wifi", "WIFI")
   const isWifi = status.network.toLowerCase().includes('wifi');
   
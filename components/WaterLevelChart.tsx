@@ -1,7 +1,8 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import {
     ComposedChart,
     Area,
+    Line,
     XAxis,
     YAxis,
     CartesianGrid,
@@ -10,65 +11,129 @@ import {
     ReferenceLine,
     Brush
 } from 'recharts';
-import { parseDate, formatDateTime } from '../services/dataService';
-import { Filter, ZoomIn, Calendar } from 'lucide-react';
+import { formatDateTime, queryStoredRows, rowsToHistory } from '../services/dataService';
+import { Filter, ZoomIn, ZoomOut, Calendar, Activity } from 'lucide-react';
+import { HistoryPoint } from '../types';
+import { CalibrationProfile, DEFAULT_CALIBRATION, getThresholds } from '../services/calibrationService';
+import { getZonedParts, intlTimeZone } from '../services/timeService';
+import { chooseBucketSize, aggregateHistory, HOUR_MS, DAY_MS } from '../services/aggregation';
 
 interface Props {
-    data: { time: string; level: number }[];
+    data: HistoryPoint[];
+    // When set, the selected range is read from the local store so ranges
+    // older than the in-memory history still render offline
+    deviceId?: string;
+    calibration?: CalibrationProfile;
 }
 
 type TimeRange = '24h' | '7d' | '30d' | 'all' | 'custom';
 
-export const WaterLevelChart: React.FC<Props> = ({ data }) => {
+// Raw samples and min/mean/max buckets share one shape on the chart
+type ChartPoint = HistoryPoint & {
+    band?: [number, number];
+    min?: number;
+    max?: number;
+    count?: number;
+    flaggedCount?: number;
+    axisLabel: string;
+    friendlyDate: string;
+};
+
+export const WaterLevelChart: React.FC<Props> = ({ data, deviceId, calibration = DEFAULT_CALIBRATION }) => {
+    const thresholds = getThresholds(calibration);
     const [range, setRange] = useState<TimeRange>('24h');
     const [customStart, setCustomStart] = useState<string>('');
     const [customEnd, setCustomEnd] = useState<string>('');
+    const [storedData, setStoredData] = useState<HistoryPoint[] | null>(null);
+    const [showRaw, setShowRaw] = useState(false);
+    // Window picked with the Brush; re-bucketed (or raw) at its own resolution
+    const [zoom, setZoom] = useState<[number, number] | null>(null);
+    const brushIndex = useRef<{ startIndex?: number, endIndex?: number }>({});
 
-    const chartData = useMemo(() => {
-        if (!data || data.length === 0) return [];
-
+    const [startTime, endTime] = useMemo(() => {
         const now = Date.now();
-        let startTime = 0;
-        let endTime = now;
+        let start = 0;
+        let end = now;
 
-        if (range === '24h') startTime = now - (24 * 60 * 60 * 1000);
-        else if (range === '7d') startTime = now - (7 * 24 * 60 * 60 * 1000);
-        else if (range === '30d') startTime = now - (30 * 24 * 60 * 60 * 1000);
+        if (range === '24h') start = now - (24 * 60 * 60 * 1000);
+        else if (range === '7d') start = now - (7 * 24 * 60 * 60 * 1000);
+        else if (range === '30d') start = now - (30 * 24 * 60 * 60 * 1000);
         else if (range === 'custom') {
-            startTime = customStart ? new Date(customStart).getTime() : 0;
-            endTime = customEnd ? new Date(customEnd).setHours(23, 59, 59, 999) : now;
+            start = customStart ? new Date(customStart).getTime() : 0;
+            end = customEnd ? new Date(customEnd).setHours(23, 59, 59, 999) : now;
         }
+        return [start, end];
+    // `data` changes on every refresh, which moves "now" forward
+    }, [range, customStart, customEnd, data]);
+
+    useEffect(() => { setZoom(null); }, [range, customStart, customEnd]);
+
+    // Re-query the store on every refresh so new readings appear
+    useEffect(() => {
+        if (!deviceId) return;
+        let cancelled = false;
+        queryStoredRows({ deviceId, from: startTime, to: endTime })
+            .then(rows => { if (!cancelled) setStoredData(rows.length > 0 ? rowsToHistory(rows) : null); })
+            .catch(() => { if (!cancelled) setStoredData(null); });
+        return () => { cancelled = true; };
+    }, [deviceId, startTime, endTime]);
+
+    const { chartData, bucketMs } = useMemo((): { chartData: ChartPoint[], bucketMs: number } => {
+        const source = storedData || data;
+        if (!source || source.length === 0) return { chartData: [], bucketMs: 0 };
+        const [from, to] = zoom || [startTime, endTime];
 
-        // 1. Parse timestamps and Filter by Range
-        const processed = data
-            .map(d => ({ ...d, ts: parseDate(d.time) }))
-            .filter(d => d.ts > 0 && d.ts >= startTime && d.ts <= endTime)
+        // 1. Filter by Range (or the zoomed window)
+        const processed = source
+            .filter(d => d.ts > 0 && d.ts >= from && d.ts <= to)
             .sort((a, b) => a.ts - b.ts);
+        if (processed.length === 0) return { chartData: [], bucketMs: 0 };
+
+        // 2. Downsample long windows to hourly/daily min-mean-max buckets
+        const span = processed[processed.length - 1].ts - processed[0].ts;
+        const bucket = chooseBucketSize(processed.length, span);
+        const points: HistoryPoint[] = bucket ? aggregateHistory(processed, bucket) : processed;
+
+        // 3. Format for Chart Display (labels follow the display time zone)
+        const timeZone = intlTimeZone();
+        return {
+            bucketMs: bucket,
+            chartData: points.map(d => {
+                const dateObj = new Date(d.ts);
+
+                // Dynamic Axis Labeling based on the resolution shown
+                let label = "";
+                let friendlyDate = formatDateTime(d.ts); // Full format for tooltip
+                if (bucket === DAY_MS) {
+                    label = dateObj.toLocaleDateString([], { month: 'short', day: 'numeric', timeZone });
+                    friendlyDate = friendlyDate.slice(0, 10);
+                } else if (bucket === HOUR_MS || span > 36 * HOUR_MS) {
+                    const p = getZonedParts(d.ts);
+                    label = `${p.day}/${p.month} ${p.hour}h`;
+                    if (bucket) friendlyDate = `${friendlyDate.slice(0, 13)}:00`;
+                } else {
+                    label = dateObj.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false, timeZone });
+                }
+
+                return { ...d, friendlyDate, axisLabel: label };
+            })
+        };
+    }, [data, storedData, startTime, endTime, zoom]);
 
-        // 2. Format for Chart Display
-        return processed.map(d => {
-            const dateObj = new Date(d.ts);
-
-            // Dynamic Axis Labeling based on range
-            let label = "";
-            if (range === '24h') {
-                label = dateObj.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
-            } else if (range === '7d') {
-                label = `${dateObj.getDate()}/${dateObj.getMonth() + 1} ${dateObj.getHours()}h`;
-            } else {
-                label = dateObj.toLocaleDateString([], { month: 'short', day: 'numeric' });
-            }
-
-            return {
-                ...d,
-                friendlyDate: formatDateTime(d.time), // Full format for tooltip
-                axisLabel: label,
-                ts: d.ts
-            };
-        });
-    }, [data, range, customStart, customEnd]);
-
-    const chartDescription = `Water level chart showing data for the last ${range === 'all' ? 'recorded history' : range}. Contains ${chartData.length} data points.`;
+    const flaggedCount = chartData.reduce((sum, d) => sum + (bucketMs ? d.flaggedCount || 0 : d.flagged ? 1 : 0), 0);
+    const resolution = bucketMs === DAY_MS ? 'daily' : bucketMs === HOUR_MS ? 'hourly' : 'raw';
+
+    // Brush drags zoom into the selected window once released
+    const handleBrushEnd = () => {
+        const { startIndex, endIndex } = brushIndex.current;
+        if (startIndex === undefined || endIndex === undefined) return;
+        if (startIndex === 0 && endIndex === chartData.length - 1) return;
+        const end = chartData[endIndex];
+        setZoom([chartData[startIndex].ts, end.ts + (bucketMs ? bucketMs - 1 : 0)]);
+        brushIndex.current = {};
+    };
+
+    const chartDescription = `Water level chart showing data for the last ${range === 'all' ? 'recorded history' : range}${zoom ? ' (zoomed)' : ''}. Contains ${chartData.length} ${resolution === 'raw' ? 'readings' : `${resolution} averages`}, ${flaggedCount} flagged as spikes.`;
 
     return (
         <div className="w-full mt-4">
@@ -94,6 +159,17 @@ export const WaterLevelChart: React.FC<Props> = ({ data }) => {
                             </button>
                         ))}
                     </div>
+                    <button
+                        onClick={() => setShowRaw(!showRaw)}
+                        disabled={bucketMs > 0}
+                        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold border transition-all disabled:opacity-40 ${showRaw
+                                ? 'bg-slate-800 text-white border-slate-800'
+                                : 'bg-white text-slate-500 border-slate-200 hover:text-slate-700'
+                            }`}
+                        title={bucketMs > 0 ? 'Zoom in to see individual readings' : 'Overlay raw readings and flagged spikes'}
+                    >
+                        <Activity size={12} /> Raw{flaggedCount > 0 ? ` (${flaggedCount} flagged)` : ''}
+                    </button>
                 </div>
             </div>
 
@@ -150,7 +226,7 @@ export const WaterLevelChart: React.FC<Props> = ({ data }) => {
                                 axisLine={false}
                                 unit=" cm"
                                 width={40}
-                                domain={[0, 30]}
+                                domain={[0, thresholds.top]}
                             />
                             <Tooltip
                                 cursor={{ stroke: '#64748b', strokeWidth: 1, strokeDasharray: '4 4' }}
@@ -163,30 +239,76 @@ export const WaterLevelChart: React.FC<Props> = ({ data }) => {
                                 }}
                                 itemStyle={{ color: '#0f172a', fontWeight: 700, fontSize: '14px' }}
                                 labelStyle={{ color: '#64748b', marginBottom: '8px', fontSize: '12px', fontWeight: 600, borderBottom: '1px solid #f1f5f9', paddingBottom: '4px' }}
-                                formatter={(value: number) => [`${value} cm`, 'Water Level']}
+                                formatter={(value: number | [number, number], name: string): [string, string] => {
+                                    if (Array.isArray(value)) return [`${value[0]} – ${value[1]} cm`, 'Range'];
+                                    return [`${value} cm`, name === 'rawLevel' ? 'Raw Reading' : bucketMs ? 'Mean Level' : 'Water Level'];
+                                }}
                                 labelFormatter={(label, payload) => {
                                     if (payload && payload.length > 0) {
-                                        return payload[0].payload.friendlyDate;
+                                        const point = payload[0].payload as ChartPoint;
+                                        if (bucketMs) return `${point.friendlyDate} · ${point.count} readings${point.flaggedCount ? `, ${point.flaggedCount} spikes` : ''}`;
+                                        return point.flagged ? `${point.friendlyDate} · Spike: ${point.flagReason}` : point.friendlyDate;
                                     }
                                     return label;
                                 }}
                             />
 
-                            {/* 0-30cm Scale: 15cm is Soil Surface, 25cm is High */}
-                            <ReferenceLine y={25} stroke="#ef4444" strokeDasharray="3 3" label={{ value: "High Water", position: 'insideRight', fill: '#ef4444', fontSize: 10, fontWeight: 600 }} />
-                            <ReferenceLine y={15} stroke="#16a34a" strokeWidth={1} label={{ value: "Soil Surface", position: 'insideRight', fill: '#16a34a', fontSize: 10, fontWeight: 600 }} />
-
-                            <Area
-                                type="monotone"
-                                dataKey="level"
-                                stroke="#3b82f6"
-                                strokeWidth={2}
-                                fillOpacity={1}
-                                fill="url(#colorLevel)"
-                                activeDot={{ r: 6, strokeWidth: 2, stroke: '#fff', fill: '#2563eb' }}
-                                animationDuration={1000}
-                            />
+                            {/* Scale from the pipe's calibration: soil mark, and high water 10cm above it */}
+                            <ReferenceLine y={thresholds.flood} stroke="#ef4444" strokeDasharray="3 3" label={{ value: "High Water", position: 'insideRight', fill: '#ef4444', fontSize: 10, fontWeight: 600 }} />
+                            <ReferenceLine y={thresholds.soil} stroke="#16a34a" strokeWidth={1} label={{ value: "Soil Surface", position: 'insideRight', fill: '#16a34a', fontSize: 10, fontWeight: 600 }} />
+
+                            {bucketMs > 0 ? (
+                                <>
+                                    {/* Min-max band with the bucket mean on top */}
+                                    <Area
+                                        type="monotone"
+                                        dataKey="band"
+                                        stroke="none"
+                                        fill="#3b82f6"
+                                        fillOpacity={0.15}
+                                        isAnimationActive={false}
+                                        activeDot={false}
+                                    />
+                                    <Line
+                                        type="monotone"
+                                        dataKey="level"
+                                        stroke="#2563eb"
+                                        strokeWidth={2}
+                                        dot={false}
+                                        isAnimationActive={false}
+                                        activeDot={{ r: 5, strokeWidth: 2, stroke: '#fff', fill: '#2563eb' }}
+                                    />
+                                </>
+                            ) : (
+                                <Area
+                                    type="monotone"
+                                    dataKey="level"
+                                    stroke="#3b82f6"
+                                    strokeWidth={2}
+                                    fillOpacity={1}
+                                    fill="url(#colorLevel)"
+                                    activeDot={{ r: 6, strokeWidth: 2, stroke: '#fff', fill: '#2563eb' }}
+                                    animationDuration={1000}
+                                />
+                            )}
+                            {showRaw && bucketMs === 0 && (
+                                <Line
+                                    type="linear"
+                                    dataKey="rawLevel"
+                                    stroke="#94a3b8"
+                                    strokeWidth={1}
+                                    strokeDasharray="2 2"
+                                    isAnimationActive={false}
+                                    dot={(props: any) => props.payload.flagged
+                                        ? <circle key={props.key} cx={props.cx} cy={props.cy} r={4} fill="#ef4444" stroke="#fff" strokeWidth={1} />
+                                        : <g key={props.key} />}
+                                    activeDot={{ r: 4, fill: '#64748b' }}
+                                />
+                            )}
                             <Brush
+                                key={zoom ? zoom.join('-') : 'full'}
+                                onChange={(index) => { brushIndex.current = index; }}
+                                onDragEnd={handleBrushEnd}
                                 height={40}
                                 stroke="#94a3b8"
                                 fill="#f8fafc"
@@ -196,11 +318,21 @@ export const WaterLevelChart: React.FC<Props> = ({ data }) => {
                             />
                         </ComposedChart>
                     </ResponsiveContainer>
-                    <div className="mt-2 flex justify-center">
+                    <div className="mt-2 flex justify-center items-center gap-2">
                         <span className="text-[10px] font-medium text-slate-400 flex items-center gap-1.5 bg-slate-50 px-3 py-1.5 rounded-full border border-slate-100">
                             <ZoomIn size={12} className="text-blue-400" />
-                            Use the slider below the chart to zoom and pan history
+                            {resolution === 'raw'
+                                ? 'Drag the slider below the chart to zoom into history'
+                                : `Showing ${resolution} min / mean / max · drag the slider to zoom in`}
                         </span>
+                        {zoom && (
+                            <button
+                                onClick={() => setZoom(null)}
+                                className="text-[10px] font-bold text-blue-600 flex items-center gap-1 bg-blue-50 px-3 py-1.5 rounded-full border border-blue-100 hover:bg-blue-100"
+                            >
+                                <ZoomOut size={12} /> Reset Zoom
+                            </button>
+                        )}
                     </div>
                 </div>
             ) : (
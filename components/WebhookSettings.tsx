@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { Webhook, Save, Plus, Trash2, Send, ChevronDown, ChevronUp, CheckCircle2, XCircle, RotateCcw } from 'lucide-react';
+import { WebhookConfig, WebhookDelivery, WebhookFormat, TEMPLATE_VARS, DEFAULT_TEMPLATES, getWebhooks, saveWebhooks, createWebhook, checkTemplate, sendTestWebhook, getDeliveryLog, clearDeliveryLog } from '../services/webhookService';
+import { formatDateTime } from '../services/dataService';
+
+const INPUT = "w-full px-2 py-1.5 text-xs border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-emerald-500/20 bg-white text-slate-700";
+const LABEL = "block text-[10px] font-bold text-slate-400 uppercase mb-1";
+
+const isValidUrl = (url: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol);
+  } catch (e) {
+    return false;
+  }
+};
+
+export const WebhookSettings: React.FC = () => {
+  const [hooks, setHooks] = useState<WebhookConfig[]>(getWebhooks());
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [testing, setTesting] = useState<string | null>(null);
+  const [testResults, setTestResults] = useState<Record<string, WebhookDelivery>>({});
+  const [log, setLog] = useState<WebhookDelivery[]>(getDeliveryLog());
+
+  const update = (id: string, patch: Partial<WebhookConfig>) => {
+    setHooks(prev => prev.map(h => h.id === id ? { ...h, ...patch } : h));
+    setDirty(true);
+  };
+
+  // Switching format swaps in the other default unless the template was edited
+  const changeFormat = (hook: WebhookConfig, format: WebhookFormat) => {
+    const untouched = hook.template === DEFAULT_TEMPLATES[hook.format] || !hook.template.trim();
+    update(hook.id, { format, ...(untouched ? { template: DEFAULT_TEMPLATES[format] } : {}) });
+  };
+
+  const handleAdd = () => {
+    const hook = createWebhook();
+    setHooks(prev => [...prev, hook]);
+    setOpenId(hook.id);
+    setDirty(true);
+  };
+
+  const handleDelete = (id: string) => {
+    setHooks(prev => prev.filter(h => h.id !== id));
+    setDirty(true);
+  };
+
+  const validate = (): boolean => {
+    const next: Record<string, string> = {};
+    hooks.forEach(h => {
+      if (!isValidUrl(h.url)) next[h.id] = 'Enter a full http:// or https:// URL';
+      else {
+        const problem = checkTemplate(h);
+        if (problem) next[h.id] = problem;
+      }
+    });
+    setErrors(next);
+    if (Object.keys(next).length > 0) setOpenId(Object.keys(next)[0]);
+    return Object.keys(next).length === 0;
+  };
+
+  const handleSave = () => {
+    if (!validate()) return;
+    saveWebhooks(hooks);
+    setDirty(false);
+  };
+
+  const handleTest = async (hook: WebhookConfig) => {
+    if (!isValidUrl(hook.url)) {
+      setErrors(prev => ({ ...prev, [hook.id]: 'Enter a full http:// or https:// URL' }));
+      return;
+    }
+    setTesting(hook.id);
+    const result = await sendTestWebhook(hook);
+    setTestResults(prev => ({ ...prev, [hook.id]: result }));
+    setLog(getDeliveryLog());
+    setTesting(null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50/50 flex justify-between items-center gap-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-indigo-100 p-2 rounded-lg text-indigo-600">
+            <Webhook size={20} />
+          </div>
+          <div>
+            <h3 className="font-bold text-slate-800">Webhooks</h3>
+            <p className="text-xs text-slate-500">Send alerts to an SMS gateway, a chat bot relay or any service that accepts a POST</p>
+          </div>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!dirty}
+          className="flex items-center gap-2 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-bold rounded-md transition-colors shadow-sm disabled:opacity-40"
+        >
+          <Save size={14} /> Save
+        </button>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {hooks.map(hook => {
+          const open = openId === hook.id;
+          const result = testResults[hook.id];
+          return (
+            <div key={hook.id} className={`border rounded-lg overflow-hidden ${errors[hook.id] ? 'border-red-200' : 'border-slate-200'}`}>
+              <div className="flex items-center gap-3 px-4 py-3 bg-slate-50/50">
+                <input
+                  type="checkbox"
+                  checked={hook.enabled}
+                  onChange={e => update(hook.id, { enabled: e.target.checked })}
+                  className="accent-emerald-600"
+                  title="Enabled"
+                />
+                <button onClick={() => setOpenId(open ? null : hook.id)} className="flex-1 text-left min-w-0">
+                  <span className={`text-sm font-semibold ${hook.enabled ? 'text-slate-800' : 'text-slate-400'}`}>{hook.name}</span>
+                  <span className="block text-[11px] font-mono text-slate-500 truncate">{hook.url || 'No URL yet'}</span>
+                </button>
+                <span className="px-2 py-0.5 text-[10px] font-bold uppercase rounded border bg-slate-50 text-slate-600 border-slate-200">{hook.format}</span>
+                <button
+                  onClick={() => handleTest(hook)}
+                  disabled={testing === hook.id}
+                  className="flex items-center gap-1.5 px-2.5 py-1 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 text-xs font-medium rounded-md transition-colors disabled:opacity-40"
+                >
+                  <Send size={12} /> {testing === hook.id ? 'Sending...' : 'Send Test'}
+                </button>
+                <button onClick={() => setOpenId(open ? null : hook.id)} className="p-1 text-slate-400 hover:text-slate-600">
+                  {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                </button>
+                <button onClick={() => handleDelete(hook.id)} className="p-1 text-slate-400 hover:text-red-600" title="Delete webhook">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+
+              {(errors[hook.id] || result) && (
+                <div className="px-4 py-2 border-t border-slate-100 text-xs space-y-1">
+                  {errors[hook.id] && <p className="text-red-600">{errors[hook.id]}</p>}
+                  {result && (
+                    <p className={`flex items-center gap-1.5 ${result.ok ? 'text-emerald-700' : 'text-red-600'}`}>
+                      {result.ok ? <CheckCircle2 size={12} /> : <XCircle size={12} />}
+                      Test {result.ok ? (result.status === null ? 'sent (no-CORS, reply not visible)' : `delivered (HTTP ${result.status})`) : `failed: ${result.error}`}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {open && (
+                <div className="p-4 space-y-4 border-t border-slate-200">
+                  <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+                    <div>
+                      <label className={LABEL}>Name</label>
+                      <input value={hook.name} onChange={e => update(hook.id, { name: e.target.value })} className={INPUT} />
+                    </div>
+                    <div className="sm:col-span-2">
+                      <label className={LABEL}>URL</label>
+                      <input value={hook.url} onChange={e => update(hook.id, { url: e.target.value.trim() })} placeholder="https://example.com/hook" className={`${INPUT} font-mono`} />
+                    </div>
+                    <div>
+                      <label className={LABEL}>Body</label>
+                      <select value={hook.format} onChange={e => changeFormat(hook, e.target.value as WebhookFormat)} className={INPUT}>
+                        <option value="json">JSON</option>
+                        <option value="form">Form fields</option>
+                      </select>
+                    </div>
+                  </div>
+
+                  <div>
+                    <div className="flex justify-between items-end mb-1">
+                      <label className={LABEL}>Template</label>
+                      <button
+                        onClick={() => update(hook.id, { template: DEFAULT_TEMPLATES[hook.format] })}
+                        className="flex items-center gap-1 text-[10px] font-semibold text-slate-400 hover:text-slate-600 mb-1"
+                      >
+                        <RotateCcw size={10} /> Default
+                      </button>
+                    </div>
+                    <textarea
+                      value={hook.template}
+                      onChange={e => update(hook.id, { template: e.target.value })}
+                      rows={hook.format === 'json' ? 11 : 3}
+                      spellCheck={false}
+                      className={`${INPUT} font-mono`}
+                    />
+                    <p className="text-[10px] text-slate-400 mt-1">
+                      {hook.format === 'json' ? 'Values are escaped for use inside JSON strings. ' : 'One name=value per line. '}
+                      Placeholders: {TEMPLATE_VARS.map(v => `{{${v}}}`).join(' ')}
+                    </p>
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <div className={hook.noCors ? 'opacity-40' : ''}>
+                      <label className={LABEL}>Extra Headers</label>
+                      <textarea
+                        value={hook.headers}
+                        onChange={e => update(hook.id, { headers: e.target.value })}
+                        rows={2}
+                        placeholder="Authorization: Bearer ..."
+                        spellCheck={false}
+                        className={`${INPUT} font-mono`}
+                      />
+                      {hook.noCors && <p className="text-[10px] text-slate-500 mt-1">Ignored while the receiver does not allow cross-origin requests.</p>}
+                    </div>
+                    <label className="flex items-start gap-2 text-xs text-slate-700 cursor-pointer pt-5">
+                      <input
+                        type="checkbox"
+                        checked={hook.sendCleared}
+                        onChange={e => update(hook.id, { sendCleared: e.target.checked })}
+                        className="mt-0.5 accent-emerald-600"
+                      />
+                      <span>
+                        Also send when an alert ends
+                        <span className="block text-[10px] text-slate-500">The receiver must allow cross-origin requests for JSON bodies or extra headers; plain form bodies do not need it.</span>
+                      </span>
+                    </label>
+                    <label className="flex items-start gap-2 text-xs text-slate-700 cursor-pointer sm:col-start-2">
+                      <input
+                        type="checkbox"
+                        checked={!!hook.noCors}
+                        onChange={e => update(hook.id, { noCors: e.target.checked })}
+                        className="mt-0.5 accent-emerald-600"
+                      />
+                      <span>
+                        Receiver does not allow cross-origin requests
+                        <span className="block text-[10px] text-slate-500">Sends without reading the reply, so every send counts as delivered and is never retried. JSON goes as plain text and extra headers are dropped.</span>
+                      </span>
+                    </label>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <button
+          onClick={handleAdd}
+          className="flex items-center gap-1.5 px-3 py-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 text-xs font-medium rounded-lg transition-colors"
+        >
+          <Plus size={12} /> Add Webhook
+        </button>
+
+        <div className="pt-2">
+          <div className="flex justify-between items-center mb-2">
+            <h4 className="text-xs font-bold text-slate-500 uppercase">Delivery Log</h4>
+            <div className="flex gap-3">
+              <button onClick={() => setLog(getDeliveryLog())} className="text-[10px] font-semibold text-slate-400 hover:text-slate-600">Refresh</button>
+              <button onClick={() => { clearDeliveryLog(); setLog([]); }} className="text-[10px] font-semibold text-slate-400 hover:text-red-600">Clear</button>
+            </div>
+          </div>
+          {log.length === 0 ? (
+            <p className="text-xs text-slate-400 italic">Nothing sent yet.</p>
+          ) : (
+            <div className="border border-slate-100 rounded-lg divide-y divide-slate-100 max-h-64 overflow-auto">
+              {log.slice(0, 30).map((entry, i) => (
+                <div key={i} className="flex flex-wrap items-center gap-x-3 gap-y-0.5 px-3 py-2 text-xs">
+                  {entry.ok ? <CheckCircle2 size={12} className="text-emerald-600" /> : <XCircle size={12} className="text-red-500" />}
+                  <span className="font-mono text-slate-500">{formatDateTime(entry.ts)}</span>
+                  <span className="font-semibold text-slate-700">{entry.webhookName}</span>
+                  <span className="text-slate-500">{entry.event} · {entry.plotName}{entry.attempt > 1 ? ` · attempt ${entry.attempt}` : ''}</span>
+                  <span className={entry.ok ? 'text-emerald-700' : 'text-red-600'}>
+                    {entry.ok ? (entry.status === null ? 'Sent' : `HTTP ${entry.status}`) : entry.error}
+                    {entry.retryAt ? `, retrying ${formatDateTime(entry.retryAt)}` : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,252 @@
+// --- SERVICE WORKER ---
+// Keeps the dashboard usable with patchy field coverage. The app shell and
+// the CDN scripts it depends on are cached so the page opens offline; sheet
+// and weather requests fall back to the last full download; and (where the
+// browser allows it) periodic background sync refreshes those downloads so
+// the data is already current when the app is opened in the morning.
+
+const SHELL_CACHE = 'smartpaddy-shell-v1';
+const DATA_CACHE = 'smartpaddy-data-v1';
+
+// Everything index.html pulls in before the app can render. Built files,
+// the manifest among them, get hashed names and are cached on first use.
+const PRECACHE_URLS = [
+  '/',
+  '/index.html',
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&display=swap',
+  'https://cdn-icons-png.flaticon.com/512/3105/3105807.png',
+  'https://aistudiocdn.com/lucide-react@^0.554.0',
+  'https://aistudiocdn.com/react@^19.2.0',
+  'https://aistudiocdn.com/recharts@^3.4.1'
+];
+
+// Hosts whose scripts, styles and fonts are cached as they are first used
+const CDN_HOSTS = ['aistudiocdn.com', 'cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'cdn-icons-png.flaticon.com'];
+
+// Weather and Apps Script hosts; other data sources are sent by the page
+const DATA_HOSTS = ['api.open-meteo.com', 'script.google.com', 'script.googleusercontent.com'];
+
+// Source URLs posted by the page, kept in the data cache so they survive restarts
+const SOURCES_KEY = '/__sw/sources';
+
+const SYNC_TAG = 'refresh-readings';
+
+// Marks a response answered from the data cache, with the time it was
+// downloaded, so the page does not count it as a live fetch
+const CACHED_AT_HEADER = 'x-sw-cached-at';
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    // One unreachable CDN must not stop the rest from being cached
+    await Promise.all(PRECACHE_URLS.map(url => cache.add(url).catch(() => undefined)));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const keep = [SHELL_CACHE, DATA_CACHE];
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(key => !keep.includes(key)).map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+// --- DATA REQUESTS ---
+
+const getSourceUrls = async () => {
+  const cache = await caches.open(DATA_CACHE);
+  const saved = await cache.match(SOURCES_KEY);
+  return saved ? saved.json() : [];
+};
+
+const isDataRequest = async url => {
+  if (DATA_HOSTS.includes(url.hostname)) return true;
+  const sources = await getSourceUrls();
+  return sources.some(source => {
+    try {
+      const parsed = new URL(source);
+      return parsed.origin === url.origin && parsed.pathname === url.pathname;
+    } catch (e) {
+      return false;
+    }
+  });
+};
+
+// The page adds a cache-busting `nocache` parameter to every request. The
+// cache holds one full download per URL, so `since` is dropped as well.
+const cacheKey = url => {
+  const key = new URL(url.href);
+  key.searchParams.delete('nocache');
+  key.searchParams.delete('since');
+  return key.href;
+};
+
+const isCacheable = response => response && response.ok && (response.type === 'basic' || response.type === 'cors');
+
+const stamped = async response => {
+  const headers = new Headers(response.headers);
+  headers.set(CACHED_AT_HEADER, String(Date.now()));
+  return new Response(await response.blob(), { status: response.status, statusText: response.statusText, headers });
+};
+
+const requestSync = () => self.registration.sync && self.registration.sync.register(SYNC_TAG).catch(() => undefined);
+
+const notifyClients = async message => {
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach(client => client.postMessage(message));
+};
+
+// Full downloads: serves the cached copy at once and refreshes it behind the
+// scenes, telling the page when the new copy is in
+const staleWhileRevalidate = async (request, url) => {
+  const cache = await caches.open(DATA_CACHE);
+  const key = cacheKey(url);
+  const cached = await cache.match(key);
+  const network = fetch(request).then(async response => {
+    if (isCacheable(response)) {
+      await cache.put(key, await stamped(response.clone()));
+      if (cached) notifyClients({ type: 'data-refreshed', url: key });
+    }
+    return response;
+  });
+
+  if (cached) {
+    network.catch(requestSync);
+    return cached;
+  }
+  return network;
+};
+
+// Incremental requests (`since`), which the page makes on every refresh:
+// the network answers when it can, and the last full download when it
+// cannot. The page drops the rows it already holds, so any rows a
+// background sync picked up still reach its store.
+const networkOrCached = async (request, url) => {
+  try {
+    return await fetch(request);
+  } catch (e) {
+    requestSync();
+    const cached = await (await caches.open(DATA_CACHE)).match(cacheKey(url));
+    if (cached) return cached;
+    throw e;
+  }
+};
+
+const handleData = (request, url) => url.searchParams.has('since') ? networkOrCached(request, url) : staleWhileRevalidate(request, url);
+
+// --- SHELL REQUESTS ---
+
+// The app's own files come from the network when it answers, so new builds
+// show up at once, and from cache when it does not
+const networkFirst = async request => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (isCacheable(response)) await cache.put(request, response.clone());
+    return response;
+  } catch (e) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    if (request.mode === 'navigate') {
+      const shell = await cache.match('/index.html') || await cache.match('/');
+      if (shell) return shell;
+    }
+    throw e;
+  }
+};
+
+// CDN files rarely change, so a cached copy is good enough
+const cacheFirst = async request => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (isCacheable(response) || response.type === 'opaque') await cache.put(request, response.clone());
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    // Vite's dev server pushes updates over its own connection
+    if (url.pathname.startsWith('/@') || url.pathname === SOURCES_KEY) return;
+    event.respondWith(networkFirst(request));
+    return;
+  }
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+  event.respondWith((async () => (await isDataRequest(url)) ? handleData(request, url) : fetch(request))());
+});
+
+// --- BACKGROUND SYNC ---
+
+// Downloads every data source in full, and re-downloads the cached
+// forecasts, so the next visit starts fresh even without coverage
+const refreshDataCache = async () => {
+  const cache = await caches.open(DATA_CACHE);
+  const cachedKeys = (await cache.keys()).map(request => request.url).filter(key => new URL(key).pathname !== SOURCES_KEY);
+  const sourceKeys = (await getSourceUrls()).flatMap(source => {
+    try {
+      return [cacheKey(new URL(source))];
+    } catch (e) {
+      return [];
+    }
+  });
+  let refreshed = 0;
+  await Promise.all([...new Set([...sourceKeys, ...cachedKeys])]
+    .map(async key => {
+      try {
+        const url = new URL(key);
+        url.searchParams.set('nocache', String(Date.now()));
+        const response = await fetch(url.href, { credentials: 'omit', redirect: 'follow' });
+        if (isCacheable(response)) {
+          await cache.put(key, await stamped(response));
+          refreshed++;
+        }
+      } catch (e) {
+        // Still offline; the next sync tries again
+      }
+    }));
+  if (refreshed > 0) await notifyClients({ type: 'data-refreshed' });
+};
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === SYNC_TAG) event.waitUntil(refreshDataCache());
+});
+
+self.addEventListener('sync', event => {
+  if (event.tag === SYNC_TAG) event.waitUntil(refreshDataCache());
+});
+
+// --- NOTIFICATIONS ---
+
+// Opens the plot named in the notification, reusing an open window if any
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const data = event.notification.data || {};
+  event.waitUntil((async () => {
+    const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = clients.find(c => new URL(c.url).origin === self.location.origin);
+    if (client) {
+      await client.focus();
+      if (data.plotId) client.postMessage({ type: 'open-plot', plotId: data.plotId });
+      return;
+    }
+    await self.clients.openWindow(data.url || '/');
+  })());
+});
+
+self.addEventListener('message', event => {
+  const message = event.data || {};
+  if (message.type === 'sources' && Array.isArray(message.urls)) {
+    event.waitUntil(caches.open(DATA_CACHE).then(cache => cache.put(SOURCES_KEY, new Response(JSON.stringify(message.urls), { headers: { 'content-type': 'application/json' } }))));
+  }
+});
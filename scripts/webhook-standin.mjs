@@ -0,0 +1,69 @@
+// --- WEBHOOK STAND-IN ---
+// A local receiver for trying out webhooks from Settings without an SMS
+// gateway or bot relay. Prints every request it gets and answers with CORS
+// headers so JSON bodies pass the browser's preflight.
+//
+//   npm run webhook-standin                  listen on port 8787
+//   npm run webhook-standin -- --port 9000
+//   npm run webhook-standin -- --fail 2      answer 503 to the first 2 POSTs,
+//                                            to watch the app retry
+//   npm run webhook-standin -- --no-cors     leave out the CORS headers, like
+//                                            a receiver that needs no-CORS mode
+//
+// Then add a webhook with the URL http://localhost:8787/hook
+
+import http from 'node:http';
+
+const arg = (name, fallback) => {
+  const at = process.argv.indexOf(`--${name}`);
+  return at > 0 && process.argv[at + 1] ? Number(process.argv[at + 1]) : fallback;
+};
+
+const port = arg('port', 8787);
+let failuresLeft = arg('fail', 0);
+let received = 0;
+
+const CORS = process.argv.includes('--no-cors') ? {} : {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': '*'
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS);
+    res.end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    received++;
+    const failing = failuresLeft > 0;
+    if (failing) failuresLeft--;
+
+    console.log(`\n#${received} ${new Date().toISOString()} ${req.method} ${req.url} -> ${failing ? 503 : 200}`);
+    console.log(`Content-Type: ${req.headers['content-type'] || '(none)'}`);
+    const type = req.headers['content-type'] || '';
+    if (type.includes('application/json')) {
+      try {
+        console.log(JSON.stringify(JSON.parse(body), null, 2));
+      } catch (e) {
+        console.log(`Invalid JSON: ${body}`);
+      }
+    } else if (type.includes('application/x-www-form-urlencoded')) {
+      console.log(Object.fromEntries(new URLSearchParams(body)));
+    } else {
+      console.log(body);
+    }
+
+    res.writeHead(failing ? 503 : 200, { ...CORS, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: !failing, received }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook stand-in listening on http://localhost:${port}`);
+  if (failuresLeft > 0) console.log(`Answering 503 to the first ${failuresLeft} request(s)`);
+});
@@ -0,0 +1,84 @@
+import { HistoryPoint } from '../types';
+import { getDisplayTimeZone, getZonedParts, TimeZoneSetting } from './timeService';
+
+// --- AGGREGATION & DOWNSAMPLING ---
+// Long chart ranges are drawn from hourly or daily buckets instead of every
+// raw sample. Buckets follow the display time zone so a "day" matches the
+// farmer's calendar day.
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+
+// Above this many samples a window is bucketed
+export const MAX_RAW_POINTS = 1000;
+
+export interface AggregatePoint {
+  ts: number;      // bucket start
+  time: string;
+  level: number;   // mean of the filtered levels
+  min: number;
+  max: number;
+  band: [number, number]; // [min, max] for the chart's range area
+  count: number;
+  flaggedCount: number;
+}
+
+// 0 means draw raw samples. Hourly buckets are used until they too would
+// exceed the point budget.
+export const chooseBucketSize = (sampleCount: number, spanMs: number): number => {
+  if (sampleCount <= MAX_RAW_POINTS) return 0;
+  if (spanMs / HOUR_MS <= MAX_RAW_POINTS) return HOUR_MS;
+  return DAY_MS;
+};
+
+// UTC offset of the zone, looked up once per hour of input
+const createOffsetLookup = (zone: TimeZoneSetting) => {
+  const cache = new Map<number, number>();
+  return (ts: number) => {
+    const hour = Math.floor(ts / HOUR_MS);
+    let offset = cache.get(hour);
+    if (offset === undefined) {
+      const p = getZonedParts(hour * HOUR_MS, zone);
+      offset = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - hour * HOUR_MS;
+      cache.set(hour, offset);
+    }
+    return offset;
+  };
+};
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+// Buckets a history ordered Oldest -> Newest into min/mean/max points
+export const aggregateHistory = (points: HistoryPoint[], bucketMs: number, zone: TimeZoneSetting = getDisplayTimeZone()): AggregatePoint[] => {
+  const offsetAt = createOffsetLookup(zone);
+  const buckets: AggregatePoint[] = [];
+  let current: AggregatePoint | null = null;
+  let sum = 0;
+
+  const close = () => {
+    if (!current) return;
+    current.level = round1(sum / current.count);
+    current.band = [current.min, current.max];
+    buckets.push(current);
+  };
+
+  points.forEach(p => {
+    const offset = offsetAt(p.ts);
+    const start = Math.floor((p.ts + offset) / bucketMs) * bucketMs - offset;
+
+    if (!current || current.ts !== start) {
+      close();
+      current = { ts: start, time: new Date(start).toISOString(), level: 0, min: p.level, max: p.level, band: [p.level, p.level], count: 0, flaggedCount: 0 };
+      sum = 0;
+    }
+
+    current.count++;
+    sum += p.level;
+    current.min = Math.min(current.min, p.level);
+    current.max = Math.max(current.max, p.level);
+    if (p.flagged) current.flaggedCount++;
+  });
+  close();
+
+  return buckets;
+};
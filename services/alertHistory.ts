@@ -0,0 +1,261 @@
+import { SensorData } from '../types';
+import { PlotAlert, PlotAlertKind, PLOT_ALERT_LABELS, pastPlotAlerts, plotAlertEndedAt } from './plotAlerts';
+import { StorageAlert } from './storageForecast';
+import { RuleContext } from './alertRules';
+import { SourceOutage, getSourceHealth } from './sourceHealth';
+import { putAlertRecords, getAlertRecords, getAlertRecord, getOpenAlertRecords } from './readingStore';
+import { formatDateTime } from './dataService';
+
+// --- ALERT HISTORY ---
+// Every alert the app raises, from when the readings show it began to when
+// they show it was over, with its worst value along the way. Spells that
+// came and went between refreshes are read back from the history. Extension
+// officers acknowledge alerts and note how they were resolved for the
+// season review.
+
+export type AlertHistoryKind = PlotAlertKind | 'storage' | 'source';
+
+export const ALERT_HISTORY_LABELS: Record<AlertHistoryKind, string> = {
+  ...PLOT_ALERT_LABELS,
+  storage: 'SD Card Filling',
+  source: 'Source Down'
+};
+
+export interface AlertRecord {
+  id: string;        // alert key + start time
+  key: string;
+  plotId: string;    // gateway or source id for those kinds
+  plotName: string;
+  kind: AlertHistoryKind;
+  label: string;
+  message: string;
+  startedAt: number;
+  endedAt: number | null; // null while the alert is still active
+  open?: 1;               // set while active, for the store's index of open records
+  peak: number;
+  unit: string;
+  acknowledgedBy?: string;
+  acknowledgedAt?: number;
+  resolution?: string;
+}
+
+// An active alert of any kind, as the history sees it
+interface ActiveEntry {
+  key: string;
+  plotId: string;
+  plotName: string;
+  kind: AlertHistoryKind;
+  label: string;
+  message: string;
+  startedAt: number;
+  value: number;
+  unit: string;
+  lowerIsWorse?: boolean;
+}
+
+const ACK_NAME_KEY = 'alert_ack_name';
+// Newest reading already replayed, per plot
+const SCANNED_KEY = 'alert_history_scanned';
+
+// Writes are queued so two quick refreshes cannot both open the same alert
+let queue: Promise<void> = Promise.resolve();
+
+const enqueue = (task: () => Promise<void>): Promise<void> => {
+  queue = queue.then(task).catch(e => console.warn("Failed to update alert history", e));
+  return queue;
+};
+
+export const getAlertHistory = (from?: number): Promise<AlertRecord[]> => getAlertRecords<AlertRecord>(from);
+
+const getScanned = (): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(SCANNED_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+// Opens records for new entries, raises the peak of ongoing ones and closes
+// open records of `kinds` that are no longer active, at the time `endOf` gives
+const syncRecords = async (
+  entries: ActiveEntry[],
+  kinds: AlertHistoryKind[],
+  endOf: (record: AlertRecord) => number,
+  past: AlertRecord[] = []
+) => {
+  const open = (await getOpenAlertRecords<AlertRecord>()).filter(r => kinds.includes(r.kind));
+  const changed: AlertRecord[] = [];
+
+  entries.forEach(entry => {
+    const record = open.find(r => r.key === entry.key);
+    if (!record) {
+      changed.push({
+        id: `${entry.key}|${entry.startedAt}`,
+        key: entry.key,
+        plotId: entry.plotId,
+        plotName: entry.plotName,
+        kind: entry.kind,
+        label: entry.label,
+        message: entry.message,
+        startedAt: entry.startedAt,
+        endedAt: null,
+        open: 1,
+        peak: entry.value,
+        unit: entry.unit
+      });
+      return;
+    }
+    const worse = entry.lowerIsWorse ? entry.value < record.peak : entry.value > record.peak;
+    if (worse || record.plotName !== entry.plotName) {
+      changed.push({ ...record, plotName: entry.plotName, peak: worse ? entry.value : record.peak, message: worse ? entry.message : record.message });
+    }
+  });
+
+  const activeKeys = new Set(entries.map(e => e.key));
+  open.filter(r => !activeKeys.has(r.key)).forEach(({ open: _open, ...r }) => changed.push({ ...r, endedAt: Math.max(r.startedAt, endOf(r)) }));
+
+  // Spells that are over by now; one a refresh already logged keeps its
+  // record. Only records from the earliest such spell on are read.
+  if (past.length > 0) {
+    const logged = await getAlertRecords<AlertRecord>(Math.min(...past.map(r => r.startedAt)));
+    const known = new Set([...logged, ...changed].map(r => r.id));
+    past.filter(r => !known.has(r.id)).forEach(r => changed.push(r));
+  }
+
+  if (changed.length > 0) await putAlertRecords(changed);
+};
+
+// Called with the active plot alerts after every live refresh. Spells the
+// readings show between refreshes are logged as well, in the same context.
+export const recordAlerts = (alerts: PlotAlert[], sensors: SensorData[], context: RuleContext = {}, now: number = Date.now()) => enqueue(async () => {
+  const scanned = getScanned();
+  const past: AlertRecord[] = [];
+  sensors.forEach(sensor => {
+    if (sensor.history.length === 0) return;
+    const from = scanned[sensor.id];
+    // A plot seen for the first time starts from now rather than back-filling
+    if (from !== undefined) {
+      pastPlotAlerts(sensor, from, context).forEach(p => {
+        const key = `${sensor.id}|${p.kind}`;
+        past.push({
+          id: `${key}|${p.startedAt}`,
+          key,
+          plotId: sensor.id,
+          plotName: sensor.name,
+          kind: p.kind,
+          label: PLOT_ALERT_LABELS[p.kind],
+          message: p.message,
+          startedAt: p.startedAt,
+          endedAt: p.endedAt,
+          peak: p.peak,
+          unit: p.unit
+        });
+      });
+    }
+    scanned[sensor.id] = Math.max(from ?? 0, sensor.history[sensor.history.length - 1].ts);
+  });
+
+  const entries: ActiveEntry[] = alerts.map(a => ({
+    key: a.key,
+    plotId: a.plotId,
+    plotName: a.plotName,
+    kind: a.kind,
+    label: a.label || PLOT_ALERT_LABELS[a.kind],
+    message: a.message,
+    startedAt: a.since ?? now,
+    value: a.value,
+    unit: a.unit,
+    lowerIsWorse: a.lowerIsWorse
+  }));
+
+  const endOf = (record: AlertRecord) => {
+    const sensor = sensors.find(s => s.id === record.plotId);
+    return (sensor && plotAlertEndedAt(sensor, record.kind as PlotAlertKind, record.startedAt)) ?? now;
+  };
+
+  await syncRecords(entries, Object.keys(PLOT_ALERT_LABELS) as PlotAlertKind[], endOf, past);
+  localStorage.setItem(SCANNED_KEY, JSON.stringify(scanned));
+});
+
+// SD card forecasts, dismissed ones included: dismissing hides the banner,
+// it does not end the alert
+export const recordStorageAlerts = (alerts: StorageAlert[], now: number = Date.now()) => enqueue(() => syncRecords(
+  alerts.map(a => ({
+    key: `${a.gatewayId}|storage`,
+    plotId: a.gatewayId,
+    plotName: a.name,
+    kind: 'storage',
+    label: ALERT_HISTORY_LABELS.storage,
+    message: `SD card full in about ${a.daysLeft} days`,
+    startedAt: a.firedAt,
+    value: a.daysLeft,
+    unit: ' days',
+    lowerIsWorse: true
+  })),
+  ['storage'],
+  () => now
+));
+
+// Sources failing for longer than the alert threshold. An outage ends at the
+// source's first success after it began.
+export const recordSourceOutages = (outages: SourceOutage[], now: number = Date.now()) => enqueue(() => {
+  const health = getSourceHealth();
+  return syncRecords(
+    outages.map(o => ({
+      key: `${o.sourceId}|source`,
+      plotId: o.sourceId,
+      plotName: o.name,
+      kind: 'source',
+      label: ALERT_HISTORY_LABELS.source,
+      message: o.error,
+      startedAt: o.since,
+      value: Math.round((now - o.since) / 60000),
+      unit: 'min'
+    })),
+    ['source'],
+    record => {
+      const lastSuccess = health[record.plotId]?.lastSuccess;
+      return lastSuccess && lastSuccess > record.startedAt ? lastSuccess : now;
+    }
+  );
+});
+
+export const getAckName = () => localStorage.getItem(ACK_NAME_KEY) || '';
+
+// Re-reads the record so a refresh that updated its peak is not overwritten
+const patchRecord = (id: string, patch: Partial<AlertRecord>) => enqueue(async () => {
+  const record = await getAlertRecord<AlertRecord>(id);
+  if (record) await putAlertRecords([{ ...record, ...patch }]);
+});
+
+export const acknowledgeAlert = (id: string, by: string, now: number = Date.now()) => {
+  localStorage.setItem(ACK_NAME_KEY, by);
+  return patchRecord(id, { acknowledgedBy: by, acknowledgedAt: now });
+};
+
+export const saveResolution = (id: string, resolution: string) => patchRecord(id, { resolution: resolution.trim() || undefined });
+
+// --- EXPORT ---
+
+const CSV_HEADERS = ['Plot', 'Device ID', 'Type', 'Started', 'Ended', 'Duration (min)', 'Peak', 'Unit', 'Details', 'Acknowledged By', 'Acknowledged At', 'Resolution'];
+
+// RFC 4180: quotes inside a field are doubled
+const csvField = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+
+export const alertHistoryCsv = (records: AlertRecord[], now: number = Date.now()): string => [
+  CSV_HEADERS.join(','),
+  ...records.map(r => [
+    r.plotName,
+    r.plotId,
+    r.label,
+    formatDateTime(r.startedAt),
+    r.endedAt ? formatDateTime(r.endedAt) : 'Active',
+    Math.round(((r.endedAt ?? now) - r.startedAt) / 60000),
+    r.peak,
+    r.unit.trim(),
+    r.message,
+    r.acknowledgedBy || '',
+    r.acknowledgedAt ? formatDateTime(r.acknowledgedAt) : '',
+    r.resolution || ''
+  ].map(csvField).join(','))
+].join('\n');
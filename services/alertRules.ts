@@ -0,0 +1,276 @@
+import { SensorData, HistoryPoint } from '../types';
+import { WeatherData } from './weatherService';
+import { riseRate } from './statusEngine';
+import { parseTimestamp } from './timeService';
+
+// --- ALERT RULES ---
+// User-defined alerts kept as data, e.g. "Plot 3 below 8 cm for 2 hours
+// during Booting". Each rule is evaluated per plot on every refresh. A rule
+// fires once its condition has held for `forMinutes`, stays active until the
+// value is `hysteresis` back past the threshold, and cannot fire again on the
+// same plot within `cooldownMinutes`. Independent of the fixed thresholds in
+// IrrigationAdvice.
+
+export type RuleMetric = 'level' | 'rise' | 'silence' | 'rainChance';
+export type RuleOperator = 'above' | 'below';
+export type RuleSeverity = 'info' | 'warning' | 'critical';
+
+export const METRICS: { value: RuleMetric, label: string, unit: string }[] = [
+  { value: 'level', label: 'Water level', unit: 'cm' },
+  { value: 'rise', label: 'Rise rate', unit: 'cm/h' },
+  { value: 'silence', label: 'Time since last reading', unit: 'min' },
+  { value: 'rainChance', label: 'Rain chance (next 24h)', unit: '%' }
+];
+
+// Stage indexes match calculateStage in CropManager
+export const CROP_STAGES = [
+  'Transplanting / Recovery',
+  'Active Tillering',
+  'Stem Elongation',
+  'Panicle Initiation (Booting)',
+  'Heading / Flowering',
+  'Milk / Dough Stage',
+  'Maturity / Ripening',
+  'Harvest Ready'
+];
+
+// Per-plot changes to a rule
+export interface RuleOverride {
+  enabled?: boolean;
+  threshold?: number;
+  forMinutes?: number;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  metric: RuleMetric;
+  operator: RuleOperator;
+  threshold: number;
+  forMinutes: number;
+  hysteresis: number;      // in the metric's unit
+  cooldownMinutes: number;
+  severity: RuleSeverity;
+  plots: string[];         // empty = every plot
+  stages: number[];        // empty = any crop stage
+  overrides: Record<string, RuleOverride>;
+}
+
+const RULES_KEY = 'alert_rules';
+const STATE_KEY = 'alert_rule_state';
+
+export const getAlertRules = (): AlertRule[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RULES_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (e) {
+    console.error("Failed to parse alert rules", e);
+    return [];
+  }
+};
+
+export const saveAlertRules = (rules: AlertRule[]) => {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+};
+
+export const createAlertRule = (partial: Partial<AlertRule> = {}): AlertRule => ({
+  id: `rule_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  name: 'New Rule',
+  enabled: true,
+  metric: 'level',
+  operator: 'below',
+  threshold: 8,
+  forMinutes: 60,
+  hysteresis: 1,
+  cooldownMinutes: 120,
+  severity: 'warning',
+  plots: [],
+  stages: [],
+  overrides: {},
+  ...partial
+});
+
+// Starting points offered in Settings
+export const RULE_TEMPLATES: Partial<AlertRule>[] = [
+  { name: 'Dry during Booting', metric: 'level', operator: 'below', threshold: 8, forMinutes: 120, hysteresis: 1, stages: [3], severity: 'critical' },
+  { name: 'Rapid rise', metric: 'rise', operator: 'above', threshold: 3, forMinutes: 0, hysteresis: 1, severity: 'warning' },
+  { name: 'No data', metric: 'silence', operator: 'above', threshold: 90, forMinutes: 0, hysteresis: 0, severity: 'warning' }
+];
+
+// --- EVALUATION ---
+
+// Stage and weather are not part of SensorData, so the caller supplies them
+export interface RuleContext {
+  stageIndex?: (plotId: string) => number | undefined;
+  weather?: WeatherData | null;
+}
+
+export interface RuleAlert {
+  key: string; // rule + plot
+  ruleId: string;
+  ruleName: string;
+  severity: RuleSeverity;
+  plotId: string;
+  plotName: string;
+  metric: RuleMetric;
+  operator: RuleOperator;
+  value: number;
+  threshold: number;
+  since: number;
+  message: string;
+}
+
+interface RuleState {
+  pendingSince: number | null; // condition first seen true
+  checkedAt?: number | null;   // last evaluation that found it true
+  active: boolean;
+  activeSince: number | null;
+  lastFired: number | null;
+}
+
+const getState = (): Record<string, RuleState> => {
+  try {
+    return JSON.parse(localStorage.getItem(STATE_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+const nextRainChance = (weather: WeatherData | null | undefined, now: number): number | null => {
+  if (!weather) return null;
+  const upcoming = weather.hourly.filter(h => {
+    const ts = new Date(h.time).getTime();
+    return ts >= now - 3600000 && ts <= now + 24 * 3600000;
+  });
+  return upcoming.length > 0 ? Math.max(...upcoming.map(h => h.rainChance)) : weather.rainChance;
+};
+
+const isLive = (sensor: SensorData) => !sensor.freshness || sensor.freshness === 'live';
+
+const metricValue = (metric: RuleMetric, sensor: SensorData, context: RuleContext, now: number): number | null => {
+  switch (metric) {
+    // A silent node's last level says nothing about the field now; the
+    // 'silence' metric covers it
+    case 'level':
+      return sensor.history.length > 0 && isLive(sensor) ? sensor.currentLevel : null;
+    case 'rise':
+      return isLive(sensor) ? riseRate(sensor.history) : null;
+    case 'silence': {
+      const last = parseTimestamp(sensor.lastUpdated);
+      return last > 0 ? Math.round((now - last) / 60000) : null;
+    }
+    case 'rainChance':
+      return nextRainChance(context.weather, now);
+  }
+};
+
+// A condition last seen true longer ago than this starts its wait again:
+// it may have broken while the app was closed or hidden
+const MAX_GAP_MS = 15 * 60000;
+
+const holds = (operator: RuleOperator, value: number, threshold: number) => operator === 'above' ? value > threshold : value < threshold;
+
+// Oldest timestamp of the unbroken run of readings, ending at the newest,
+// that meet the condition; lets a level rule judge time the app was closed
+const levelHeldSince = (history: HistoryPoint[], test: (level: number) => boolean): number | null => {
+  let since: number | null = null;
+  for (let i = history.length - 1; i >= 0 && test(history[i].level); i--) since = history[i].ts;
+  return since;
+};
+
+// When the condition has held regardless of what the app saw, if known
+const heldSince = (rule: AlertRule, sensor: SensorData, threshold: number): number | null => {
+  if (rule.metric === 'level') return levelHeldSince(sensor.history, level => holds(rule.operator, level, threshold));
+  if (rule.metric === 'silence' && rule.operator === 'above') {
+    const last = parseTimestamp(sensor.lastUpdated);
+    return last > 0 ? last + threshold * 60000 : null;
+  }
+  return null;
+};
+
+const describe = (rule: AlertRule, value: number, threshold: number): string => {
+  const unit = METRICS.find(m => m.value === rule.metric)?.unit || '';
+  const label = METRICS.find(m => m.value === rule.metric)?.label || rule.metric;
+  const duration = rule.forMinutes > 0 ? ` for ${rule.forMinutes >= 120 ? `${Math.round(rule.forMinutes / 60)} h` : `${rule.forMinutes} min`}` : '';
+  return `${label} ${value}${unit} ${rule.operator} ${threshold}${unit}${duration}`;
+};
+
+const appliesTo = (rule: AlertRule, sensor: SensorData, context: RuleContext): boolean => {
+  if (!rule.enabled || rule.overrides[sensor.id]?.enabled === false) return false;
+  if (rule.plots.length > 0 && !rule.plots.includes(sensor.id)) return false;
+  if (rule.stages.length > 0) {
+    const stage = context.stageIndex?.(sensor.id);
+    if (stage === undefined || !rule.stages.includes(stage)) return false;
+  }
+  return true;
+};
+
+// Updates every rule/plot state and returns the alerts active now
+export const evaluateRules = (sensors: SensorData[], context: RuleContext, rules: AlertRule[] = getAlertRules(), now: number = Date.now()): RuleAlert[] => {
+  const previous = getState();
+  const state: Record<string, RuleState> = {};
+  const active: RuleAlert[] = [];
+
+  rules.forEach(rule => {
+    sensors.forEach(sensor => {
+      const key = `${rule.id}|${sensor.id}`;
+      const s: RuleState = previous[key] || { pendingSince: null, active: false, activeSince: null, lastFired: null };
+      const override = rule.overrides[sensor.id] || {};
+      const threshold = override.threshold ?? rule.threshold;
+      const forMs = (override.forMinutes ?? rule.forMinutes) * 60000;
+      const value = appliesTo(rule, sensor, context) ? metricValue(rule.metric, sensor, context, now) : null;
+
+      const toAlert = (v: number): RuleAlert => ({
+        key,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        severity: rule.severity,
+        plotId: sensor.id,
+        plotName: sensor.name,
+        metric: rule.metric,
+        operator: rule.operator,
+        value: v,
+        threshold,
+        since: s.activeSince || now,
+        message: describe(rule, v, threshold)
+      });
+
+      if (value === null) {
+        // Rule no longer applies (disabled, other stage, no data): end quietly
+        if (s.lastFired) state[key] = { pendingSince: null, active: false, activeSince: null, lastFired: s.lastFired };
+        return;
+      }
+
+      const met = holds(rule.operator, value, threshold);
+      if (s.active) {
+        // Hysteresis: clear only once clearly back on the safe side
+        const clearAt = rule.operator === 'above' ? threshold - rule.hysteresis : threshold + rule.hysteresis;
+        if (holds(rule.operator === 'above' ? 'below' : 'above', value, clearAt) || (rule.hysteresis === 0 && !met)) {
+          s.active = false;
+          s.activeSince = null;
+          s.pendingSince = null;
+        }
+      } else if (met) {
+        const carried = s.pendingSince !== null && s.checkedAt != null && now - s.checkedAt <= MAX_GAP_MS ? s.pendingSince : now;
+        s.pendingSince = Math.min(carried, heldSince(rule, sensor, threshold) ?? now);
+        s.checkedAt = now;
+        const cooledDown = s.lastFired === null || now - s.lastFired >= rule.cooldownMinutes * 60000;
+        if (now - s.pendingSince >= forMs && cooledDown) {
+          s.active = true;
+          s.activeSince = s.pendingSince;
+          s.lastFired = now;
+        }
+      } else {
+        s.pendingSince = null;
+        s.checkedAt = null;
+      }
+
+      if (s.active) active.push(toAlert(value));
+      if (s.active || s.pendingSince !== null || s.lastFired !== null) state[key] = s;
+    });
+  });
+
+  localStorage.setItem(STATE_KEY, JSON.stringify(state));
+  return active;
+};
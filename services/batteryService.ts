@@ -0,0 +1,81 @@
+import { SheetRow } from '../types';
+import { parseTimestamp } from './timeService';
+
+// --- BATTERY LIFE ---
+// Estimates when a node will reach its brown-out voltage from a straight-line
+// fit of its recent battery readings, so batteries can be swapped on a field
+// visit before the node goes silent.
+
+// Single-cell Li-ion nodes brown out just below this
+export const BATTERY_CUTOFF_V = 3.3;
+const BATTERY_LOW_V = 3.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const BATTERY_WINDOW_MS = 7 * DAY_MS;
+// Shorter spans are dominated by the day/night temperature swing
+const MIN_TREND_SPAN_MS = 2 * DAY_MS;
+const MIN_SAMPLES = 12;
+// Flatter than this is a charging or effectively idle node
+const MIN_DRAIN_PER_DAY = 0.001;
+
+export type BatteryHealth = 'ok' | 'low' | 'critical';
+
+export interface BatteryEstimate {
+  voltage: number;               // smoothed latest reading
+  trendPerDay: number | null;    // V/day, negative while draining
+  daysLeft: number | null;       // until BATTERY_CUTOFF_V; null without a drain trend
+  health: BatteryHealth;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Rows for one device, in any order. Null when none of them carry a voltage.
+export const estimateBattery = (rows: SheetRow[], now: number = Date.now()): BatteryEstimate | null => {
+  // 1. Voltage samples within the window, Oldest -> Newest
+  const points = rows
+    .map(r => ({ ts: parseTimestamp(r["Gateway Received Time"]), volts: r["Battery (V)"] }))
+    .filter((p): p is { ts: number, volts: number } => p.ts > 0 && p.ts >= now - BATTERY_WINDOW_MS && typeof p.volts === 'number')
+    .sort((a, b) => a.ts - b.ts);
+  if (points.length === 0) return null;
+
+  const voltage = Math.round(median(points.slice(-5).map(p => p.volts)) * 100) / 100;
+
+  // 2. Least-squares slope in V/day
+  let slope: number | null = null;
+  let fitted = voltage;
+  const span = points[points.length - 1].ts - points[0].ts;
+  if (points.length >= MIN_SAMPLES && span >= MIN_TREND_SPAN_MS) {
+    const t0 = points[0].ts;
+    const xs = points.map(p => (p.ts - t0) / DAY_MS);
+    const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+    const meanY = points.reduce((a, p) => a + p.volts, 0) / points.length;
+    let sxy = 0;
+    let sxx = 0;
+    xs.forEach((x, i) => {
+      sxy += (x - meanX) * (points[i].volts - meanY);
+      sxx += (x - meanX) * (x - meanX);
+    });
+    if (sxx > 0) {
+      slope = sxy / sxx;
+      fitted = meanY + slope * (xs[xs.length - 1] - meanX);
+    }
+  }
+
+  // 3. Days until the fitted line crosses the cutoff
+  let daysLeft: number | null = null;
+  if (slope !== null && slope <= -MIN_DRAIN_PER_DAY) {
+    daysLeft = Math.max(0, Math.floor((fitted - BATTERY_CUTOFF_V) / -slope));
+  }
+  const trendPerDay = slope === null ? null : Math.round(slope * 1000) / 1000;
+
+  const health: BatteryHealth =
+    voltage <= BATTERY_CUTOFF_V + 0.05 || (daysLeft !== null && daysLeft < 7) ? 'critical'
+    : voltage < BATTERY_LOW_V || (daysLeft !== null && daysLeft < 30) ? 'low'
+    : 'ok';
+
+  return { voltage, trendPerDay, daysLeft, health };
+};
@@ -0,0 +1,90 @@
+import { getDevice, updateDevice } from './deviceRegistry';
+
+// --- PIPE CALIBRATION ---
+// Every AWD pipe is installed slightly differently. A profile converts the
+// raw sensor reading into a gauge reading and says where the soil surface
+// sits on that gauge. All thresholds are derived relative to the soil mark.
+
+export interface CalibrationProfile {
+  pipeLength: number; // cm, top of the gauge
+  soilLevel: number;  // gauge reading (cm) at the soil surface
+  scale: number;      // multiplier applied to the raw reading
+  offset: number;     // cm added after scaling (zero correction)
+}
+
+export interface LevelThresholds {
+  soil: number;
+  low: number;   // below this the field is critically dry
+  high: number;  // above this irrigation is wasteful
+  flood: number; // above this the plot is flooding
+  top: number;
+}
+
+export const DEFAULT_CALIBRATION: CalibrationProfile = {
+  pipeLength: 30,
+  soilLevel: 15,
+  scale: 1,
+  offset: 0
+};
+
+// Profiles are kept on the device's registry record
+export const getCalibration = (deviceId: string): CalibrationProfile => {
+  return { ...DEFAULT_CALIBRATION, ...getDevice(deviceId)?.calibration };
+};
+
+export const hasCustomCalibration = (deviceId: string): boolean => {
+  return !!getDevice(deviceId)?.calibration;
+};
+
+export const saveCalibration = (deviceId: string, profile: CalibrationProfile) => {
+  updateDevice(deviceId, { calibration: profile });
+};
+
+export const resetCalibration = (deviceId: string) => {
+  updateDevice(deviceId, { calibration: undefined });
+};
+
+// Raw sensor reading -> gauge reading, rounded to 0.1 cm
+export const applyCalibration = (rawLevel: number, profile: CalibrationProfile): number => {
+  const level = rawLevel * profile.scale + profile.offset;
+  return Math.round(level * 10) / 10;
+};
+
+// Offsets keep the original 30 cm pipe rules (5 / 15 / 20 / 25 cm)
+export const getThresholds = (profile: CalibrationProfile): LevelThresholds => ({
+  soil: profile.soilLevel,
+  low: profile.soilLevel - 10,
+  high: profile.soilLevel + 5,
+  flood: profile.soilLevel + 10,
+  top: profile.pipeLength
+});
+
+// Two-point calibration from the wizard: the raw reading with an empty
+// pipe maps to 0 cm and the raw reading with water at the soil surface maps
+// to the soil mark.
+export const calibrateFromReadings = (
+  emptyRaw: number,
+  soilRaw: number,
+  soilLevel: number,
+  pipeLength: number
+): CalibrationProfile | null => {
+  const span = soilRaw - emptyRaw;
+  if (!isFinite(span) || Math.abs(span) < 0.5) return null;
+  const scale = soilLevel / span;
+  return {
+    pipeLength,
+    soilLevel,
+    scale: Math.round(scale * 1000) / 1000,
+    offset: Math.round(-emptyRaw * scale * 10) / 10
+  };
+};
+
+// Status derived from the calibrated level, using the same names the
+// gateway firmware reports
+export const statusFromLevel = (level: number, profile: CalibrationProfile): 'Low' | 'Good' | 'Excess' | 'Flood Alert' => {
+  const t = getThresholds(profile);
+  if (level > t.flood) return 'Flood Alert';
+  if (level > t.high) return 'Excess';
+  if (level < t.low) return 'Low';
+  return 'Good';
+};
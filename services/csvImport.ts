@@ -0,0 +1,150 @@
+import { SheetRow } from '../types';
+import { TimestampFormat, TimeZoneSetting, toCanonicalTime } from './timeService';
+import { ValidatedRow, validateRow } from './dataQuality';
+
+// --- CSV IMPORT ---
+// Reads CSV exported from the dashboard, the gateway sheet or a gateway SD
+// card. Columns are mapped onto SheetRow fields, guessed from the header and
+// adjustable in the import preview.
+
+export const SHEET_FIELDS: (keyof SheetRow)[] = [
+  "Gateway Received Time",
+  "Device ID",
+  "Transmitter Data",
+  "Water Level (cm)",
+  "Status",
+  "Network",
+  "Batch Upload Time",
+  "SIM Operator",
+  "WiFi Strength (dBm)",
+  "GSM Strength (RSSI)",
+  "SD Free (MB)",
+  "Battery (V)",
+  "Board Temp (°C)",
+  "LoRa RSSI (dBm)",
+  "LoRa SNR (dB)",
+  "Spreading Factor",
+  "Gateway ID"
+];
+
+// Column index per field; -1 leaves the field empty
+export type ColumnMapping = Record<keyof SheetRow, number>;
+
+// Header spellings seen in the LoRa sheet, the standalone GSM payloads and
+// SD card logs, compared lower-case with punctuation removed
+const HEADER_ALIASES: Record<keyof SheetRow, string[]> = {
+  "Gateway Received Time": ['gatewayreceivedtime', 'timestamp', 'time', 'datetime', 'date'],
+  "Device ID": ['deviceid', 'device', 'node', 'nodeid'],
+  "Transmitter Data": ['transmitterdata', 'datatype', 'payload'],
+  "Water Level (cm)": ['waterlevelcm', 'waterlevel', 'level', 'levelcm'],
+  "Status": ['status'],
+  "Network": ['network'],
+  "Batch Upload Time": ['batchuploadtime', 'uploadtime'],
+  "SIM Operator": ['simoperator', 'operator'],
+  "WiFi Strength (dBm)": ['wifistrengthdbm', 'wifistrength', 'wifi', 'wifirssi'],
+  "GSM Strength (RSSI)": ['gsmstrengthrssi', 'gsmstrength', 'gsm', 'csq'],
+  "SD Free (MB)": ['sdfreemb', 'sdfree', 'sdremaining'],
+  "Battery (V)": ['batteryv', 'battery', 'batteryvoltage', 'vbat'],
+  "Board Temp (°C)": ['boardtempc', 'boardtemp', 'temperature', 'temp'],
+  "LoRa RSSI (dBm)": ['lorarssidbm', 'lorarssi', 'rssi'],
+  "LoRa SNR (dB)": ['lorasnrdb', 'lorasnr', 'snr'],
+  "Spreading Factor": ['spreadingfactor', 'sf'],
+  "Gateway ID": ['gatewayid', 'gateway']
+};
+
+const headerKey = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// RFC 4180 parsing, plus the backslash-escaped quotes that JSON.stringify
+// writes in the dashboard's own export
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '\\' && (text[i + 1] === '"' || text[i + 1] === '\\')) {
+        field += text[++i];
+      } else if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(v => v.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  row.push(field);
+  if (row.some(v => v.trim() !== '')) rows.push(row);
+  return rows;
+};
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const keys = headers.map(headerKey);
+  const mapping = {} as ColumnMapping;
+  SHEET_FIELDS.forEach(field => {
+    mapping[field] = -1;
+    for (const alias of HEADER_ALIASES[field]) {
+      const index = keys.indexOf(alias);
+      if (index !== -1) {
+        mapping[field] = index;
+        break;
+      }
+    }
+  });
+  return mapping;
+};
+
+const NUMERIC_FIELDS: (keyof SheetRow)[] = ["Water Level (cm)", "WiFi Strength (dBm)", "GSM Strength (RSSI)", "SD Free (MB)"];
+const OPTIONAL_FIELDS: (keyof SheetRow)[] = ["Battery (V)", "Board Temp (°C)", "LoRa RSSI (dBm)", "LoRa SNR (dB)", "Spreading Factor"];
+
+// Builds and validates rows from the data lines (header excluded). Timestamps
+// are read with the chosen format and zone, as for a live source.
+export const mapCsvRows = (
+  lines: string[][],
+  mapping: ColumnMapping,
+  timestampFormat: TimestampFormat = 'auto',
+  timezone: TimeZoneSetting = 'local'
+): ValidatedRow[] => {
+  return lines.map(cells => {
+    const original: Record<string, any> = {};
+    const row = {} as SheetRow;
+
+    SHEET_FIELDS.forEach(field => {
+      const index = mapping[field];
+      const value = index >= 0 && index < cells.length ? cells[index].trim() : '';
+      original[field] = value;
+      // An empty level must be rejected, not read as 0 cm
+      if (OPTIONAL_FIELDS.includes(field)) {
+        (row as any)[field] = value === '' ? undefined : Number(value);
+        return;
+      }
+      (row as any)[field] = !NUMERIC_FIELDS.includes(field) ? value
+        : value === '' ? (field === "Water Level (cm)" ? NaN : 0)
+        : Number(value);
+    });
+
+    if (!row["Status"]) row["Status"] = 'Unknown';
+    row["Gateway Received Time"] = toCanonicalTime(row["Gateway Received Time"], timestampFormat, timezone);
+    row["Batch Upload Time"] = toCanonicalTime(row["Batch Upload Time"], timestampFormat, timezone);
+
+    return validateRow(row, original, timestampFormat, timezone);
+  });
+};
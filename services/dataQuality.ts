@@ -0,0 +1,255 @@
+import { SheetRow } from '../types';
+import { parseTimestamp, TimestampFormat, TimeZoneSetting } from './timeService';
+
+// --- ROW SCHEMA ---
+// Every row an adapter produces is checked here before it reaches the store
+// or the dashboard. Rows missing something the dashboard cannot work without
+// are rejected; fixable problems are coerced to a safe value. Both are
+// recorded with a reason so a broken sensor can be told apart from a bad
+// sheet formula.
+
+export type IssueAction = 'rejected' | 'coerced';
+
+export interface RowIssue {
+  field: keyof SheetRow;
+  action: IssueAction;
+  reason: string;
+  value: string; // offending value as received
+}
+
+export interface ValidatedRow {
+  row: SheetRow;
+  ts: number; // 0 when the timestamp could not be read
+  rejected: boolean;
+  issues: RowIssue[];
+}
+
+const KNOWN_STATUSES = ['Low', 'Good', 'Excess', 'Flood Alert', 'Unknown'];
+
+// Physical limits of the pipe sensors; anything outside is a fault code or
+// a formula error, never a water level
+const LEVEL_MIN = -50;
+const LEVEL_MAX = 500;
+
+// Allows for gateway clocks running a little ahead
+const MAX_FUTURE_MS = 24 * 60 * 60 * 1000;
+
+// Placeholders the sheets use for "no reading"; not worth flagging
+const EMPTY_MARKERS = ['', '-', 'N/A', 'NA'];
+
+const SIGNAL_FIELDS: (keyof SheetRow)[] = ["WiFi Strength (dBm)", "GSM Strength (RSSI)", "SD Free (MB)"];
+
+// Plausible ranges for the optional node telemetry. Values outside are
+// dropped rather than shown, so a bad sample cannot skew the battery trend.
+const NODE_TELEMETRY: { field: keyof SheetRow, min: number, max: number }[] = [
+  { field: "Battery (V)", min: 1, max: 15 },
+  { field: "Board Temp (°C)", min: -40, max: 85 },
+  { field: "LoRa RSSI (dBm)", min: -150, max: 0 },
+  { field: "LoRa SNR (dB)", min: -30, max: 30 },
+  { field: "Spreading Factor", min: 5, max: 12 }
+];
+
+const shown = (value: unknown): string => {
+  if (value === undefined) return 'missing';
+  if (value === null) return 'null';
+  return String(value);
+};
+
+// `original` is the value before the adapter touched it, used so reports show
+// what the source actually sent rather than the adapter's NaN. Times are read
+// with the source's declared format and zone: one those could not convert is
+// rejected, not guessed at again.
+export const validateRow = (
+  input: SheetRow,
+  original?: Record<string, any>,
+  timeFormat: TimestampFormat = 'auto',
+  timeZone: TimeZoneSetting = 'local'
+): ValidatedRow => {
+  const row: SheetRow = { ...input };
+  const issues: RowIssue[] = [];
+  const raw = (field: keyof SheetRow) => shown(original && field in original ? original[field] : input[field]);
+  const reject = (field: keyof SheetRow, reason: string) => issues.push({ field, action: 'rejected', reason, value: raw(field) });
+  const coerce = (field: keyof SheetRow, reason: string) => issues.push({ field, action: 'coerced', reason, value: raw(field) });
+
+  // 1. Identity
+  const deviceId = row["Device ID"] === undefined || row["Device ID"] === null ? '' : String(row["Device ID"]).trim();
+  if (!deviceId) reject("Device ID", 'Missing device ID');
+  else if (deviceId !== row["Device ID"]) {
+    coerce("Device ID", 'Device ID trimmed');
+    row["Device ID"] = deviceId;
+  }
+
+  // 2. Timestamps
+  let ts = 0;
+  const received = row["Gateway Received Time"];
+  if (!received) reject("Gateway Received Time", 'Missing received time');
+  else {
+    ts = parseTimestamp(String(received), timeFormat, timeZone);
+    if (ts === 0) reject("Gateway Received Time", 'Unreadable received time');
+    else if (ts > Date.now() + MAX_FUTURE_MS) {
+      reject("Gateway Received Time", 'Received time is in the future');
+      ts = 0;
+    }
+  }
+
+  const batch = row["Batch Upload Time"];
+  if (batch && parseTimestamp(String(batch), timeFormat, timeZone) === 0) {
+    coerce("Batch Upload Time", 'Unreadable batch upload time');
+    row["Batch Upload Time"] = "";
+  }
+
+  // 3. Water level
+  const level = typeof row["Water Level (cm)"] === 'number' ? row["Water Level (cm)"] : Number(row["Water Level (cm)"]);
+  if (!isFinite(level)) reject("Water Level (cm)", 'Water level is not a number');
+  else if (level < LEVEL_MIN || level > LEVEL_MAX) reject("Water Level (cm)", `Water level outside ${LEVEL_MIN}…${LEVEL_MAX} cm`);
+  else row["Water Level (cm)"] = level;
+
+  // 4. Status reported by the firmware
+  if (!KNOWN_STATUSES.includes(row["Status"])) {
+    coerce("Status", 'Unrecognised status');
+    row["Status"] = 'Unknown';
+  }
+
+  // 5. Gateway telemetry: informational only, so bad values become 0
+  SIGNAL_FIELDS.forEach(field => {
+    const value = row[field] as number | string;
+    if (typeof value === 'number' || EMPTY_MARKERS.includes(String(value).trim())) return;
+    if (isNaN(Number(value))) {
+      coerce(field, `${field} is not a number`);
+      (row as any)[field] = 0;
+    }
+  });
+
+  // 6. Node telemetry: optional, so bad values are dropped
+  NODE_TELEMETRY.forEach(({ field, min, max }) => {
+    const value = row[field];
+    if (value === undefined) return;
+    const n = Number(value);
+    if (!isFinite(n)) coerce(field, `${field} is not a number`);
+    else if (n < min || n > max) coerce(field, `${field} outside ${min}…${max}`);
+    else {
+      (row as any)[field] = n;
+      return;
+    }
+    (row as any)[field] = undefined;
+  });
+
+  return { row, ts, rejected: issues.some(i => i.action === 'rejected'), issues };
+};
+
+// --- QUALITY REPORT ---
+// Running totals since the last reset, kept per source and per device.
+// Persisted so the view survives a page reload.
+
+export interface QualityCounts {
+  accepted: number;
+  coerced: number;  // accepted, but with at least one field coerced
+  rejected: number;
+  reasons: Record<string, number>;
+}
+
+export interface QualityEvent extends RowIssue {
+  sourceId: string;
+  deviceId: string;
+  rowTime: string;   // received time as sent
+  recordedAt: number;
+}
+
+export interface DataQualityReport {
+  since: number;
+  sources: Record<string, QualityCounts>;
+  devices: Record<string, QualityCounts>;
+  recent: QualityEvent[]; // Newest -> Oldest
+  // Fingerprints of rejected rows without a usable timestamp. The cursor
+  // cannot exclude these, so sources re-send them on every refresh.
+  seen: string[];
+  // Newest row time counted per source and device ("sourceId|deviceId"); a
+  // full reload re-sends everything up to here and must not be counted twice.
+  // Per device, since devices on one source do not arrive in step.
+  counted: Record<string, number>;
+}
+
+const STORAGE_KEY = 'data_quality';
+const MAX_EVENTS = 200;
+const MAX_SEEN = 500;
+export const UNKNOWN_DEVICE = '(no device ID)';
+
+const emptyReport = (): DataQualityReport => ({ since: Date.now(), sources: {}, devices: {}, recent: [], seen: [], counted: {} });
+
+const emptyCounts = (): QualityCounts => ({ accepted: 0, coerced: 0, rejected: 0, reasons: {} });
+
+export const getQualityReport = (): DataQualityReport => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return { ...emptyReport(), ...JSON.parse(saved) };
+  } catch (e) {
+    console.error("Failed to parse data quality report", e);
+  }
+  return emptyReport();
+};
+
+export const resetQualityReport = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+// Adds one source's freshly received rows to the running report
+export const recordValidation = (sourceId: string, results: ValidatedRow[]) => {
+  if (results.length === 0) return;
+  const report = getQualityReport();
+  const seen = new Set(report.seen);
+  const now = Date.now();
+  const events: QualityEvent[] = [];
+  // Watermarks as they stood before this batch, so rows of one batch that
+  // arrive out of order are all counted
+  const countedUntil = { ...report.counted };
+
+  results.forEach(result => {
+    const deviceId = result.row["Device ID"] ? String(result.row["Device ID"]) : UNKNOWN_DEVICE;
+    const watermark = `${sourceId}|${deviceId}`;
+    // Future-dated rows are placed by fingerprint too, so they cannot push
+    // the watermark past rows still to come
+    const timed = result.ts > 0 && result.ts <= now;
+    if (timed) {
+      if (result.ts <= (countedUntil[watermark] || 0)) return;
+      report.counted[watermark] = Math.max(report.counted[watermark] || 0, result.ts);
+    } else if (result.rejected) {
+      const fingerprint = `${sourceId}|${JSON.stringify(result.row)}`;
+      if (seen.has(fingerprint)) return;
+      seen.add(fingerprint);
+      report.seen.push(fingerprint);
+    }
+
+    const buckets = [
+      report.sources[sourceId] || (report.sources[sourceId] = emptyCounts()),
+      report.devices[deviceId] || (report.devices[deviceId] = emptyCounts())
+    ];
+
+    buckets.forEach(counts => {
+      if (result.rejected) counts.rejected++;
+      else {
+        counts.accepted++;
+        if (result.issues.length > 0) counts.coerced++;
+      }
+      result.issues.forEach(issue => {
+        counts.reasons[issue.reason] = (counts.reasons[issue.reason] || 0) + 1;
+      });
+    });
+
+    result.issues.forEach(issue => events.push({
+      ...issue,
+      sourceId,
+      deviceId,
+      rowTime: String(result.row["Gateway Received Time"] || ''),
+      recordedAt: now
+    }));
+  });
+
+  report.recent = [...events.reverse(), ...report.recent].slice(0, MAX_EVENTS);
+  report.seen = report.seen.slice(-MAX_SEEN);
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(report));
+  } catch (e) {
+    console.warn("Failed to save data quality report", e);
+  }
+};
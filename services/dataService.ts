@@ -1,72 +1,26 @@
 
-import { SheetRow, SensorData, GatewayStatus } from '../types';
-
-// --- DATA CONFIGURATION ---
-const DATA_SOURCES = [
-  // 1. Original LoRa Gateway Sheet
-  'https://script.google.com/macros/s/AKfycbwMl7VGQlu4--r5DjptzE8JF5XXDoRIWSnYJ-0qCuYBEQnLbaBvXHzBNmuQcgjiynnf/exec',
-
-  // 2. Standalone GSM Device Sheet
-  'https://script.google.com/macros/s/AKfycby61hthQVULKFW_1--hI0V2t-gjxOVSnUzZ6iHK-Q-RT2cpUbvgvmM7BfFt5rSOuR0MFw/exec'
-];
-// --------------------------
-
-// Helper to parse date strings robustly handling multiple formats (ISO, US, Euro)
-export const parseDate = (dateStr: string): number => {
-  if (!dateStr) return 0;
-  const cleanStr = String(dateStr).trim().replace(/['"]/g, '');
-  
-  // 1. Try native Date parsing first (Handles ISO 8601 and standard formats)
-  const nativeTime = Date.parse(cleanStr);
-  if (!isNaN(nativeTime) && nativeTime > 946684800000) { // > Year 2000
-    return nativeTime;
-  }
+import { SheetRow, SensorData, SensorSnapshot, HistoryPoint } from '../types';
+import { DataSourceConfig, getDataSources, getAdapter, isSourceConfigured, isSimulatorSource, DEFAULT_TIMEOUT_SECONDS } from './sourceRegistry';
+import { generateSimulatedRows } from './fieldSimulator';
+import { CalibrationProfile, getCalibration, applyCalibration } from './calibrationService';
+import { assessStatus } from './statusEngine';
+import { filterHistory, getFilterConfig } from './signalFilter';
+import { parseTimestamp, getZonedParts, intlTimeZone, toCanonicalTime } from './timeService';
+import { ValidatedRow, validateRow, recordValidation } from './dataQuality';
+import { assignGateway, mergeRowsIntoGateways } from './gatewayService';
+import { registerDevice } from './deviceRegistry';
+import { sourceError, recordSuccess, recordFailure } from './sourceHealth';
+import { putReadings, queryReadings, pruneReadings, getMeta, setMeta } from './readingStore';
 
-  // 2. Fallback: Manual regex parsing for specific formats
-  const parts = cleanStr.split(/[^0-9]+/);
-  
-  if (parts.length >= 3) {
-    const nums = parts.map(p => parseInt(p, 10));
-    
-    let year = 0, month = 0, day = 0, hour = 0, min = 0, sec = 0;
-    
-    // Case A: Year first (YYYY-MM-DD)
-    if (nums[0] > 1000) {
-       year = nums[0];
-       month = nums[1];
-       day = nums[2];
-       if (parts.length > 3) hour = nums[3];
-       if (parts.length > 4) min = nums[4];
-       if (parts.length > 5) sec = nums[5];
-    }
-    // Case B: Year third (MM/DD/YYYY or DD/MM/YYYY)
-    else if (nums[2] > 1000) {
-       year = nums[2];
-       if (nums[0] > 12) {
-          day = nums[0];
-          month = nums[1];
-       } else {
-          month = nums[0];
-          day = nums[1];
-       }
-       
-       if (parts.length > 3) hour = nums[3];
-       if (parts.length > 4) min = nums[4];
-       if (parts.length > 5) sec = nums[5];
-    }
-    
-    if (year > 0 && month > 0 && day > 0) {
-       // Month is 0-indexed in JS Date
-       const constructed = new Date(year, month - 1, day, hour, min, sec);
-       if (!isNaN(constructed.getTime())) return constructed.getTime();
-    }
-  }
+// Helper to parse date strings robustly handling multiple formats (ISO, US, Euro).
+// Rows from configured sources are already canonical ISO-8601 UTC strings;
+// this legacy guess only matters for anything that bypassed normalization.
+export const parseDate = (dateStr: string): number => parseTimestamp(dateStr);
 
-  return 0;
-};
+const toEpoch = (value: string | number): number => typeof value === 'number' ? value : parseDate(value);
 
-export const formatFriendlyDate = (dateStr: string): string => {
-  const ts = parseDate(dateStr);
+export const formatFriendlyDate = (value: string | number): string => {
+  const ts = toEpoch(value);
   if (ts === 0) return "N/A";
   const date = new Date(ts);
   
@@ -76,187 +30,509 @@ export const formatFriendlyDate = (dateStr: string): string => {
       month: 'short',
       hour: 'numeric',
       minute: '2-digit',
-      hour12: true
+      hour12: true,
+      timeZone: intlTimeZone()
     });
   } catch (e) {
     return date.toDateString();
   }
 };
 
-export const formatDateTime = (dateStr: string): string => {
-  const ts = parseDate(dateStr);
+// YYYY-MM-DD HH:mm:ss in the display time zone chosen in Settings
+export const formatDateTime = (value: string | number): string => {
+  const ts = toEpoch(value);
   if (ts === 0) return "N/A";
-  const date = new Date(ts);
+  const p = getZonedParts(ts);
   
   const pad = (n: number) => n < 10 ? '0' + n : n;
-  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+  return `${p.year}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}`;
 };
 
-export const fetchSensorData = async (): Promise<{ sensors: SensorData[], gateway: GatewayStatus, logs: SheetRow[] }> => {
-  try {
-    const activeSources = DATA_SOURCES.filter(url => url && url.trim().length > 0 && url.startsWith('http'));
+// Last "Gateway Received Time" (epoch ms) seen per source. Incremental
+// refreshes only ask for, and only keep, rows newer than this.
+const sourceCursors: Record<string, number> = {};
 
-    if (activeSources.length === 0) {
-        console.warn("No data sources configured in dataService.ts");
-        return { sensors: [], gateway: getDefaultGateway(), logs: [] };
+const resetCursors = () => {
+    Object.keys(sourceCursors).forEach(id => delete sourceCursors[id]);
+};
+
+// --- BACKOFF ---
+// A failing source is retried after 1, 2, 4 ... minutes (capped at 30) with
+// random jitter, so a broken deployment is not hammered on every refresh.
+// Manual refreshes ignore the wait.
+const BACKOFF_BASE_MS = 60000;
+const BACKOFF_MAX_MS = 30 * 60000;
+
+const sourceBackoff: Record<string, { failures: number, retryAt: number }> = {};
+
+const backoffDelay = (failures: number): number => {
+    const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * Math.pow(2, failures - 1));
+    return delay / 2 + Math.random() * delay / 2;
+};
+
+const noteFailure = (sourceId: string, now: number = Date.now()) => {
+    const failures = (sourceBackoff[sourceId]?.failures || 0) + 1;
+    sourceBackoff[sourceId] = { failures, retryAt: now + backoffDelay(failures) };
+};
+
+// Next scheduled attempt for a source in backoff, for the status page
+export const getRetryAt = (sourceId: string): number | null => sourceBackoff[sourceId]?.retryAt ?? null;
+
+const abortError = () => Object.assign(new Error('Refresh cancelled'), { name: 'AbortError' });
+
+// Runs `request` with a signal that aborts after the source's timeout or
+// when the caller's signal does
+const withTimeout = async <T>(source: DataSourceConfig, signal: AbortSignal | undefined, request: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    const seconds = source.timeoutSeconds || DEFAULT_TIMEOUT_SECONDS;
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    let timedOut = false;
+    const timer = setTimeout(() => { timedOut = true; controller.abort(); }, seconds * 1000);
+    signal?.addEventListener('abort', cancel);
+    try {
+        return await request(controller.signal);
+    } catch (error: any) {
+        if (timedOut) throw sourceError('timeout', `No response after ${seconds} s`);
+        if (signal?.aborted) throw abortError();
+        throw error;
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', cancel);
     }
+};
 
-    // Fetch from all sources in parallel
-    const fetchPromises = activeSources.map(async (url) => {
-        try {
-            const response = await fetch(`${url}?nocache=${Date.now()}`, {
-                method: 'GET',
-                credentials: 'omit',
-                redirect: 'follow'
-            });
+// Set by sw.js on a response answered from its cache instead of the network
+const SW_CACHED_HEADER = 'x-sw-cached-at';
 
-            if (!response.ok) {
-                console.warn(`HTTP Error from source ${url}: ${response.status}`);
-                return [];
-            }
+// Fetches the raw JSON rows for a single source, throwing a classified
+// SourceError on failure. Sources that understand `since` return only newer
+// rows; others return everything and are filtered against the cursor
+// client-side. `latencyMs` covers the request and the body download only;
+// `cached` marks rows the service worker served from an earlier download.
+const fetchSourceRows = async (source: DataSourceConfig, since?: number, signal?: AbortSignal): Promise<{ rows: any[], status: number | null, latencyMs: number, cached: boolean }> => {
+    if (isSimulatorSource(source)) {
+        if (!source.simulator) throw new Error('Simulator has not been set up; save it from Settings');
+        return { rows: generateSimulatedRows(source.simulator, Date.now(), since), status: null, latencyMs: 0, cached: false };
+    }
 
-            const contentType = response.headers.get('content-type');
-            if (!contentType || !contentType.includes('application/json')) {
-                 return []; 
-            }
+    const params = new URLSearchParams({ nocache: String(Date.now()) });
+    if (since) params.set('since', new Date(since).toISOString());
 
-            const data = await response.json();
-            if (Array.isArray(data)) return data;
-            if (data && typeof data === 'object') {
-                if (data.data && Array.isArray(data.data)) return data.data;
-                return [];
-            }
-            return [];
-        } catch (error) {
-            console.warn(`Failed to fetch from source: ${url}`, error);
-            return []; 
+    return withTimeout(source, signal, async timeoutSignal => {
+        const started = Date.now();
+        const response = await fetch(`${source.url}?${params.toString()}`, {
+            method: 'GET',
+            credentials: 'omit',
+            redirect: 'follow',
+            signal: timeoutSignal
+        });
+
+        if (!response.ok) {
+            throw sourceError('http', `HTTP ${response.status}`, response.status);
         }
-    });
 
-    const results = await Promise.all(fetchPromises);
-    
-    // Merge and Normalize Data
-    let allRows: SheetRow[] = [];
-    results.forEach(rows => {
-        if (Array.isArray(rows)) {
-            const normalized = rows.map((r: any) => {
-                // Detect if this is the new GSM format (camelCase keys)
-                if (r.waterLevel !== undefined || r.timestamp !== undefined) {
-                     return {
-                        "Gateway Received Time": r.timestamp,
-                        "Device ID": r.device || "GSM-Device",
-                        "Transmitter Data": r.dataType || "Direct",
-                        "Water Level (cm)": Number(r.waterLevel || 0),
-                        "Status": r.status || "Unknown",
-                        "Network": r.network || "GSM",
-                        "Batch Upload Time": r.timestamp, // Direct upload usually implies realtime
-                        "SIM Operator": r.simOperator || "-",
-                        "WiFi Strength (dBm)": r.wifiStrength || 0,
-                        "GSM Strength (RSSI)": r.gsmStrength || 0,
-                        "SD Free (MB)": r.sdRemaining || 0
-                     } as SheetRow;
-                }
-                // Assume standard LoRa SheetRow format
-                return r as SheetRow;
-            });
-            allRows = [...allRows, ...normalized];
+        const contentType = response.headers.get('content-type');
+        if (!contentType || !contentType.includes('application/json')) {
+            throw sourceError('content-type', `Unexpected content type: ${contentType || 'none'}`, response.status);
+        }
+
+        const body = await response.text();
+        const latencyMs = Date.now() - started;
+        const cached = response.headers.has(SW_CACHED_HEADER);
+        let data: any;
+        try {
+            data = JSON.parse(body);
+        } catch (e) {
+            throw sourceError('parse', 'Response is not valid JSON', response.status);
         }
+        if (Array.isArray(data)) return { rows: data, status: response.status, latencyMs, cached };
+        if (data && typeof data === 'object' && Array.isArray(data.data)) return { rows: data.data, status: response.status, latencyMs, cached };
+        // Apps Script reports its own errors as a JSON object
+        const reason = data && typeof data === 'object' && typeof data.error === 'string' ? `: ${data.error}` : '';
+        throw sourceError('parse', `Response has no rows${reason}`, response.status);
     });
+};
+
+// Normalizes and validates every row; rejected rows are kept in the result
+// so they can be counted in the data quality report
+const validateSourceRows = (source: DataSourceConfig, rows: any[]): ValidatedRow[] => {
+    const adapter = getAdapter(source.format);
+    return rows
+        .filter(r => r && typeof r === 'object')
+        .map(r => {
+            const row = adapter.normalize(r);
+            // Timestamps become UTC ISO strings using the source's declared format and zone
+            row["Gateway Received Time"] = toCanonicalTime(row["Gateway Received Time"], source.timestampFormat, source.timezone);
+            row["Batch Upload Time"] = toCanonicalTime(row["Batch Upload Time"], source.timestampFormat, source.timezone);
+            return validateRow(assignGateway(row, source.id, adapter.isStandalone(r)), r, source.timestampFormat, source.timezone);
+        });
+};
 
-    if (allRows.length === 0) {
-      return { sensors: [], gateway: getDefaultGateway(), logs: [] };
+// Used by the Settings screen to check a source before saving it
+export const testDataSource = async (source: DataSourceConfig): Promise<{ ok: boolean, rowCount: number, rejectedCount: number, sample?: SheetRow, error?: string }> => {
+    try {
+        const results = validateSourceRows(source, (await fetchSourceRows(source)).rows);
+        const rows = results.filter(r => !r.rejected).map(r => r.row);
+        return { ok: true, rowCount: rows.length, rejectedCount: results.length - rows.length, sample: rows[rows.length - 1] };
+    } catch (error: any) {
+        return { ok: false, rowCount: 0, rejectedCount: 0, error: error?.message || 'Request failed' };
     }
+};
 
-    const rows = allRows;
+const readingKey = (deviceId: string, ts: number) => `${deviceId}|${ts}`;
 
-    // 1. Sort by time (Oldest -> Newest) for history
-    const sortedRows = [...rows]
+// Profiles are looked up once per device for each batch of rows
+const createCalibrationLookup = () => {
+    const profiles: Record<string, CalibrationProfile> = {};
+    return (deviceId: string) => profiles[deviceId] || (profiles[deviceId] = getCalibration(deviceId));
+};
+
+// Rows are validated on the way in, so the level is always a finite number
+const calibratedLevel = (row: SheetRow, profile: CalibrationProfile): number => {
+    return applyCalibration(Number(row["Water Level (cm)"]), profile);
+};
+
+// Converts one device's stored rows (Oldest -> Newest) into filtered
+// chart history points
+export const rowsToHistory = (rows: SheetRow[]): HistoryPoint[] => {
+    const calibrationFor = createCalibrationLookup();
+    return filterHistory(rows.map(row => ({
+        time: row["Gateway Received Time"],
+        ts: parseDate(row["Gateway Received Time"]),
+        level: calibratedLevel(row, calibrationFor(row["Device ID"]))
+    })));
+};
+
+// Merges newly received rows into an existing snapshot without re-sorting
+// or re-grouping the rows it already holds.
+export const mergeRowsIntoSnapshot = (base: SensorSnapshot | null, rows: SheetRow[]): SensorSnapshot => {
+    // 1. Sort the new rows by time (Oldest -> Newest) for history
+    const sortedRows = rows
       .filter(r => r["Gateway Received Time"])
-      .sort((a, b) => parseDate(a["Gateway Received Time"]) - parseDate(b["Gateway Received Time"]));
-    
-    // 2. Group by Device
+      .map(r => ({ row: r, ts: parseDate(r["Gateway Received Time"]) }))
+      .sort((a, b) => a.ts - b.ts);
+
+    if (sortedRows.length === 0) {
+        return base || { sensors: [], gateways: [], logs: [] };
+    }
+
+    // 2. Group by Device, starting from copies of the existing sensors
     const groupedSensors: Record<string, SensorData> = {};
-    
-    // Determine latest system info from the absolute last row
-    let latestGatewayRow = sortedRows.length > 0 ? sortedRows[sortedRows.length - 1] : rows[0];
+    const lastSeen: Record<string, number> = {};
+    const unsorted = new Set<string>();
+    // Oldest new reading per device, where its filtering has to resume
+    const touched: Record<string, number> = {};
+
+    (base?.sensors || []).forEach(s => {
+        groupedSensors[s.id] = { ...s, history: [...s.history] };
+        lastSeen[s.id] = parseDate(s.lastUpdated);
+    });
+
+    // Keys already held by the snapshot, built only if a row could overlap it
+    let existingKeys: Set<string> | null = null;
+    const isDuplicate = (deviceId: string, ts: number) => {
+        if (!base || ts > (lastSeen[deviceId] || 0)) return false;
+        if (!existingKeys) {
+            existingKeys = new Set(base.logs.map(l => readingKey(l["Device ID"], parseDate(l["Gateway Received Time"]))));
+        }
+        return existingKeys.has(readingKey(deviceId, ts));
+    };
 
-    sortedRows.forEach(row => {
+    const acceptedRows: { row: SheetRow, ts: number }[] = [];
+    const calibrationFor = createCalibrationLookup();
+
+    sortedRows.forEach(({ row, ts }) => {
       const deviceId = row["Device ID"];
       if (!deviceId) return;
+      if (isDuplicate(deviceId, ts)) return;
+      acceptedRows.push({ row, ts });
 
-      const rawLevel = Number(row["Water Level (cm)"]);
-      const realLevel = isNaN(rawLevel) ? 0 : rawLevel;
+      const realLevel = calibratedLevel(row, calibrationFor(deviceId));
       const time = row["Gateway Received Time"];
       
       if (!groupedSensors[deviceId]) {
         groupedSensors[deviceId] = {
           id: deviceId,
-          name: mapDeviceNickname(deviceId),
+          name: registerDevice(row).name,
           currentLevel: realLevel,
           lastUpdated: time,
-          status: row["Status"] as any,
+          status: 'Unknown', // assessed once the history is filtered
           history: [],
           raw: row
         };
       }
 
-      groupedSensors[deviceId].currentLevel = realLevel;
-      groupedSensors[deviceId].lastUpdated = time;
-      groupedSensors[deviceId].status = row["Status"] as any;
-      groupedSensors[deviceId].raw = row;
+      const sensor = groupedSensors[deviceId];
+      sensor.history.push({ time, ts, level: realLevel, rawLevel: realLevel });
+      touched[deviceId] = Math.min(touched[deviceId] ?? ts, ts);
 
-      groupedSensors[deviceId].history.push({
-        time: time,
-        level: realLevel
-      });
+      // Another source may have delivered older rows for the same device
+      if (ts < (lastSeen[deviceId] || 0)) {
+        unsorted.add(deviceId);
+        return;
+      }
+
+      lastSeen[deviceId] = ts;
+      sensor.currentLevel = realLevel;
+      sensor.lastUpdated = time;
+      sensor.raw = row;
+    });
+
+    unsorted.forEach(id => {
+        groupedSensors[id].history.sort((a, b) => a.ts - b.ts);
+    });
+
+    // 3. Spike filtering: re-run from the oldest new sample of each device
+    //    that received rows, since new samples complete the window of the
+    //    previous newest points. Earlier points keep their flags.
+    const filterConfig = getFilterConfig();
+    Object.entries(touched).forEach(([id, oldestNew]) => {
+        const sensor = groupedSensors[id];
+        let changedFrom = sensor.history.length;
+        while (changedFrom > 0 && sensor.history[changedFrom - 1].ts >= oldestNew) changedFrom--;
+        sensor.history = filterHistory(sensor.history, filterConfig, changedFrom);
+        const latest = sensor.history[sensor.history.length - 1];
+        sensor.currentLevel = latest.level;
+
+        // Status from the filtered level, so a spike cannot drive the badge.
+        // The crop stage is added later by the dashboard (see App).
+        const { status, assessment } = assessStatus(latest.level, sensor.history, {
+            calibration: calibrationFor(id),
+            reported: sensor.raw["Status"]
+        });
+        sensor.status = status;
+        sensor.assessment = assessment;
     });
 
     const sensors = Object.values(groupedSensors);
 
-    const gateway: GatewayStatus = {
-      network: latestGatewayRow["Network"] || "Offline",
-      simOperator: latestGatewayRow["SIM Operator"] || "N/A",
-      wifiSignal: String(latestGatewayRow["WiFi Strength (dBm)"] || "0"),
-      gsmSignal: String(latestGatewayRow["GSM Strength (RSSI)"] || "0"),
-      sdFree: String(latestGatewayRow["SD Free (MB)"] || "0"),
-      lastBatchUpload: latestGatewayRow["Batch Upload Time"] || latestGatewayRow["Gateway Received Time"] || "N/A",
-      source: latestGatewayRow["Device ID"] // Track which device provided this status
-    };
+    if (acceptedRows.length === 0 && base) return base;
 
-    // 3. Logs (Newest -> Oldest)
-    const logs = [...sortedRows].reverse();
+    // 4. Logs (Newest -> Oldest)
+    const newLogs = acceptedRows.map(r => r.row).reverse();
+    const logs = base && base.logs.length > 0 && acceptedRows.length > 0 && parseDate(base.logs[0]["Gateway Received Time"]) > acceptedRows[0].ts
+        ? [...newLogs, ...base.logs].sort((a, b) => parseDate(b["Gateway Received Time"]) - parseDate(a["Gateway Received Time"]))
+        : [...newLogs, ...(base?.logs || [])];
 
-    return { sensors, gateway, logs };
+    // 5. Gateways the new rows came through, with their upload history
+    const gateways = mergeRowsIntoGateways(base?.gateways || [], acceptedRows);
 
-  } catch (error) {
-    console.error("Critical error processing sensor data:", error);
-    throw error; 
-  }
+    return { sensors, gateways, logs };
 };
 
-export const mapDeviceNickname = (id: string): string => {
-  if (!id) return "Unknown";
-  const lowerId = id.toLowerCase();
-  
-  // LoRa Nodes
-  if (lowerId.includes("lora1")) return "Plot 1";
-  if (lowerId.includes("lora2")) return "Plot 2";
-  if (lowerId.includes("lora3")) return "Plot 3";
-  if (lowerId.includes("lora4")) return "Plot 4";
-  if (lowerId.includes("lora5")) return "Plot 5";
-  
-  // GSM / Standalone Device Mappings
-  if (lowerId.includes("gsm") || lowerId.includes("standalone") || lowerId.includes("sa_") || lowerId.includes("esp32")) return "Standalone Field";
-  
-  return id;
+// Re-derives levels, statuses and histories from the snapshot's raw rows,
+// e.g. after a calibration profile changes
+export const rebuildSnapshot = (snapshot: SensorSnapshot): SensorSnapshot => {
+    return mergeRowsIntoSnapshot(null, snapshot.logs);
+};
+
+// --- LOCAL STORE ---
+
+const storeRows = async (rows: SheetRow[], imported: boolean = false) => {
+    await putReadings(rows
+        .filter(r => r["Device ID"])
+        .map(r => ({ deviceId: r["Device ID"], ts: parseDate(r["Gateway Received Time"]), row: r, ...(imported ? { imported } : {}) })));
+
+    const latest = (await getMeta<Record<string, SheetRow>>('latest_rows')) || {};
+    rows.forEach(r => {
+        const current = latest[r["Device ID"]];
+        if (!current || parseDate(r["Gateway Received Time"]) >= parseDate(current["Gateway Received Time"])) {
+            latest[r["Device ID"]] = r;
+        }
+    });
+    await setMeta('latest_rows', latest);
+};
+
+// Store failures are logged but never fail a refresh. Rows that came from
+// the service worker's cache do not count as a sync.
+const persistRows = async (rows: SheetRow[], synced: boolean = true) => {
+    try {
+        await storeRows(rows);
+        await setMeta('source_cursors', { ...sourceCursors });
+        if (synced) await setMeta('last_sync', Date.now());
+    } catch (e) {
+        console.warn("Failed to write readings to local store", e);
+    }
 };
 
-const getDefaultGateway = (): GatewayStatus => ({
-  network: "Unknown",
-  simOperator: "-",
-  wifiSignal: "-",
-  gsmSignal: "-",
-  sdFree: "-",
-  lastBatchUpload: "-",
-  source: "None"
-});
+// The localStorage blob used before the IndexedDB store; imported once
+const migrateLegacyCache = async () => {
+    const legacy = localStorage.getItem('sensor_cache');
+    if (!legacy) return;
+    try {
+        const { data } = JSON.parse(legacy);
+        if (data && Array.isArray(data.logs)) {
+            await persistRows(data.logs.map((r: SheetRow) => validateRow(r)).filter((r: ValidatedRow) => !r.rejected).map((r: ValidatedRow) => r.row));
+        }
+    } catch (e) {
+        console.warn("Discarding unreadable sensor_cache", e);
+    }
+    localStorage.removeItem('sensor_cache');
+};
+
+// Rebuilds a snapshot from the local store: the last `days` of readings plus
+// the latest row of every device, so quiet plots still appear offline.
+// Restores the source cursors so the next refresh is incremental.
+export const loadCachedSnapshot = async (days: number = 7): Promise<{ snapshot: SensorSnapshot, lastSync: number } | null> => {
+    try {
+        await migrateLegacyCache();
+        await pruneReadings();
+
+        const from = Date.now() - days * 24 * 60 * 60 * 1000;
+        const recent = (await queryReadings({ from })).map(r => r.row);
+        const latest = Object.values((await getMeta<Record<string, SheetRow>>('latest_rows')) || {});
+        const recentKeys = new Set(recent.map(r => readingKey(r["Device ID"], parseDate(r["Gateway Received Time"]))));
+        const rows = [...latest.filter(r => !recentKeys.has(readingKey(r["Device ID"], parseDate(r["Gateway Received Time"])))), ...recent];
+
+        if (rows.length === 0) return null;
+
+        const cursors = (await getMeta<Record<string, number>>('source_cursors')) || {};
+        resetCursors();
+        Object.assign(sourceCursors, cursors);
+
+        return {
+            snapshot: mergeRowsIntoSnapshot(null, rows),
+            lastSync: (await getMeta<number>('last_sync')) || 0
+        };
+    } catch (e) {
+        console.warn("Local store unavailable", e);
+        return null;
+    }
+};
+
+// Writes validated rows from a CSV import, skipping readings the store
+// already holds. Returns the rows that were new.
+export const importRows = async (rows: SheetRow[]): Promise<{ added: SheetRow[], duplicates: number }> => {
+    const byDevice: Record<string, { row: SheetRow, ts: number }[]> = {};
+    rows.forEach(row => {
+        const ts = parseDate(row["Gateway Received Time"]);
+        (byDevice[row["Device ID"]] = byDevice[row["Device ID"]] || []).push({ row, ts });
+    });
+
+    const added: SheetRow[] = [];
+    let duplicates = 0;
+
+    for (const [deviceId, items] of Object.entries(byDevice)) {
+        const from = items.reduce((min, i) => Math.min(min, i.ts), Infinity);
+        const to = items.reduce((max, i) => Math.max(max, i.ts), 0);
+        const existing = await queryReadings({ deviceId, from, to });
+        const seen = new Set(existing.map(r => r.ts));
+        items.forEach(({ row, ts }) => {
+            // Also drops repeats within the file itself
+            if (seen.has(ts)) {
+                duplicates++;
+                return;
+            }
+            seen.add(ts);
+            added.push(row);
+        });
+    }
+
+    await storeRows(added, true);
+    return { added, duplicates };
+};
+
+// Range query used by the chart and logs views (Oldest -> Newest)
+export const queryStoredRows = async (options: { deviceId?: string, from?: number, to?: number }): Promise<SheetRow[]> => {
+    const readings = await queryReadings(options);
+    return readings.map(r => r.row);
+};
+
+interface FetchOptions {
+    // Ignore the cursors and download every row again
+    full?: boolean;
+    // Snapshot the new rows are merged into
+    previous?: SensorSnapshot | null;
+    // Also fetch sources that are waiting out a backoff (manual refresh)
+    force?: boolean;
+    // Cancels every request of this refresh
+    signal?: AbortSignal;
+}
+
+export const fetchSensorData = async (options: FetchOptions = {}): Promise<SensorSnapshot> => {
+  try {
+    const previous = options.full ? null : options.previous || null;
+    if (!previous) resetCursors();
+
+    const activeSources = getDataSources().filter(isSourceConfigured);
+
+    if (activeSources.length === 0) {
+        console.warn("No data sources enabled in Settings");
+        return { sensors: [], gateways: [], logs: [] };
+    }
+
+    // Sources waiting out a backoff are skipped, not failed: one source in
+    // backoff must not send every refresh down the offline path
+    let attemptedSources = 0;
+    let failedSources = 0;
+    let liveSources = 0;
+    const now = Date.now();
+    const force = options.force || options.full;
+
+    // Fetch from all sources in parallel. Each returns its rows, the cursor
+    // they take it to and what the quality report should count, applied
+    // only once the refresh is kept.
+    const fetchPromises = activeSources.map(async (source): Promise<{ rows: SheetRow[], cursor?: number, validated?: ValidatedRow[] }> => {
+        const since = sourceCursors[source.id];
+        const backoff = sourceBackoff[source.id];
+        if (backoff && backoff.retryAt > now && !force) return { rows: [] };
+        attemptedSources++;
+        const started = Date.now();
+        try {
+            const response = await fetchSourceRows(source, since, options.signal);
+            const results = validateSourceRows(source, response.rows);
+            // Rejected rows without a readable time cannot be placed against
+            // the cursor; the quality report de-duplicates those itself
+            const fresh = since
+                ? results.filter(r => r.ts > since || (r.rejected && r.ts === 0))
+                : results;
+
+            const accepted = fresh.filter(r => !r.rejected);
+            // A cached copy keeps its rows but says nothing about the source
+            if (!response.cached) {
+                recordSuccess(source.id, { latencyMs: response.latencyMs, status: response.status, rowCount: accepted.length, rejected: fresh.length - accepted.length });
+                delete sourceBackoff[source.id];
+                liveSources++;
+            }
+            // Rejected rows move the cursor too, or they would come back on
+            // every refresh; a rejected future time must not skip real rows
+            let cursor = sourceCursors[source.id] || 0;
+            fresh.forEach(r => {
+                if ((!r.rejected || r.ts <= now) && r.ts > cursor) cursor = r.ts;
+            });
+            return { rows: accepted.map(r => r.row), cursor, validated: fresh };
+        } catch (error: any) {
+            // A cancelled refresh says nothing about the source
+            if (error?.name === 'AbortError') throw error;
+            console.warn(`Failed to fetch from source: ${source.name} (${source.url})`, error);
+            recordFailure(source.id, error, Date.now() - started);
+            noteFailure(source.id);
+            failedSources++;
+            return { rows: [] };
+        }
+    });
+
+    const results = await Promise.all(fetchPromises);
+    if (options.signal?.aborted) throw abortError();
+
+    if (attemptedSources > 0 && failedSources === attemptedSources) {
+        throw new Error("No data received from gateway");
+    }
+
+    // Not before the abort check: a cancelled refresh's rows are dropped, so
+    // neither the cursors nor the quality report may move past them
+    activeSources.forEach((source, i) => {
+        const { cursor, validated } = results[i];
+        if (validated) recordValidation(source.id, validated);
+        if (cursor) sourceCursors[source.id] = cursor;
+    });
+    const freshRows = results.flatMap(r => r.rows);
+    await persistRows(freshRows, liveSources > 0);
+
+    return { ...mergeRowsIntoSnapshot(previous, freshRows), live: liveSources > 0 };
+
+  } catch (error: any) {
+    if (error?.name !== 'AbortError') console.error("Critical error processing sensor data:", error);
+    throw error; 
+  }
+};
@@ -0,0 +1,146 @@
+import { SheetRow } from '../types';
+import { CalibrationProfile } from './calibrationService';
+import { isStandaloneRow } from './gatewayService';
+
+// --- DEVICE REGISTRY ---
+// One record per field device: the name shown everywhere, how it reaches the
+// sheet and what is known about its installation. Devices are registered the
+// first time their readings arrive and can be edited from Settings.
+
+export type Transport = 'LoRa' | 'GSM' | 'WiFi';
+
+export const TRANSPORTS: Transport[] = ['LoRa', 'GSM', 'WiFi'];
+
+export interface DeviceRecord {
+  id: string;
+  name: string;
+  transport: Transport;
+  installedOn?: string; // YYYY-MM-DD
+  plot?: string;
+  location?: { lat: number, lon: number };
+  calibration?: CalibrationProfile; // unset = default pipe
+  notes?: string;
+}
+
+const STORAGE_KEY = 'device_registry';
+
+// Stored before the registry existed
+const LEGACY_NAMES_KEY = 'sensor_custom_names';
+const LEGACY_CALIBRATION_PREFIX = 'calibration_';
+
+// Parsed once per page load; every write goes through saveRegistry
+let cache: Record<string, DeviceRecord> | null = null;
+
+const saveRegistry = (registry: Record<string, DeviceRecord>) => {
+  cache = registry;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(registry));
+};
+
+// Custom names and calibration profiles become registry records, with the
+// transport guessed from the ID as the dashboard filters used to
+const migrateLegacy = (): Record<string, DeviceRecord> => {
+  const registry: Record<string, DeviceRecord> = {};
+  const ensure = (id: string) => registry[id] || (registry[id] = { id, name: defaultName(id, legacyTransport(id), registry), transport: legacyTransport(id) });
+
+  try {
+    const names = JSON.parse(localStorage.getItem(LEGACY_NAMES_KEY) || '{}');
+    Object.entries(names).forEach(([id, name]) => { if (typeof name === 'string' && name.trim()) ensure(id).name = name.trim(); });
+  } catch (e) {
+    console.error("Failed to migrate custom names", e);
+  }
+
+  const calibrationKeys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(LEGACY_CALIBRATION_PREFIX)) calibrationKeys.push(key);
+  }
+  calibrationKeys.forEach(key => {
+    try {
+      ensure(key.slice(LEGACY_CALIBRATION_PREFIX.length)).calibration = JSON.parse(localStorage.getItem(key) || '');
+    } catch (e) {
+      console.error("Failed to migrate calibration profile", key, e);
+    }
+  });
+
+  saveRegistry(registry);
+  localStorage.removeItem(LEGACY_NAMES_KEY);
+  calibrationKeys.forEach(key => localStorage.removeItem(key));
+  return registry;
+};
+
+const loadRegistry = (): Record<string, DeviceRecord> => {
+  if (cache) return cache;
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved === null) return migrateLegacy();
+  try {
+    cache = JSON.parse(saved) || {};
+  } catch (e) {
+    console.error("Failed to parse device registry", e);
+    cache = {};
+  }
+  return cache!;
+};
+
+// --- DEFAULTS ---
+
+// The names the dashboard used before the registry: "lora1" -> "Plot 1"
+const legacyName = (id: string): string => {
+  const plot = /lora(\d+)/i.exec(id);
+  return plot ? `Plot ${plot[1]}` : id;
+};
+
+const legacyTransport = (id: string): Transport => id.toLowerCase().includes('lora') ? 'LoRa' : 'GSM';
+
+export const inferTransport = (row: SheetRow): Transport => {
+  if (!isStandaloneRow(row)) return 'LoRa';
+  return String(row["Network"]).toLowerCase().includes('wifi') ? 'WiFi' : 'GSM';
+};
+
+// Standalone units used to share one name; each now gets its own number
+const defaultName = (id: string, transport: Transport, registry: Record<string, DeviceRecord>): string => {
+  const legacy = legacyName(id);
+  if (legacy !== id || transport === 'LoRa') return legacy;
+  const taken = new Set(Object.values(registry).map(d => d.name));
+  let n = 1;
+  while (taken.has(`Standalone Field ${n}`)) n++;
+  return `Standalone Field ${n}`;
+};
+
+// --- ACCESS ---
+
+export const getDevices = (): DeviceRecord[] => {
+  return Object.values(loadRegistry()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const getDevice = (id: string): DeviceRecord | undefined => loadRegistry()[id];
+
+export const deviceName = (id: string): string => {
+  if (!id) return "Unknown";
+  return getDevice(id)?.name || legacyName(id);
+};
+
+export const deviceTransport = (id: string): Transport => getDevice(id)?.transport || legacyTransport(id);
+
+// Called on ingest so every device that has reported has a record
+export const registerDevice = (row: SheetRow): DeviceRecord => {
+  const registry = loadRegistry();
+  const id = row["Device ID"];
+  if (registry[id]) return registry[id];
+  const transport = inferTransport(row);
+  const record: DeviceRecord = { id, name: defaultName(id, transport, registry), transport };
+  saveRegistry({ ...registry, [id]: record });
+  return record;
+};
+
+// Empty strings clear optional fields; an empty name restores the default
+export const updateDevice = (id: string, patch: Partial<Omit<DeviceRecord, 'id'>>) => {
+  const registry = loadRegistry();
+  const current = registry[id] || { id, name: legacyName(id), transport: legacyTransport(id) };
+  const record: DeviceRecord = { ...current, ...patch, id };
+  if (!record.name || !record.name.trim()) record.name = defaultName(id, record.transport, { ...registry, [id]: { ...record, name: '' } });
+  else record.name = record.name.trim();
+  (['installedOn', 'plot', 'notes'] as const).forEach(field => { if (!record[field]) delete record[field]; });
+  if (!record.calibration) delete record.calibration;
+  if (!record.location) delete record.location;
+  saveRegistry({ ...registry, [id]: record });
+};
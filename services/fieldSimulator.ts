@@ -0,0 +1,235 @@
+import { SheetRow } from '../types';
+
+// --- FIELD SIMULATOR ---
+// Generates gateway rows for a set of virtual plots so the dashboard can be
+// demonstrated and tested without live hardware. The simulation always runs
+// forward from `startedAt` with one seeded random stream, so the same config
+// produces the same rows on every refresh and on every machine, and new rows
+// continue where the previous refresh left off.
+
+export interface SimulatorConfig {
+  seed: number;
+  plots: number;           // LoRa plots; one standalone GSM unit is added
+  intervalMinutes: number; // node transmission schedule
+  startedAt: number;       // epoch ms the simulated season starts
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Only the most recent window is emitted on a full load
+const HISTORY_DAYS = 14;
+
+export const createSimulatorConfig = (partial: Partial<SimulatorConfig> = {}): SimulatorConfig => ({
+  seed: partial.seed ?? 42,
+  plots: partial.plots ?? 4,
+  intervalMinutes: partial.intervalMinutes ?? 15,
+  startedAt: partial.startedAt ?? Date.now() - HISTORY_DAYS * DAY_MS
+});
+
+// mulberry32: small, fast and good enough for a demo
+const createRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Adaptive data rate as the gateway would set it from the link margin
+const spreadingFactor = (snr: number): number => {
+  if (snr > 5) return 7;
+  if (snr > 0) return 9;
+  if (snr > -5) return 10;
+  return 12;
+};
+
+// Same rules as the gateway firmware on a standard 30 cm pipe
+const firmwareStatus = (level: number): string => {
+  if (level > 25) return 'Flood Alert';
+  if (level > 20) return 'Excess';
+  if (level < 5) return 'Low';
+  return 'Good';
+};
+
+interface PlotState {
+  id: string;
+  network: 'WiFi' | 'GSM';
+  level: number;
+  drainRate: number;   // cm/h lost to evapotranspiration and seepage
+  fillTarget: number;  // gauge level the current fill stops at
+  filling: boolean;
+  outageUntil: number; // no transmissions before this time
+  dropoutChance: number;
+  signal: number;      // GSM units only (CSQ); LoRa rows carry the gateway's
+  sdFree: number;
+  battery: number;     // volts
+  batteryDrain: number; // volts per day
+  linkBase: number;    // LoRa dBm at the gateway for this site; unused for GSM
+  linkRssi: number;
+  frameCounter: number; // uplinks sent, whether or not they arrived
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, n));
+
+// Simulates from `startedAt` to `now` and returns rows newer than `since`
+// (Oldest -> Newest), limited to the last HISTORY_DAYS.
+export const generateSimulatedRows = (config: SimulatorConfig, now: number = Date.now(), since: number = 0): SheetRow[] => {
+  const random = createRandom(config.seed);
+  const between = (min: number, max: number) => min + random() * (max - min);
+  const stepMs = Math.max(1, config.intervalMinutes) * 60 * 1000;
+  const stepHours = stepMs / 3600000;
+  const emitFrom = Math.max(since + 1, now - HISTORY_DAYS * DAY_MS);
+
+  // 1. The LoRa gateway: its WiFi uplink and SD card are reported on every
+  //    row it relays
+  const relay = { signal: between(-75, -55), sdFree: between(3000, 7000) };
+
+  //    Plots: LoRa nodes behind the gateway plus one standalone GSM unit.
+  //    The last LoRa node has a weak antenna and drops out often; the
+  //    second has an old battery close to its cutoff.
+  const plots: PlotState[] = [];
+  for (let i = 1; i <= Math.max(1, config.plots); i++) {
+    const weak = i === config.plots && config.plots > 1;
+    plots.push({
+      id: `lora${i}`,
+      network: 'WiFi',
+      level: between(10, 20),
+      drainRate: between(0.15, 0.35),
+      fillTarget: between(18, 22),
+      filling: false,
+      outageUntil: 0,
+      dropoutChance: weak ? 0.01 : 0.001,
+      signal: 0,
+      sdFree: 0,
+      battery: i === 2 ? between(3.6, 3.7) : between(3.9, 4.15),
+      batteryDrain: i === 2 ? between(0.012, 0.016) : between(0.004, 0.008),
+      linkBase: weak ? between(-118, -112) : between(-100, -80),
+      linkRssi: 0,
+      frameCounter: Math.floor(between(0, 5000))
+    });
+    plots[plots.length - 1].linkRssi = plots[plots.length - 1].linkBase;
+  }
+  plots.push({
+    id: 'gsm_standalone_01',
+    network: 'GSM',
+    level: between(10, 20),
+    drainRate: between(0.2, 0.4),
+    fillTarget: between(17, 21),
+    filling: false,
+    outageUntil: 0,
+    dropoutChance: 0.002,
+    signal: between(12, 24),
+    sdFree: between(1500, 3000),
+    battery: between(3.8, 4.1),
+    batteryDrain: between(0.05, 0.08), // made up by the solar panel in daylight
+    linkBase: 0,
+    linkRssi: 0,
+    frameCounter: 0
+  });
+
+  // 2. Weather shared by all plots: rain showers and the odd storm
+  let rainUntil = 0;
+  let rainRate = 0; // cm/h
+
+  const rows: SheetRow[] = [];
+  const start = Math.floor(config.startedAt / stepMs) * stepMs;
+
+  for (let t = start; t <= now; t += stepMs) {
+    if (t >= rainUntil && random() < 0.004) {
+      const storm = random() < 0.3;
+      rainUntil = t + between(1, storm ? 8 : 4) * 3600000;
+      rainRate = storm ? between(3, 6) : between(0.4, 1.5);
+    }
+    const raining = t < rainUntil;
+
+    // Daytime evaporation is about twice the night-time loss
+    const hour = new Date(t).getUTCHours();
+    const daylight = hour >= 1 && hour <= 12;
+    const sun = daylight ? 1.5 : 0.6;
+    // Enclosures peak mid-afternoon (UTC+5:30)
+    const ambient = 27 + 8 * Math.cos(((hour - 8) / 24) * 2 * Math.PI);
+
+    relay.signal = clamp(relay.signal + between(-2, 2), -95, -45);
+    relay.sdFree = Math.max(0, relay.sdFree - between(0, 0.5) * plots.length);
+
+    plots.forEach(plot => {
+      // 3. Water balance: drawdown, irrigation fills and rain
+      plot.level -= plot.drainRate * sun * stepHours * between(0.7, 1.3);
+      if (raining) plot.level += rainRate * stepHours * between(0.6, 1.2);
+
+      // Farmers notice a dry plot late, and now and then overfill it
+      if (!plot.filling && plot.level < 7 && !raining && random() < 0.02) {
+        plot.filling = true;
+        plot.fillTarget = random() < 0.15 ? between(24, 28) : between(17, 22);
+      }
+      if (plot.filling) {
+        plot.level += between(4, 7) * stepHours;
+        if (plot.level >= plot.fillTarget) plot.filling = false;
+      }
+      // Bunds overflow just below the top of the pipe
+      plot.level = clamp(plot.level, 0, 29.5);
+
+      // 4. Telemetry drift
+      if (plot.network === 'GSM') {
+        plot.signal = clamp(Math.round(plot.signal + between(-2, 2)), 2, 31);
+        plot.sdFree = Math.max(0, plot.sdFree - between(0, 0.5));
+      }
+      plot.battery -= plot.batteryDrain * (stepHours / 24) * between(0.8, 1.2);
+      if (plot.network === 'GSM' && daylight) plot.battery = Math.min(4.2, plot.battery + 0.12 * (stepHours / 12));
+      plot.battery = Math.max(2.8, plot.battery);
+      // Fading wanders around the site's usual link budget
+      if (plot.network === 'WiFi') plot.linkRssi += (plot.linkBase - plot.linkRssi) * 0.05 + between(-1.5, 1.5);
+
+      // 5. Dropouts: the node is silent, the field keeps changing
+      if (t >= plot.outageUntil && random() < plot.dropoutChance) {
+        plot.outageUntil = t + between(1, 12) * 3600000;
+      }
+      const silent = t < plot.outageUntil;
+
+      // Occasional single-sample spike from the ultrasonic sensor. Drawn
+      // before the emit check so every call consumes the same random stream.
+      const spike = random() < 0.005 ? between(-12, 12) : 0;
+      const noise = between(-0.2, 0.2);
+      const jitterMs = Math.floor(random() * 20) * 1000;
+      const voltNoise = between(-0.02, 0.02);
+      const temp = ambient + between(-1, 1) + (plot.network === 'GSM' ? 4 : 0);
+      const rssi = plot.linkRssi + between(-3, 3);
+      const snr = clamp(rssi + 112 + between(-2, 2), -20, 10);
+      // Uplinks near the demodulation floor are lost on the air
+      const lostOnAir = plot.network === 'WiFi' && random() < (snr < -5 ? 0.12 : 0.01);
+      plot.frameCounter = (plot.frameCounter + 1) % 65536;
+
+      if (silent || lostOnAir || t < emitFrom) return;
+
+      const level = round1(clamp(plot.level + spike + noise, 0, 30));
+      const received = new Date(t + jitterMs).toISOString();
+      const batch = new Date(Math.min(now, Math.ceil(t / (10 * 60 * 1000)) * 10 * 60 * 1000)).toISOString();
+
+      rows.push({
+        "Gateway Received Time": received,
+        "Device ID": plot.id,
+        "Transmitter Data": plot.network === 'GSM' ? 'Direct' : `L:${level};F:${plot.frameCounter}`,
+        "Water Level (cm)": level,
+        "Status": firmwareStatus(level),
+        "Network": plot.network,
+        "Batch Upload Time": plot.network === 'GSM' ? received : batch,
+        "SIM Operator": plot.network === 'GSM' ? 'Dialog' : '-',
+        "WiFi Strength (dBm)": plot.network === 'WiFi' ? Math.round(relay.signal) : 0,
+        "GSM Strength (RSSI)": plot.network === 'GSM' ? plot.signal : 0,
+        "SD Free (MB)": Math.round(plot.network === 'WiFi' ? relay.sdFree : plot.sdFree),
+        "Battery (V)": round2(plot.battery + voltNoise),
+        "Board Temp (°C)": round1(temp),
+        "LoRa RSSI (dBm)": plot.network === 'WiFi' ? Math.round(rssi) : undefined,
+        "LoRa SNR (dB)": plot.network === 'WiFi' ? round1(snr) : undefined,
+        "Spreading Factor": plot.network === 'WiFi' ? spreadingFactor(snr) : undefined
+      });
+    });
+  }
+
+  return rows;
+};
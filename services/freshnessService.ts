@@ -0,0 +1,137 @@
+import { SensorData, HistoryPoint, Freshness } from '../types';
+import { parseTimestamp, getZonedParts } from './timeService';
+
+// --- REPORTING INTERVALS & STALE SENSORS ---
+// Each node transmits on a fixed schedule. The interval is either set per
+// device in the detail view or learned from the gaps in its history. A
+// reading stops counting as live once several transmissions are missed.
+
+const DEFAULT_INTERVAL_MS = 15 * 60 * 1000;
+export const STALE_AFTER_MISSES = 3;
+const OFFLINE_AFTER_MISSES = 12;
+
+// Gaps shorter than this are duplicate uploads, not the schedule
+const MIN_INTERVAL_MS = 10 * 1000;
+const LEARN_SAMPLES = 50;
+
+const storageKey = (deviceId: string) => `report_interval_${deviceId}`;
+
+// Minutes, or null when the interval is learned
+export const getConfiguredInterval = (deviceId: string): number | null => {
+  const saved = Number(localStorage.getItem(storageKey(deviceId)));
+  return saved > 0 ? saved : null;
+};
+
+export const saveConfiguredInterval = (deviceId: string, minutes: number | null) => {
+  if (minutes && minutes > 0) localStorage.setItem(storageKey(deviceId), String(minutes));
+  else localStorage.removeItem(storageKey(deviceId));
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Median gap between recent readings; outages barely move the median
+export const learnInterval = (history: HistoryPoint[]): number | null => {
+  const recent = history.slice(-(LEARN_SAMPLES + 1));
+  const gaps: number[] = [];
+  for (let i = 1; i < recent.length; i++) {
+    const gap = recent[i].ts - recent[i - 1].ts;
+    if (gap >= MIN_INTERVAL_MS) gaps.push(gap);
+  }
+  return gaps.length >= 3 ? median(gaps) : null;
+};
+
+export const getExpectedInterval = (sensor: SensorData): number => {
+  const configured = getConfiguredInterval(sensor.id);
+  if (configured) return configured * 60 * 1000;
+  return learnInterval(sensor.history) || DEFAULT_INTERVAL_MS;
+};
+
+export const assessFreshness = (sensor: SensorData, now: number = Date.now()): Freshness => {
+  const last = parseTimestamp(sensor.lastUpdated);
+  if (last === 0) return 'offline';
+  const missed = (now - last) / getExpectedInterval(sensor);
+  if (missed >= OFFLINE_AFTER_MISSES) return 'offline';
+  if (missed >= STALE_AFTER_MISSES) return 'stale';
+  return 'live';
+};
+
+export const withFreshness = (sensors: SensorData[], now: number = Date.now()): SensorData[] => {
+  return sensors.map(s => ({
+    ...s,
+    freshness: assessFreshness(s, now),
+    expectedInterval: getExpectedInterval(s)
+  }));
+};
+
+// --- DAILY RELIABILITY ---
+
+export interface DailyReliability {
+  day: string;      // YYYY-MM-DD in the display time zone
+  received: number;
+  gaps: number;     // separate outages first seen this day
+  missed: number;   // transmissions those outages swallowed
+  reliability: number; // received / (received + missed), 0-1
+}
+
+// A silence longer than this many intervals counts as a gap
+export const GAP_AFTER_INTERVALS = 1.5;
+
+export const dayKey = (ts: number) => {
+  const p = getZonedParts(ts);
+  const pad = (n: number) => n < 10 ? '0' + n : String(n);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+};
+
+// Per-day counts for the last `days` days (Newest -> Oldest). A gap is any
+// silence longer than 1.5 intervals; the silence since the last reading
+// counts too, so a node that died today shows up today. Each missed
+// transmission is charged to the day it was due, so a gap spanning several
+// days (or starting before the window) shows on every day it covers.
+export const dailyGaps = (history: HistoryPoint[], intervalMs: number, days: number = 7, now: number = Date.now()): DailyReliability[] => {
+  const buckets: Record<string, DailyReliability> = {};
+  const order: string[] = [];
+  for (let i = 0; i < days; i++) {
+    const key = dayKey(now - i * 24 * 60 * 60 * 1000);
+    if (!buckets[key]) {
+      buckets[key] = { day: key, received: 0, gaps: 0, missed: 0, reliability: 1 };
+      order.push(key);
+    }
+  }
+
+  const points = history.filter(p => p.ts > 0);
+  const windowStart = now - days * 24 * 60 * 60 * 1000;
+  const addGap = (from: number, to: number) => {
+    const gap = to - from;
+    if (gap <= intervalMs * GAP_AFTER_INTERVALS) return;
+    const slots = Math.round(gap / intervalMs) - 1;
+    // Skip the slots that fall before the window
+    const first = Math.max(1, Math.ceil((windowStart - from) / intervalMs));
+    let counted = false;
+    for (let k = first; k <= slots; k++) {
+      const bucket = buckets[dayKey(from + k * intervalMs)];
+      if (!bucket) continue;
+      if (!counted) {
+        bucket.gaps++;
+        counted = true;
+      }
+      bucket.missed++;
+    }
+  };
+
+  points.forEach((p, i) => {
+    const bucket = buckets[dayKey(p.ts)];
+    if (bucket) bucket.received++;
+    if (i > 0) addGap(points[i - 1].ts, p.ts);
+  });
+  if (points.length > 0) addGap(points[points.length - 1].ts, now);
+
+  return order.map(key => {
+    const b = buckets[key];
+    const total = b.received + b.missed;
+    return { ...b, reliability: total > 0 ? b.received / total : 0 };
+  });
+};
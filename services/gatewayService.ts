@@ -0,0 +1,103 @@
+import { Gateway, GatewaySample, GatewayStatus, SheetRow } from '../types';
+import { getDataSources } from './sourceRegistry';
+import { parseTimestamp } from './timeService';
+
+// --- GATEWAYS ---
+// Each LoRa gateway sheet and each standalone GSM unit is tracked as its own
+// gateway: the nodes it relays and a history of the network, operator,
+// signal and SD card values it reports with every upload.
+
+// Rows stored before gateways were tracked all came from the one LoRa sheet
+export const LEGACY_GATEWAY_ID = 'lora-gateway';
+
+// Standalone units post their own readings and are their own gateway. The
+// source's adapter decides this on ingest (see assignGateway); rows stored
+// before gateways were tracked only have the legacy "Direct" marker.
+export const isStandaloneRow = (row: SheetRow): boolean => {
+  if (row["Gateway ID"]) return row["Gateway ID"] === row["Device ID"];
+  return row["Transmitter Data"] === 'Direct';
+};
+
+export const gatewayIdFor = (row: SheetRow): string => {
+  if (row["Gateway ID"]) return row["Gateway ID"];
+  return isStandaloneRow(row) ? row["Device ID"] : LEGACY_GATEWAY_ID;
+};
+
+// Called on ingest so the stored row remembers which source relayed it
+export const assignGateway = (row: SheetRow, sourceId: string, standalone: boolean): SheetRow => {
+  if (row["Gateway ID"]) return row;
+  return { ...row, "Gateway ID": standalone ? row["Device ID"] : sourceId };
+};
+
+// Upload history is capped per gateway (about two weeks at 10-minute batches)
+const MAX_SAMPLES = 2000;
+
+const sampleValue = (value: number | string): number | null => {
+  const n = Number(value);
+  return value === '' || value === '-' || !isFinite(n) ? null : n;
+};
+
+const toSample = (row: SheetRow, ts: number): GatewaySample => ({
+  ts,
+  network: row["Network"] || "Unknown",
+  simOperator: row["SIM Operator"] || "-",
+  wifiSignal: sampleValue(row["WiFi Strength (dBm)"]),
+  gsmSignal: sampleValue(row["GSM Strength (RSSI)"]),
+  sdFree: sampleValue(row["SD Free (MB)"])
+});
+
+export const toGatewayStatus = (row: SheetRow, name: string): GatewayStatus => ({
+  network: row["Network"] || "Offline",
+  simOperator: row["SIM Operator"] || "N/A",
+  wifiSignal: String(row["WiFi Strength (dBm)"] || "0"),
+  gsmSignal: String(row["GSM Strength (RSSI)"] || "0"),
+  sdFree: String(row["SD Free (MB)"] || "0"),
+  lastBatchUpload: row["Batch Upload Time"] || row["Gateway Received Time"] || "N/A",
+  source: name
+});
+
+const gatewayName = (id: string, standalone: boolean): string => {
+  if (standalone) return id;
+  return getDataSources().find(s => s.id === id)?.name || id;
+};
+
+// Merges rows (with their parsed received time) into copies of the existing
+// gateways. A batch upload is one sample however many node rows it carried.
+export const mergeRowsIntoGateways = (base: Gateway[], rows: { row: SheetRow, ts: number }[]): Gateway[] => {
+  const gateways: Record<string, Gateway> = {};
+  base.forEach(g => { gateways[g.id] = { ...g, nodes: [...g.nodes], history: [...g.history] }; });
+  const unsorted = new Set<string>();
+
+  rows.forEach(({ row, ts }) => {
+    const id = gatewayIdFor(row);
+    const standalone = isStandaloneRow(row);
+    if (!gateways[id]) {
+      const name = gatewayName(id, standalone);
+      gateways[id] = { id, name, kind: standalone ? 'standalone' : 'lora-gateway', nodes: [], status: toGatewayStatus(row, name), lastSeen: 0, history: [] };
+    }
+    const gateway = gateways[id];
+    if (!gateway.nodes.includes(row["Device ID"])) gateway.nodes.push(row["Device ID"]);
+
+    // Batch uploads carry the gateway's own clock; standalone rows are realtime
+    const uploadTs = parseTimestamp(row["Batch Upload Time"]) || ts;
+    const last = gateway.history[gateway.history.length - 1];
+    if (!last || uploadTs > last.ts) {
+      gateway.history.push(toSample(row, uploadTs));
+    } else if (uploadTs < last.ts && !gateway.history.some(s => s.ts === uploadTs)) {
+      gateway.history.push(toSample(row, uploadTs));
+      unsorted.add(id);
+    }
+
+    if (uploadTs >= gateway.lastSeen) {
+      gateway.lastSeen = uploadTs;
+      gateway.status = toGatewayStatus(row, gateway.name);
+    }
+  });
+
+  // Fixed order so the list does not jump between refreshes
+  return Object.values(gateways).map(g => {
+    if (unsorted.has(g.id)) g.history.sort((a, b) => a.ts - b.ts);
+    if (g.history.length > MAX_SAMPLES) g.history = g.history.slice(-MAX_SAMPLES);
+    return g;
+  }).sort((a, b) => a.kind !== b.kind ? (a.kind === 'lora-gateway' ? -1 : 1) : a.name.localeCompare(b.name));
+};
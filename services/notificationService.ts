@@ -0,0 +1,154 @@
+import { PlotAlert, PlotAlertKind, PLOT_ALERT_LABELS } from './plotAlerts';
+import { getZonedParts } from './timeService';
+
+// --- NOTIFICATIONS ---
+// Opt-in browser notifications for plot alerts. Each alert is announced once
+// when it starts; alerts for the same plot share one notification (tagged by
+// plot) that opens the plot's detail page. During quiet hours nothing is
+// shown, and alerts still active when they end are announced then.
+
+export interface NotificationSettings {
+  enabled: boolean;
+  kinds: Record<PlotAlertKind, boolean>;
+  quietHours: boolean;
+  quietStart: string; // HH:mm in the display time zone
+  quietEnd: string;
+}
+
+const SETTINGS_KEY = 'notification_settings';
+const NOTIFIED_KEY = 'notified_alerts';
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  kinds: { flood: true, low: true, stale: true, rule: true },
+  quietHours: false,
+  quietStart: '21:00',
+  quietEnd: '06:00'
+};
+
+export const isNotificationSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const getNotificationSettings = (): NotificationSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (saved) return { ...DEFAULT_NOTIFICATION_SETTINGS, ...saved, kinds: { ...DEFAULT_NOTIFICATION_SETTINGS.kinds, ...saved.kinds } };
+  } catch (e) {
+    console.error("Failed to parse notification settings", e);
+  }
+  return DEFAULT_NOTIFICATION_SETTINGS;
+};
+
+export const saveNotificationSettings = (settings: NotificationSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Asks the browser once; returns whether notifications may be shown
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!isNotificationSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+const toMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+// The window may wrap past midnight (21:00 - 06:00)
+export const isQuietTime = (settings: NotificationSettings, now: number = Date.now()): boolean => {
+  if (!settings.quietHours) return false;
+  const p = getZonedParts(now);
+  const minute = p.hour * 60 + p.minute;
+  const start = toMinutes(settings.quietStart);
+  const end = toMinutes(settings.quietEnd);
+  if (start === end) return false;
+  return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+};
+
+// Link that opens the app on a plot's detail page
+export const plotLink = (plotId: string): string => `${location.origin}${location.pathname}?plot=${encodeURIComponent(plotId)}`;
+
+const show = async (title: string, options: NotificationOptions & { data?: any }) => {
+  // Through the service worker where possible so clicks reach a closed app
+  if ('serviceWorker' in navigator) {
+    const registration = await navigator.serviceWorker.getRegistration();
+    if (registration) return registration.showNotification(title, options);
+  }
+  const notification = new Notification(title, options);
+  notification.onclick = () => { window.focus(); location.href = options.data.url; };
+};
+
+const showPlotNotification = (alerts: PlotAlert[]) => {
+  const first = alerts[0];
+  const title = `${first.plotName}: ${alerts.map(a => a.label || PLOT_ALERT_LABELS[a.kind]).join(', ')}`;
+  return show(title, {
+    body: alerts.map(a => a.message).join('\n'),
+    tag: `plot-${first.plotId}`,
+    icon: 'https://cdn-icons-png.flaticon.com/512/3105/3105807.png',
+    data: { url: plotLink(first.plotId), plotId: first.plotId }
+  });
+};
+
+const getNotified = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(NOTIFIED_KEY) || '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+// Called with the active alerts after every refresh
+export const notifyPlotAlerts = async (alerts: PlotAlert[], now: number = Date.now()) => {
+  const settings = getNotificationSettings();
+  const activeKeys = new Set(alerts.map(a => a.key));
+  // Alerts that ended can be announced again when they return
+  const notified = getNotified().filter(key => activeKeys.has(key));
+
+  const pending = settings.enabled && isNotificationSupported() && Notification.permission === 'granted' && !isQuietTime(settings, now)
+    ? alerts.filter(a => settings.kinds[a.kind] && !notified.includes(a.key))
+    : [];
+
+  // A plot's notification replaces the previous one, so it lists every
+  // alert active on the plot, not only the new ones
+  const plots = Array.from(new Set(pending.map(a => a.plotId)));
+  for (const plotId of plots) {
+    try {
+      await showPlotNotification(alerts.filter(a => a.plotId === plotId && settings.kinds[a.kind]));
+      pending.filter(a => a.plotId === plotId).forEach(a => notified.push(a.key));
+    } catch (e) {
+      console.warn("Failed to show notification", e);
+    }
+  }
+  localStorage.setItem(NOTIFIED_KEY, JSON.stringify(notified));
+};
+
+export const sendTestNotification = () => show('SmartPaddy notifications are on', {
+  body: 'Plot alerts will appear like this one.',
+  tag: 'test',
+  icon: 'https://cdn-icons-png.flaticon.com/512/3105/3105807.png',
+  data: { url: `${location.origin}${location.pathname}` }
+});
+
+// --- DEEP LINKS ---
+
+// ?plot=<id> from a notification, removed from the address bar once read
+export const takePlotFromUrl = (): string | null => {
+  const params = new URLSearchParams(location.search);
+  const plotId = params.get('plot');
+  if (!plotId) return null;
+  params.delete('plot');
+  const query = params.toString();
+  history.replaceState(null, '', `${location.pathname}${query ? `?${query}` : ''}${location.hash}`);
+  return plotId;
+};
+
+// The service worker forwards clicks to an already open app
+export const onPlotOpened = (callback: (plotId: string) => void): (() => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+  const listener = (event: MessageEvent) => {
+    if (event.data?.type === 'open-plot' && event.data.plotId) callback(event.data.plotId);
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
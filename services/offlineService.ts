@@ -0,0 +1,52 @@
+import { getDataSources, isSourceConfigured, isSimulatorSource } from './sourceRegistry';
+
+// --- OFFLINE SUPPORT ---
+// Registers sw.js, which caches the app shell and falls back to the last
+// full sheet and weather downloads when offline. Periodic background sync is
+// only offered to installed apps, so its registration may quietly fail.
+
+const SYNC_TAG = 'refresh-readings';
+const SYNC_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+const isSupported = () => typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+// The worker cannot read localStorage, so it is told which URLs are data sources
+export const shareSourceUrls = async () => {
+  if (!isSupported()) return;
+  const registration = await navigator.serviceWorker.ready;
+  const urls = getDataSources().filter(s => isSourceConfigured(s) && !isSimulatorSource(s)).map(s => s.url.trim());
+  registration.active?.postMessage({ type: 'sources', urls });
+};
+
+const registerPeriodicSync = async (registration: ServiceWorkerRegistration) => {
+  const periodicSync = (registration as any).periodicSync;
+  if (!periodicSync) return;
+  try {
+    const status = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+    if (status.state === 'granted') await periodicSync.register(SYNC_TAG, { minInterval: SYNC_INTERVAL_MS });
+  } catch (e) {
+    console.warn("Periodic background sync unavailable", e);
+  }
+};
+
+export const registerServiceWorker = async () => {
+  if (!isSupported()) return;
+  try {
+    const registration = await navigator.serviceWorker.register('/sw.js');
+    await shareSourceUrls();
+    await registerPeriodicSync(registration);
+  } catch (e) {
+    console.warn("Service worker registration failed", e);
+  }
+};
+
+// Called when the worker has fresh data in its cache, e.g. after connectivity
+// returns or a background sync ran. Returns an unsubscribe function.
+export const onDataRefreshed = (callback: () => void): (() => void) => {
+  if (!isSupported()) return () => {};
+  const listener = (event: MessageEvent) => {
+    if (event.data?.type === 'data-refreshed') callback();
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
@@ -0,0 +1,163 @@
+import { SheetRow } from '../types';
+import { parseTimestamp } from './timeService';
+import { dayKey, GAP_AFTER_INTERVALS } from './freshnessService';
+
+// --- PACKET LOSS ---
+// Estimates how many uplinks a node sent that never reached the sheet. Nodes
+// whose payload carries a frame counter ("L:12.5;F:1042") are counted
+// exactly; for the rest, silences longer than the expected interval are
+// counted as lost transmissions.
+
+const COUNTER_PATTERN = /(?:^|[;,|\s])(?:f|fc|fcnt|seq|cnt)\s*[:=#]\s*(\d+)/i;
+
+// 16-bit counters wrap; a larger jump than this is a reboot, not loss
+const COUNTER_WRAP = 65536;
+const MAX_COUNTER_JUMP = 1000;
+
+// Share of rows that must carry a counter before it is trusted
+const COUNTER_COVERAGE = 0.8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECENT_MS = DAY_MS;
+
+// Too few expected uplinks to judge the link
+const MIN_EXPECTED = 10;
+
+export const parseFrameCounter = (payload: string): number | null => {
+  const match = COUNTER_PATTERN.exec(payload || '');
+  return match ? Number(match[1]) : null;
+};
+
+export type DeliveryMethod = 'counter' | 'interval';
+
+export interface DeliveryStats {
+  received: number;
+  expected: number;
+  lost: number;
+  ratio: number | null; // received / expected, null when nothing was expected
+}
+
+export interface DailyDelivery extends DeliveryStats {
+  day: string; // YYYY-MM-DD in the display time zone
+}
+
+export interface NodeDelivery {
+  method: DeliveryMethod;
+  days: DailyDelivery[]; // Newest -> Oldest
+  recent: DeliveryStats; // last 24 hours
+}
+
+interface Frame {
+  ts: number;
+  expected: number; // uplinks this arrival accounts for, itself included
+}
+
+const counterFrames = (points: { ts: number, counter: number | null }[]): Frame[] => {
+  const frames: Frame[] = [];
+  let prev: number | null = null;
+  points.forEach(p => {
+    if (p.counter === null) return;
+    if (prev === null) {
+      frames.push({ ts: p.ts, expected: 1 });
+    } else {
+      let diff = p.counter - prev;
+      if (diff === 0) return; // same uplink received twice
+      if (diff < 0 && prev >= COUNTER_WRAP - MAX_COUNTER_JUMP && p.counter < MAX_COUNTER_JUMP) diff += COUNTER_WRAP;
+      // Rebooted node: losses around the reboot are unknown
+      if (diff < 0 || diff > MAX_COUNTER_JUMP) diff = 1;
+      frames.push({ ts: p.ts, expected: diff });
+    }
+    prev = p.counter;
+  });
+  return frames;
+};
+
+const intervalFrames = (points: { ts: number }[], intervalMs: number): Frame[] => {
+  return points.map((p, i) => {
+    const gap = i > 0 ? p.ts - points[i - 1].ts : 0;
+    return { ts: p.ts, expected: gap > intervalMs * GAP_AFTER_INTERVALS ? Math.max(1, Math.round(gap / intervalMs)) : 1 };
+  });
+};
+
+const toStats = (received: number, expected: number): DeliveryStats => ({
+  received,
+  expected,
+  lost: Math.max(0, expected - received),
+  ratio: expected > 0 ? Math.min(1, received / expected) : null
+});
+
+// Rows for one device in any order. The silence since the last row is left
+// to the freshness check; only uplinks around received ones are counted.
+export const nodeDelivery = (rows: SheetRow[], intervalMs: number, days: number = 7, now: number = Date.now()): NodeDelivery => {
+  const points = rows
+    .map(r => ({ ts: parseTimestamp(r["Gateway Received Time"]), counter: parseFrameCounter(r["Transmitter Data"]) }))
+    .filter(p => p.ts > 0)
+    .sort((a, b) => a.ts - b.ts);
+
+  const withCounter = points.filter(p => p.counter !== null).length;
+  const method: DeliveryMethod = points.length > 0 && withCounter / points.length >= COUNTER_COVERAGE ? 'counter' : 'interval';
+  const frames = method === 'counter' ? counterFrames(points) : intervalFrames(points, intervalMs);
+
+  const totals: Record<string, { received: number, expected: number }> = {};
+  const order: string[] = [];
+  for (let i = 0; i < days; i++) {
+    const key = dayKey(now - i * DAY_MS);
+    if (!totals[key]) {
+      totals[key] = { received: 0, expected: 0 };
+      order.push(key);
+    }
+  }
+
+  let recentReceived = 0;
+  let recentExpected = 0;
+  frames.forEach(f => {
+    const day = totals[dayKey(f.ts)];
+    if (day) {
+      day.received++;
+      day.expected += f.expected;
+    }
+    if (f.ts >= now - RECENT_MS) {
+      recentReceived++;
+      recentExpected += f.expected;
+    }
+  });
+
+  return {
+    method,
+    days: order.map(day => ({ day, ...toStats(totals[day].received, totals[day].expected) })),
+    recent: toStats(recentReceived, recentExpected)
+  };
+};
+
+// --- LINK THRESHOLDS ---
+
+export interface DeliveryThresholds {
+  degraded: number; // percent delivered below which the link is degraded
+  critical: number;
+}
+
+export type LinkState = 'ok' | 'degraded' | 'critical' | 'unknown';
+
+const THRESHOLDS_KEY = 'delivery_thresholds';
+export const DEFAULT_DELIVERY_THRESHOLDS: DeliveryThresholds = { degraded: 90, critical: 75 };
+
+export const getDeliveryThresholds = (): DeliveryThresholds => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(THRESHOLDS_KEY) || 'null');
+    return saved ? { ...DEFAULT_DELIVERY_THRESHOLDS, ...saved } : DEFAULT_DELIVERY_THRESHOLDS;
+  } catch (e) {
+    return DEFAULT_DELIVERY_THRESHOLDS;
+  }
+};
+
+export const saveDeliveryThresholds = (thresholds: DeliveryThresholds) => {
+  localStorage.setItem(THRESHOLDS_KEY, JSON.stringify(thresholds));
+};
+
+export const linkState = (stats: DeliveryStats, thresholds: DeliveryThresholds = getDeliveryThresholds()): LinkState => {
+  if (stats.ratio === null || stats.expected < MIN_EXPECTED) return 'unknown';
+  const pct = stats.ratio * 100;
+  if (pct < thresholds.critical) return 'critical';
+  if (pct < thresholds.degraded) return 'degraded';
+  return 'ok';
+};
@@ -0,0 +1,274 @@
+import { SensorData, HistoryPoint } from '../types';
+import { getCalibration, getThresholds } from './calibrationService';
+import { formatDateTime } from './dataService';
+import { parseTimestamp } from './timeService';
+import { getExpectedInterval, STALE_AFTER_MISSES } from './freshnessService';
+import { isFlooding, riseRateAt } from './statusEngine';
+import { RuleAlert, RuleContext, METRICS } from './alertRules';
+import { isRainExpected } from './weatherService';
+
+// --- PLOT ALERTS ---
+// The conditions that need someone in the field: a flood, water below the
+// dry limit (the "Irrigate Now" case) and a sensor that stopped reporting.
+// Alerts from user-defined rules travel the same way under the 'rule' kind.
+// Stage and weather come from the caller, as for the rules.
+
+export type PlotAlertKind = 'flood' | 'low' | 'stale' | 'rule';
+
+export const PLOT_ALERT_LABELS: Record<PlotAlertKind, string> = {
+  flood: 'Flood Alert',
+  low: 'Critically Low',
+  stale: 'Sensor Silent',
+  rule: 'Custom Rules'
+};
+
+export interface PlotAlert {
+  key: string; // plot + kind, stable while the condition lasts
+  plotId: string;
+  plotName: string;
+  kind: PlotAlertKind;
+  label?: string; // shown instead of the kind's label
+  value: number;   // the measure the alert is about, for the history's peak
+  unit: string;
+  lowerIsWorse?: boolean;
+  message: string;
+  since?: number;  // reading time the condition began, where the history shows it
+}
+
+type LevelKind = 'flood' | 'low';
+type ReadingTest = (history: HistoryPoint[], i: number) => boolean;
+
+// Flood and low judged at one reading of the history. The live alerts judge
+// the newest reading and the replay every one, with the same tests, so a
+// spell seen by both is logged once. A flood includes a rise fast enough to
+// reach the mark, as in the plot's status.
+const readingTests = (sensor: SensorData): Record<LevelKind, ReadingTest> => {
+  const t = getThresholds(getCalibration(sensor.id));
+  return {
+    flood: (history, i) => isFlooding(history[i].level, riseRateAt(history, i), t),
+    low: (history, i) => history[i].level < t.low
+  };
+};
+
+// Ripening and harvest-ready plots are meant to be dry (see IrrigationAdvice)
+const DRAIN_STAGES = [6, 7];
+
+// Low water only calls for irrigation when IrrigationAdvice would say
+// "Irrigate Now": not while rain is expected, nor in the drain stages.
+// An unknown stage is judged as Tillering, as the advice does.
+const lowAlertApplies = (sensor: SensorData, context: RuleContext): boolean =>
+  !DRAIN_STAGES.includes(context.stageIndex?.(sensor.id) ?? 1) && !isRainExpected(context.weather);
+
+const readings = (sensor: SensorData): HistoryPoint[] => sensor.history.filter(p => !p.flagged);
+
+// Oldest timestamp of the unbroken run of readings, ending at the newest,
+// that meet the condition
+const runStart = (history: HistoryPoint[], test: ReadingTest): number | undefined => {
+  let since: number | undefined;
+  for (let i = history.length - 1; i >= 0 && test(history, i); i--) since = history[i].ts;
+  return since;
+};
+
+const alert = (sensor: SensorData, kind: PlotAlertKind, message: string): PlotAlert => ({
+  key: `${sensor.id}|${kind}`,
+  plotId: sensor.id,
+  plotName: sensor.name,
+  kind,
+  value: sensor.currentLevel,
+  unit: 'cm',
+  lowerIsWorse: kind === 'low',
+  message
+});
+
+// Active conditions across all plots. A silent sensor's last level is not
+// judged, since it may no longer be true.
+export const detectPlotAlerts = (sensors: SensorData[], context: RuleContext = {}): PlotAlert[] => {
+  const alerts: PlotAlert[] = [];
+  sensors.forEach(sensor => {
+    if (sensor.freshness && sensor.freshness !== 'live') {
+      const last = parseTimestamp(sensor.lastUpdated);
+      alerts.push({
+        ...alert(sensor, 'stale', `No reading since ${formatDateTime(sensor.lastUpdated)}`),
+        value: last > 0 ? Math.round((Date.now() - last) / 60000) : 0,
+        unit: 'min',
+        since: last > 0 ? last : undefined
+      });
+      return;
+    }
+    const history = readings(sensor);
+    if (history.length === 0) return;
+    const tests = readingTests(sensor);
+    const newest = history.length - 1;
+    if (tests.flood(history, newest)) {
+      alerts.push({
+        ...alert(sensor, 'flood', (sensor.status === 'Flood Alert' && sensor.assessment?.reasons[0]) || `Water at ${sensor.currentLevel}cm`),
+        since: runStart(history, tests.flood)
+      });
+      return;
+    }
+    const low = getThresholds(getCalibration(sensor.id)).low;
+    if (tests.low(history, newest) && lowAlertApplies(sensor, context)) {
+      alerts.push({
+        ...alert(sensor, 'low', `Water at ${sensor.currentLevel}cm, below the dry limit (${low}cm). Irrigate now.`),
+        since: runStart(history, tests.low)
+      });
+    }
+  });
+  return alerts;
+};
+
+// --- HYSTERESIS & COOLDOWN ---
+// The same treatment user-defined rules get: a flood or low alert holds
+// until the water is clearly back past the mark, and an alert that ended
+// does not fire again within the cooldown, so a level wavering on a mark
+// does not send a notification and a webhook on every refresh.
+
+const HYSTERESIS_CM = 1;
+const COOLDOWN_MS = 30 * 60000;
+const SETTLED_KEY = 'plot_alert_state';
+
+interface SettledState {
+  active: boolean;
+  lastFired: number;
+  alert?: PlotAlert; // as last raised, to hold it while in the band
+}
+
+const getSettled = (): Record<string, SettledState> => {
+  try {
+    return JSON.parse(localStorage.getItem(SETTLED_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+// Whether an alert that no longer holds is still inside its clearing band.
+// A low alert the advice now says to wait out is not held.
+const withinBand = (alert: PlotAlert, sensor: SensorData | undefined, context: RuleContext): boolean => {
+  if (!sensor || sensor.history.length === 0 || (sensor.freshness && sensor.freshness !== 'live')) return false;
+  const t = getThresholds(getCalibration(sensor.id));
+  if (alert.kind === 'flood') return sensor.currentLevel > t.flood - HYSTERESIS_CM;
+  if (alert.kind === 'low') return sensor.currentLevel < t.low + HYSTERESIS_CM && lowAlertApplies(sensor, context);
+  return false;
+};
+
+// Filters the detected alerts through the stored state: new ones wait out
+// the cooldown, ended ones are held while inside their band
+export const settlePlotAlerts = (alerts: PlotAlert[], sensors: SensorData[], context: RuleContext = {}, now: number = Date.now()): PlotAlert[] => {
+  const previous = getSettled();
+  const next: Record<string, SettledState> = {};
+  const settled: PlotAlert[] = [];
+
+  alerts.forEach(a => {
+    const s = previous[a.key];
+    if (s && !s.active && now - s.lastFired < COOLDOWN_MS) {
+      next[a.key] = s;
+      return;
+    }
+    next[a.key] = { active: true, lastFired: s?.active ? s.lastFired : now, alert: a };
+    settled.push(a);
+  });
+
+  Object.entries(previous).forEach(([key, s]) => {
+    if (next[key]) return;
+    const sensor = s.alert && sensors.find(x => x.id === s.alert?.plotId);
+    if (s.active && s.alert && withinBand(s.alert, sensor, context)) {
+      const held = { ...s.alert, plotName: sensor ? sensor.name : s.alert.plotName, value: sensor ? sensor.currentLevel : s.alert.value };
+      next[key] = { ...s, alert: held };
+      settled.push(held);
+      return;
+    }
+    if (now - s.lastFired < COOLDOWN_MS) next[key] = { active: false, lastFired: s.lastFired };
+  });
+
+  localStorage.setItem(SETTLED_KEY, JSON.stringify(next));
+  return settled;
+};
+
+// --- REPLAY ---
+// Refreshes only see the plot as it is now. These read the history for
+// what happened between them, e.g. while the app was closed or hidden.
+
+export interface PastPlotAlert {
+  kind: PlotAlertKind;
+  startedAt: number;
+  endedAt: number;
+  peak: number;
+  unit: string;
+  message: string;
+}
+
+// Flood, low and silent spells that began after `from` and are already over.
+// Low spells are judged with today's stage and forecast; the forecast of
+// the time is not kept.
+export const pastPlotAlerts = (sensor: SensorData, from: number, context: RuleContext = {}): PastPlotAlert[] => {
+  const history = readings(sensor);
+  const past: PastPlotAlert[] = [];
+
+  const silentAfter = STALE_AFTER_MISSES * (sensor.expectedInterval || getExpectedInterval(sensor));
+  for (let i = 1; i < history.length; i++) {
+    const gap = history[i].ts - history[i - 1].ts;
+    if (history[i - 1].ts < from || gap < silentAfter) continue;
+    past.push({
+      kind: 'stale',
+      startedAt: history[i - 1].ts,
+      endedAt: history[i].ts,
+      peak: Math.round(gap / 60000),
+      unit: 'min',
+      message: `No reading from ${formatDateTime(history[i - 1].ts)} to ${formatDateTime(history[i].ts)}`
+    });
+  }
+
+  Object.entries(readingTests(sensor)).forEach(([kind, test]) => {
+    const lowerIsWorse = kind === 'low';
+    if (lowerIsWorse && !lowAlertApplies(sensor, context)) return;
+    // A run already under way at `from` was seen, or missed, before then
+    const first = history.findIndex(p => p.ts > from);
+    if (first === -1) return;
+    let run: { start: number, peak: number } | null = null;
+    let carried = first > 0 && test(history, first - 1);
+    history.slice(first).forEach((p, j) => {
+      if (test(history, first + j)) {
+        if (carried) return;
+        if (!run) run = { start: p.ts, peak: p.level };
+        else if (lowerIsWorse ? p.level < run.peak : p.level > run.peak) run.peak = p.level;
+        return;
+      }
+      if (run) {
+        past.push({
+          kind: kind as PlotAlertKind,
+          startedAt: run.start,
+          endedAt: p.ts,
+          peak: run.peak,
+          unit: 'cm',
+          message: `Water reached ${run.peak}cm`
+        });
+      }
+      run = null;
+      carried = false;
+    });
+  });
+  return past;
+};
+
+// When an alert that began at `since` ended according to the readings: the
+// first reading after it that no longer meets the condition, or null
+export const plotAlertEndedAt = (sensor: SensorData, kind: PlotAlertKind, since: number): number | null => {
+  if (kind !== 'stale' && kind !== 'flood' && kind !== 'low') return null;
+  const tests = readingTests(sensor);
+  const history = readings(sensor);
+  const after = history.find((p, i) => p.ts > since && (kind === 'stale' || !tests[kind](history, i)));
+  return after ? after.ts : null;
+};
+
+export const fromRuleAlert = (rule: RuleAlert): PlotAlert => ({
+  key: `${rule.plotId}|rule|${rule.ruleId}`,
+  plotId: rule.plotId,
+  plotName: rule.plotName,
+  kind: 'rule',
+  label: rule.ruleName,
+  value: rule.value,
+  unit: METRICS.find(m => m.value === rule.metric)?.unit || '',
+  lowerIsWorse: rule.operator === 'below',
+  message: rule.message,
+  since: rule.since
+});
@@ -0,0 +1,221 @@
+import { SheetRow } from '../types';
+
+// --- LOCAL TIME-SERIES STORE ---
+// Readings are kept in IndexedDB, keyed by [deviceId, ts], so months of
+// history survive offline without hitting the localStorage quota. The alert
+// history lives in the same database.
+
+const DB_NAME = 'smartpaddy';
+const DB_VERSION = 3;
+const READINGS = 'readings';
+const META = 'meta';
+const ALERTS = 'alerts';
+
+// Readings older than this are pruned on load, except imported seasons
+const RETENTION_DAYS = 365;
+
+// How long an upgrade waits for another tab on the old version to close
+const BLOCKED_TIMEOUT_MS = 10000;
+
+export interface StoredReading {
+  deviceId: string;
+  ts: number;
+  row: SheetRow;
+  // Imported from a CSV file; kept regardless of the retention period
+  imported?: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB not supported"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let blockedTimer: ReturnType<typeof setTimeout> | undefined;
+    let gaveUp = false;
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const tx = request.transaction;
+      if (!db.objectStoreNames.contains(READINGS)) {
+        const store = db.createObjectStore(READINGS, { keyPath: ['deviceId', 'ts'] });
+        store.createIndex('by_ts', 'ts');
+      }
+      if (!db.objectStoreNames.contains(META)) {
+        db.createObjectStore(META);
+      }
+      if (!db.objectStoreNames.contains(ALERTS)) {
+        const store = db.createObjectStore(ALERTS, { keyPath: 'id' });
+        store.createIndex('by_start', 'startedAt');
+      }
+      // Open alerts carry `open: 1`, since an index skips a null endedAt.
+      // Records kept before version 3 are flagged as the index is built.
+      const alerts = tx?.objectStore(ALERTS);
+      if (alerts && !alerts.indexNames.contains('by_open')) {
+        alerts.createIndex('by_open', 'open');
+        const cursorRequest = alerts.openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          if (cursor.value.endedAt === null) cursor.update({ ...cursor.value, open: 1 });
+          cursor.continue();
+        };
+      }
+    };
+
+    request.onblocked = () => {
+      blockedTimer = setTimeout(() => {
+        gaveUp = true;
+        dbPromise = null;
+        reject(new Error("Local store upgrade is blocked by another SmartPaddy tab; close it and reload"));
+      }, BLOCKED_TIMEOUT_MS);
+    };
+    request.onsuccess = () => {
+      clearTimeout(blockedTimer);
+      const db = request.result;
+      if (gaveUp) {
+        db.close();
+        return;
+      }
+      // Step aside when a newer version opens in another tab; the next call reopens
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      clearTimeout(blockedTimer);
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+export const isStoreAvailable = async (): Promise<boolean> => {
+  try {
+    await openDb();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Writes readings in a single transaction. Existing [deviceId, ts] keys are
+// overwritten, so re-downloading a sheet never creates duplicates.
+export const putReadings = async (readings: StoredReading[]): Promise<void> => {
+  if (readings.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(READINGS, 'readwrite');
+  const store = tx.objectStore(READINGS);
+  readings.forEach(r => {
+    if (r.deviceId && r.ts > 0) store.put(r);
+  });
+  await transactionDone(tx);
+};
+
+// Returns readings in [from, to] ordered Oldest -> Newest. When deviceId is
+// given only the primary key range for that device is scanned.
+export const queryReadings = async (options: { deviceId?: string, from?: number, to?: number }): Promise<StoredReading[]> => {
+  const db = await openDb();
+  const from = options.from ?? 0;
+  const to = options.to ?? Number.MAX_SAFE_INTEGER;
+  const tx = db.transaction(READINGS, 'readonly');
+  const store = tx.objectStore(READINGS);
+
+  if (options.deviceId) {
+    const range = IDBKeyRange.bound([options.deviceId, from], [options.deviceId, to]);
+    return requestToPromise(store.getAll(range) as IDBRequest<StoredReading[]>);
+  }
+
+  const range = IDBKeyRange.bound(from, to);
+  return requestToPromise(store.index('by_ts').getAll(range) as IDBRequest<StoredReading[]>);
+};
+
+export const pruneReadings = async (retentionDays: number = RETENTION_DAYS): Promise<void> => {
+  const db = await openDb();
+  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+  const tx = db.transaction(READINGS, 'readwrite');
+  const index = tx.objectStore(READINGS).index('by_ts');
+  const cursorRequest = index.openCursor(IDBKeyRange.upperBound(cutoff, true));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) {
+      if (!(cursor.value as StoredReading).imported) cursor.delete();
+      cursor.continue();
+    }
+  };
+  await transactionDone(tx);
+};
+
+export const clearReadings = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(READINGS, 'readwrite');
+  tx.objectStore(READINGS).clear();
+  await transactionDone(tx);
+};
+
+export const getMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction(META, 'readonly');
+  return requestToPromise(tx.objectStore(META).get(key) as IDBRequest<T | undefined>);
+};
+
+export const setMeta = async (key: string, value: unknown): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(META, 'readwrite');
+  tx.objectStore(META).put(value, key);
+  await transactionDone(tx);
+};
+
+// --- ALERT HISTORY ---
+
+// Records are opaque here; alertHistory owns their shape
+export const putAlertRecords = async <T extends { id: string }>(records: T[]): Promise<void> => {
+  if (records.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(ALERTS, 'readwrite');
+  const store = tx.objectStore(ALERTS);
+  records.forEach(r => store.put(r));
+  await transactionDone(tx);
+};
+
+export const getAlertRecord = async <T>(id: string): Promise<T | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction(ALERTS, 'readonly');
+  return requestToPromise(tx.objectStore(ALERTS).get(id) as IDBRequest<T | undefined>);
+};
+
+// Records flagged `open`, in no particular order
+export const getOpenAlertRecords = async <T>(): Promise<T[]> => {
+  const db = await openDb();
+  const tx = db.transaction(ALERTS, 'readonly');
+  return requestToPromise(tx.objectStore(ALERTS).index('by_open').getAll() as IDBRequest<T[]>);
+};
+
+// Ordered by start time, oldest first
+export const getAlertRecords = async <T>(from: number = 0): Promise<T[]> => {
+  const db = await openDb();
+  const tx = db.transaction(ALERTS, 'readonly');
+  const range = IDBKeyRange.lowerBound(from);
+  return requestToPromise(tx.objectStore(ALERTS).index('by_start').getAll(range) as IDBRequest<T[]>);
+};
@@ -0,0 +1,189 @@
+import { GatewaySample, SheetRow } from '../types';
+import { parseTimestamp } from './timeService';
+import { dayKey, GAP_AFTER_INTERVALS } from './freshnessService';
+import { isStandaloneRow } from './gatewayService';
+
+// --- SIGNAL ANALYTICS ---
+// Link quality over time for a node or a gateway: daily percentiles, time
+// spent in each quality bucket, how outages line up with weak signal and how
+// each SIM operator performs. Quality buckets come from the caller so they
+// match the bars shown elsewhere (see getSignalQuality).
+
+export type SignalKind = 'WiFi' | 'GSM' | 'LoRa';
+
+export interface SignalSample {
+  ts: number;
+  value: number;
+  operator: string;
+}
+
+export type Classifier = (value: number) => string;
+
+// Readings that mean "no value" rather than a signal level: adapters fill
+// missing fields with 0 and modems report CSQ 99 when unknown
+const isMissing = (kind: SignalKind, value: number) => !isFinite(value) || value === 0 || (kind === 'GSM' && value === 99);
+
+// The link that decides whether a node's readings arrive: its own LoRa
+// uplink when reported, otherwise the modem of a standalone unit, otherwise
+// the gateway's WiFi it was relayed through
+export const deviceSignalKind = (rows: SheetRow[]): SignalKind => {
+  if (rows.some(r => typeof r["LoRa RSSI (dBm)"] === 'number')) return 'LoRa';
+  if (rows.some(r => isStandaloneRow(r) || String(r["Network"]).toUpperCase() === 'GSM')) return 'GSM';
+  return 'WiFi';
+};
+
+// Rows for one device (any order) -> samples Oldest -> Newest
+export const signalFromRows = (rows: SheetRow[], kind: SignalKind): SignalSample[] => {
+  const field: keyof SheetRow = kind === 'LoRa' ? "LoRa RSSI (dBm)" : kind === 'GSM' ? "GSM Strength (RSSI)" : "WiFi Strength (dBm)";
+  return rows
+    .map(r => ({ ts: parseTimestamp(r["Gateway Received Time"]), value: Number(r[field]), operator: kind === 'LoRa' ? '-' : r["SIM Operator"] || '-' }))
+    .filter(s => s.ts > 0 && !isMissing(kind, s.value))
+    .sort((a, b) => a.ts - b.ts);
+};
+
+export const signalFromGateway = (history: GatewaySample[], kind: SignalKind): SignalSample[] => {
+  return history
+    .map(s => ({ ts: s.ts, value: Number(kind === 'GSM' ? s.gsmSignal : s.wifiSignal), operator: s.simOperator || '-' }))
+    .filter(s => !isMissing(kind, s.value));
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Median spacing of the samples, for gateways that have no configured schedule
+export const typicalInterval = (samples: { ts: number }[]): number | null => {
+  const gaps: number[] = [];
+  for (let i = 1; i < samples.length; i++) {
+    const gap = samples[i].ts - samples[i - 1].ts;
+    if (gap > 0) gaps.push(gap);
+  }
+  return gaps.length >= 3 ? median(gaps) : null;
+};
+
+// Nearest-rank percentile of sorted values
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))];
+
+// Each sample holds until the next one, but never for longer than this many
+// intervals, so outages are not counted as time at the last level
+const HOLD_INTERVALS = 2;
+
+const holdTimes = (samples: SignalSample[], intervalMs: number, now: number): number[] => {
+  return samples.map((s, i) => {
+    const next = i + 1 < samples.length ? samples[i + 1].ts : now;
+    return Math.max(0, Math.min(next - s.ts, intervalMs * HOLD_INTERVALS));
+  });
+};
+
+// --- DAILY STATS ---
+
+export interface DailySignal {
+  day: string;  // YYYY-MM-DD in the display time zone
+  count: number;
+  p10: number | null;
+  p50: number | null;
+  p90: number | null;
+  buckets: Record<string, number>; // quality label -> ms, credited to the day the sample arrived
+}
+
+// Last `days` days, Newest -> Oldest
+export const dailySignalStats = (samples: SignalSample[], intervalMs: number, classify: Classifier, days: number = 7, now: number = Date.now()): DailySignal[] => {
+  const values: Record<string, number[]> = {};
+  const stats: Record<string, DailySignal> = {};
+  const order: string[] = [];
+  for (let i = 0; i < days; i++) {
+    const key = dayKey(now - i * 24 * 60 * 60 * 1000);
+    if (!stats[key]) {
+      stats[key] = { day: key, count: 0, p10: null, p50: null, p90: null, buckets: {} };
+      values[key] = [];
+      order.push(key);
+    }
+  }
+
+  const holds = holdTimes(samples, intervalMs, now);
+  samples.forEach((s, i) => {
+    const key = dayKey(s.ts);
+    const day = stats[key];
+    if (!day) return;
+    day.count++;
+    values[key].push(s.value);
+    const label = classify(s.value);
+    day.buckets[label] = (day.buckets[label] || 0) + holds[i];
+  });
+
+  return order.map(key => {
+    const sorted = values[key].sort((a, b) => a - b);
+    if (sorted.length === 0) return stats[key];
+    return { ...stats[key], p10: percentile(sorted, 0.1), p50: percentile(sorted, 0.5), p90: percentile(sorted, 0.9) };
+  });
+};
+
+// --- OUTAGES vs SIGNAL ---
+
+export interface GapCorrelation {
+  gaps: number;
+  gapsAfterWeak: number;  // gaps whose preceding reading was weak
+  weakShare: number;      // share of all readings that were weak, 0-1
+  gapRateWeak: number;    // gaps per weak reading
+  gapRateOther: number;   // gaps per other reading
+}
+
+// Compares how often a gap follows a weak reading with how often it follows
+// any other. A much higher rate after weak readings points at the link (the
+// antenna or the operator) rather than power or firmware.
+export const gapCorrelation = (samples: SignalSample[], intervalMs: number, isWeak: (value: number) => boolean): GapCorrelation => {
+  let gaps = 0;
+  let gapsAfterWeak = 0;
+  let weak = 0;
+  samples.forEach((s, i) => {
+    const weakHere = isWeak(s.value);
+    if (weakHere) weak++;
+    if (i + 1 < samples.length && samples[i + 1].ts - s.ts > intervalMs * GAP_AFTER_INTERVALS) {
+      gaps++;
+      if (weakHere) gapsAfterWeak++;
+    }
+  });
+  const other = samples.length - weak;
+  return {
+    gaps,
+    gapsAfterWeak,
+    weakShare: samples.length > 0 ? weak / samples.length : 0,
+    gapRateWeak: weak > 0 ? gapsAfterWeak / weak : 0,
+    gapRateOther: other > 0 ? (gaps - gapsAfterWeak) / other : 0
+  };
+};
+
+// Gaps as [from, to] pairs, for shading on the chart
+export const findGaps = (samples: SignalSample[], intervalMs: number): [number, number][] => {
+  const gaps: [number, number][] = [];
+  for (let i = 1; i < samples.length; i++) {
+    if (samples[i].ts - samples[i - 1].ts > intervalMs * GAP_AFTER_INTERVALS) gaps.push([samples[i - 1].ts, samples[i].ts]);
+  }
+  return gaps;
+};
+
+// --- OPERATORS ---
+
+export interface OperatorStats {
+  operator: string;
+  count: number;
+  median: number;
+  weakShare: number;
+  timeMs: number;
+}
+
+export const operatorStats = (samples: SignalSample[], intervalMs: number, isWeak: (value: number) => boolean, now: number = Date.now()): OperatorStats[] => {
+  const holds = holdTimes(samples, intervalMs, now);
+  const groups: Record<string, { values: number[], weak: number, timeMs: number }> = {};
+  samples.forEach((s, i) => {
+    const g = groups[s.operator] || (groups[s.operator] = { values: [], weak: 0, timeMs: 0 });
+    g.values.push(s.value);
+    if (isWeak(s.value)) g.weak++;
+    g.timeMs += holds[i];
+  });
+  return Object.entries(groups)
+    .map(([operator, g]) => ({ operator, count: g.values.length, median: median(g.values), weakShare: g.weak / g.values.length, timeMs: g.timeMs }))
+    .sort((a, b) => b.count - a.count);
+};
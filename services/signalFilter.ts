@@ -0,0 +1,110 @@
+import { HistoryPoint } from '../types';
+
+// --- SPIKE / OUTLIER FILTERING ---
+// Ultrasonic and pressure sensors occasionally report single-sample spikes.
+// Samples are flagged rather than removed: the raw value is kept on the
+// point and `level` carries the filtered value used by status and advice.
+
+export type FilterMethod = 'hampel' | 'median' | 'none';
+
+export interface FilterConfig {
+  method: FilterMethod;
+  halfWindow: number;     // samples either side of the point being tested
+  nSigmas: number;        // Hampel threshold in robust standard deviations
+  maxRatePerHour: number; // physical limit on how fast water can move (cm/h)
+  minDeviation: number;   // cm; deviations below this are never flagged
+}
+
+export const DEFAULT_FILTER_CONFIG: FilterConfig = {
+  method: 'hampel',
+  halfWindow: 3,
+  nSigmas: 3,
+  maxRatePerHour: 15,
+  minDeviation: 1.5
+};
+
+const STORAGE_KEY = 'filter_config';
+
+export const getFilterConfig = (): FilterConfig => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return { ...DEFAULT_FILTER_CONFIG, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error("Failed to parse filter config", e);
+  }
+  return { ...DEFAULT_FILTER_CONFIG };
+};
+
+export const saveFilterConfig = (config: FilterConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Scale factor turning the median absolute deviation into a standard deviation
+const MAD_SCALE = 1.4826;
+
+// Filters a history ordered Oldest -> Newest. Points near the newest end
+// only have a one-sided window, so they are re-evaluated as more samples
+// arrive. Points before `changedFrom` were filtered with the same samples
+// already: only those whose window reaches a changed point are redone.
+export const filterHistory = (history: HistoryPoint[], config: FilterConfig = getFilterConfig(), changedFrom: number = 0): HistoryPoint[] => {
+  const raw = history.map(p => p.rawLevel ?? p.level);
+
+  if (config.method === 'none' || raw.length < 3) {
+    return history.map((p, i) => i < changedFrom ? p : { time: p.time, ts: p.ts, level: raw[i], rawLevel: raw[i] });
+  }
+
+  const times = history.map(p => p.ts);
+  const k = Math.max(1, Math.round(config.halfWindow));
+  const start = Math.max(0, Math.min(changedFrom, history.length) - k);
+  let lastAccepted = -1;
+  for (let i = start - 1; i >= 0 && lastAccepted < 0; i--) {
+    if (!history[i].flagged) lastAccepted = i;
+  }
+
+  return [...history.slice(0, start), ...history.slice(start).map((p, j) => {
+    const i = start + j;
+    const window = raw.slice(Math.max(0, i - k), Math.min(raw.length, i + k + 1));
+    const med = median(window);
+    const deviation = Math.abs(raw[i] - med);
+
+    let flagged = false;
+    let reason: string | undefined;
+
+    if (deviation > config.minDeviation) {
+      // 1. Hampel test against the local median
+      const mad = median(window.map(v => Math.abs(v - med)));
+      if (config.method === 'hampel' && deviation > config.nSigmas * MAD_SCALE * mad) {
+        flagged = true;
+        reason = `${deviation.toFixed(1)}cm from local median`;
+      }
+
+      // 2. Physical rate-of-change limit against the last accepted sample.
+      //    Only applied to points that also stand out from their window, so a
+      //    genuine step (irrigation fill) is accepted once neighbours agree.
+      if (!flagged && lastAccepted >= 0 && times[i] > 0 && times[lastAccepted] > 0) {
+        const hours = Math.max((times[i] - times[lastAccepted]) / 3600000, 0.25);
+        const rate = Math.abs(raw[i] - raw[lastAccepted]) / hours;
+        if (rate > config.maxRatePerHour) {
+          flagged = true;
+          reason = `${rate.toFixed(0)}cm/h exceeds ${config.maxRatePerHour}cm/h`;
+        }
+      }
+    }
+
+    if (!flagged) lastAccepted = i;
+
+    const level = flagged || config.method === 'median'
+      ? Math.round(med * 10) / 10
+      : raw[i];
+
+    return flagged
+      ? { time: p.time, ts: p.ts, level, rawLevel: raw[i], flagged, flagReason: reason }
+      : { time: p.time, ts: p.ts, level, rawLevel: raw[i] };
+  })];
+};
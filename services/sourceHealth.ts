@@ -0,0 +1,160 @@
+import { DataSourceConfig } from './sourceRegistry';
+
+// --- SOURCE HEALTH ---
+// Every request to a configured source is recorded here: how long it took,
+// what came back and, when it failed, why. A broken Apps Script deployment
+// otherwise only shows up as fewer plots on the dashboard.
+
+export type FailureKind = 'network' | 'timeout' | 'http' | 'content-type' | 'parse';
+
+export const FAILURE_LABELS: Record<FailureKind, string> = {
+  'network': 'Network',
+  'timeout': 'Timeout',
+  'http': 'HTTP Error',
+  'content-type': 'Not JSON',
+  'parse': 'Bad Payload'
+};
+
+// Thrown by the fetch path so the failure can be classified
+export interface SourceError extends Error {
+  kind: FailureKind;
+  status?: number;
+}
+
+export const sourceError = (kind: FailureKind, message: string, status?: number): SourceError => {
+  return Object.assign(new Error(message), { kind, status });
+};
+
+const failureKind = (error: any): FailureKind => {
+  return error?.kind && error.kind in FAILURE_LABELS ? error.kind : 'network';
+};
+
+export interface RequestRecord {
+  ts: number;
+  ok: boolean;
+  latencyMs: number;
+}
+
+export interface SourceHealth {
+  sourceId: string;
+  requests: number;
+  failures: number;
+  failureCounts: Partial<Record<FailureKind, number>>;
+  lastAttempt: number;
+  lastSuccess: number | null;
+  failingSince: number | null; // first failure since the last success
+  lastStatus: number | null;   // HTTP status of the last response, null for the simulator or no response
+  lastError: { ts: number, kind: FailureKind, message: string } | null;
+  lastRowCount: number;
+  lastRejected: number;
+  recent: RequestRecord[];     // Oldest -> Newest
+}
+
+const STORAGE_KEY = 'source_health';
+const MAX_RECENT = 50;
+
+export const getSourceHealth = (): Record<string, SourceHealth> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+export const resetSourceHealth = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+const emptyHealth = (sourceId: string): SourceHealth => ({
+  sourceId,
+  requests: 0,
+  failures: 0,
+  failureCounts: {},
+  lastAttempt: 0,
+  lastSuccess: null,
+  failingSince: null,
+  lastStatus: null,
+  lastError: null,
+  lastRowCount: 0,
+  lastRejected: 0,
+  recent: []
+});
+
+const record = (sourceId: string, update: (health: SourceHealth) => void) => {
+  const all = getSourceHealth();
+  const health = all[sourceId] || (all[sourceId] = emptyHealth(sourceId));
+  update(health);
+  if (health.recent.length > MAX_RECENT) health.recent = health.recent.slice(-MAX_RECENT);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+};
+
+export const recordSuccess = (sourceId: string, result: { latencyMs: number, status: number | null, rowCount: number, rejected: number }, now: number = Date.now()) => {
+  record(sourceId, h => {
+    h.requests++;
+    h.lastAttempt = now;
+    h.lastSuccess = now;
+    h.failingSince = null;
+    h.lastStatus = result.status;
+    h.lastRowCount = result.rowCount;
+    h.lastRejected = result.rejected;
+    h.recent.push({ ts: now, ok: true, latencyMs: result.latencyMs });
+  });
+};
+
+export const recordFailure = (sourceId: string, error: any, latencyMs: number, now: number = Date.now()) => {
+  const kind = failureKind(error);
+  record(sourceId, h => {
+    h.requests++;
+    h.failures++;
+    h.failureCounts[kind] = (h.failureCounts[kind] || 0) + 1;
+    h.lastAttempt = now;
+    if (h.failingSince === null) h.failingSince = now;
+    h.lastStatus = typeof error?.status === 'number' ? error.status : null;
+    h.lastError = { ts: now, kind, message: error?.message || FAILURE_LABELS[kind] };
+    h.recent.push({ ts: now, ok: false, latencyMs });
+  });
+};
+
+// Median of the recent successful requests
+export const typicalLatency = (health: SourceHealth): number | null => {
+  const values = health.recent.filter(r => r.ok).map(r => r.latencyMs).sort((a, b) => a - b);
+  if (values.length === 0) return null;
+  const mid = Math.floor(values.length / 2);
+  return Math.round(values.length % 2 ? values[mid] : (values[mid - 1] + values[mid]) / 2);
+};
+
+// --- OUTAGE ALERTS ---
+
+const ALERT_MINUTES_KEY = 'source_alert_minutes';
+export const DEFAULT_SOURCE_ALERT_MINUTES = 15;
+
+export const getSourceAlertMinutes = (): number => {
+  const saved = Number(localStorage.getItem(ALERT_MINUTES_KEY));
+  return saved > 0 ? saved : DEFAULT_SOURCE_ALERT_MINUTES;
+};
+
+export const saveSourceAlertMinutes = (minutes: number) => {
+  if (minutes > 0) localStorage.setItem(ALERT_MINUTES_KEY, String(minutes));
+  else localStorage.removeItem(ALERT_MINUTES_KEY);
+};
+
+export interface SourceOutage {
+  sourceId: string;
+  name: string;
+  since: number;
+  error: string;
+}
+
+// Configured sources that have been failing for longer than the threshold
+export const findSourceOutages = (sources: DataSourceConfig[], now: number = Date.now()): SourceOutage[] => {
+  const health = getSourceHealth();
+  const thresholdMs = getSourceAlertMinutes() * 60000;
+  const outages: SourceOutage[] = [];
+  sources.forEach(s => {
+    const h = health[s.id];
+    if (h && h.failingSince !== null && now - h.failingSince >= thresholdMs) {
+      outages.push({ sourceId: s.id, name: s.name, since: h.failingSince, error: h.lastError?.message || 'Request failed' });
+    }
+  });
+  return outages;
+};
@@ -0,0 +1,203 @@
+import { SheetRow } from '../types';
+import { TimestampFormat, TimeZoneSetting } from './timeService';
+import { SimulatorConfig, createSimulatorConfig } from './fieldSimulator';
+
+// --- DATA SOURCE REGISTRY ---
+// Each source declares where its rows come from and which adapter turns
+// those rows into the canonical SheetRow shape. Sources are persisted in
+// localStorage so new field sites can be added from the Settings screen.
+
+export type SourceFormat = 'lora-sheet' | 'gsm-json' | 'auto' | 'simulator';
+
+export interface DataSourceConfig {
+  id: string;
+  name: string;
+  url: string;
+  format: SourceFormat;
+  enabled: boolean;
+  // How the source writes timestamps and the zone its logger runs in.
+  // Older saved configs lack these and fall back to 'auto' / 'local'.
+  timestampFormat?: TimestampFormat;
+  timezone?: TimeZoneSetting;
+  // Requests still unanswered after this are aborted (DEFAULT_TIMEOUT_SECONDS when unset)
+  timeoutSeconds?: number;
+  // Only for the 'simulator' format, which generates rows instead of
+  // fetching `url`
+  simulator?: SimulatorConfig;
+}
+
+export interface SourceAdapter {
+  format: SourceFormat;
+  label: string;
+  description: string;
+  normalize: (raw: any) => SheetRow;
+  // Whether the device posted the row itself rather than a gateway relaying
+  // it; decides the row's gateway and the device's transport
+  isStandalone: (raw: any) => boolean;
+}
+
+const STORAGE_KEY = 'data_sources';
+
+// Apps Script cold starts regularly take 10-15 seconds
+export const DEFAULT_TIMEOUT_SECONDS = 30;
+
+const DEFAULT_SOURCES: DataSourceConfig[] = [
+  {
+    id: 'lora-gateway',
+    name: 'LoRa Gateway Sheet',
+    url: 'https://script.google.com/macros/s/AKfycbwMl7VGQlu4--r5DjptzE8JF5XXDoRIWSnYJ-0qCuYBEQnLbaBvXHzBNmuQcgjiynnf/exec',
+    format: 'lora-sheet',
+    enabled: true
+  },
+  {
+    id: 'gsm-standalone',
+    name: 'Standalone GSM Sheet',
+    url: 'https://script.google.com/macros/s/AKfycby61hthQVULKFW_1--hI0V2t-gjxOVSnUzZ6iHK-Q-RT2cpUbvgvmM7BfFt5rSOuR0MFw/exec',
+    format: 'gsm-json',
+    enabled: true
+  },
+  {
+    id: 'field-simulator',
+    name: 'Field Simulator (Demo)',
+    url: '',
+    format: 'simulator',
+    enabled: false
+  }
+];
+
+// --- ADAPTERS ---
+
+// Optional telemetry stays undefined when the source leaves it out; anything
+// else is passed on as a number for the row schema to check
+const optionalNumber = (value: any): number | undefined => {
+  if (value === undefined || value === null || String(value).trim() === '') return undefined;
+  return Number(value);
+};
+
+// Standard LoRa gateway sheet: column headers already match SheetRow
+const normalizeLoraRow = (r: any): SheetRow => ({
+  "Gateway Received Time": r["Gateway Received Time"],
+  "Device ID": r["Device ID"],
+  "Transmitter Data": r["Transmitter Data"] || "",
+  "Water Level (cm)": Number(r["Water Level (cm)"]),
+  "Status": r["Status"] || "Unknown",
+  "Network": r["Network"] || "",
+  "Batch Upload Time": r["Batch Upload Time"] || "",
+  "SIM Operator": r["SIM Operator"] || "-",
+  "WiFi Strength (dBm)": r["WiFi Strength (dBm)"] ?? 0,
+  "GSM Strength (RSSI)": r["GSM Strength (RSSI)"] ?? 0,
+  "SD Free (MB)": r["SD Free (MB)"] ?? 0,
+  "Battery (V)": optionalNumber(r["Battery (V)"]),
+  "Board Temp (°C)": optionalNumber(r["Board Temp (°C)"]),
+  "LoRa RSSI (dBm)": optionalNumber(r["LoRa RSSI (dBm)"]),
+  "LoRa SNR (dB)": optionalNumber(r["LoRa SNR (dB)"]),
+  "Spreading Factor": optionalNumber(r["Spreading Factor"]),
+  "Gateway ID": r["Gateway ID"] || undefined
+});
+
+// Standalone GSM units post camelCase JSON directly from the device
+const normalizeGsmRow = (r: any): SheetRow => ({
+  "Gateway Received Time": r.timestamp,
+  "Device ID": r.device || "GSM-Device",
+  "Transmitter Data": r.dataType || "Direct",
+  "Water Level (cm)": Number(r.waterLevel),
+  "Status": r.status || "Unknown",
+  "Network": r.network || "GSM",
+  "Batch Upload Time": r.timestamp, // Direct upload usually implies realtime
+  "SIM Operator": r.simOperator || "-",
+  "WiFi Strength (dBm)": r.wifiStrength || 0,
+  "GSM Strength (RSSI)": r.gsmStrength || 0,
+  "SD Free (MB)": r.sdRemaining || 0,
+  "Battery (V)": optionalNumber(r.batteryVoltage ?? r.battery),
+  "Board Temp (°C)": optionalNumber(r.boardTemp ?? r.temperature),
+  // GSM units have no LoRa radio
+  "LoRa RSSI (dBm)": undefined,
+  "LoRa SNR (dB)": undefined,
+  "Spreading Factor": undefined,
+  "Gateway ID": r.gatewayId || undefined
+});
+
+const isGsmShaped = (r: any) => r.waterLevel !== undefined || r.timestamp !== undefined;
+
+const adapters: Record<string, SourceAdapter> = {};
+
+export const registerAdapter = (adapter: SourceAdapter) => {
+  adapters[adapter.format] = adapter;
+};
+
+export const getAdapter = (format: SourceFormat): SourceAdapter => {
+  return adapters[format] || adapters['auto'];
+};
+
+export const listAdapters = (): SourceAdapter[] => Object.values(adapters);
+
+registerAdapter({
+  format: 'lora-sheet',
+  label: 'LoRa Sheet',
+  description: 'Gateway sheet rows with "Device ID", "Water Level (cm)" columns',
+  normalize: normalizeLoraRow,
+  isStandalone: () => false
+});
+
+registerAdapter({
+  format: 'gsm-json',
+  label: 'GSM JSON',
+  description: 'camelCase payloads (timestamp, device, waterLevel)',
+  normalize: normalizeGsmRow,
+  isStandalone: () => true
+});
+
+registerAdapter({
+  format: 'auto',
+  label: 'Auto Detect',
+  description: 'Guess the format per row (legacy behaviour)',
+  normalize: (r: any) => isGsmShaped(r) ? normalizeGsmRow(r) : normalizeLoraRow(r),
+  // Sheet-shaped rows only say so through the legacy "Direct" marker
+  isStandalone: (r: any) => isGsmShaped(r) || r["Transmitter Data"] === 'Direct'
+});
+
+registerAdapter({
+  format: 'simulator',
+  label: 'Simulator',
+  description: 'Seeded virtual plots for demos and offline testing',
+  normalize: normalizeLoraRow,
+  // The simulator marks its GSM plots "Direct"
+  isStandalone: (r: any) => r["Transmitter Data"] === 'Direct'
+});
+
+// --- PERSISTENCE ---
+
+export const getDataSources = (): DataSourceConfig[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) return parsed;
+    }
+  } catch (e) {
+    console.error("Failed to parse data sources", e);
+  }
+  return DEFAULT_SOURCES.map(s => ({ ...s }));
+};
+
+export const saveDataSources = (sources: DataSourceConfig[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(sources));
+};
+
+export const createDataSource = (partial: Partial<DataSourceConfig>): DataSourceConfig => ({
+  id: `src_${Date.now().toString(36)}`,
+  name: partial.name || 'New Field Site',
+  url: partial.url || '',
+  format: partial.format || 'auto',
+  enabled: partial.enabled ?? true,
+  timestampFormat: partial.timestampFormat || 'auto',
+  timezone: partial.timezone || 'local',
+  ...(partial.format === 'simulator' ? { simulator: createSimulatorConfig(partial.simulator) } : {})
+});
+
+export const isSourceConfigured = (source: DataSourceConfig): boolean => {
+  if (source.format === 'simulator') return source.enabled;
+  return source.enabled && !!source.url && source.url.trim().startsWith('http');
+};
+
+export const isSimulatorSource = (source: DataSourceConfig): boolean => source.format === 'simulator';
@@ -0,0 +1,84 @@
+import { HistoryPoint, PlotStatus, StatusAssessment } from '../types';
+import { CalibrationProfile, LevelThresholds, getThresholds, statusFromLevel } from './calibrationService';
+
+// --- STATUS ENGINE ---
+// A plot's status is derived here from the calibrated, filtered level, the
+// crop stage and how fast the water is rising, so LoRa and GSM devices are
+// judged by the same rules. The status the device reported is kept as a
+// second opinion and disagreements are flagged.
+
+// Rise fast enough to call a flood before the gauge shows one
+const RAPID_RISE_CM_PER_HOUR = 3;
+const RISE_WINDOW_MS = 3 * 60 * 60 * 1000;
+const MIN_RISE_SPAN_MS = 30 * 60 * 1000;
+// How far ahead a rapid rise is projected
+const PROJECTION_HOURS = 2;
+
+// Crop stages from calculateStage that need standing water, or a dry field
+const FLOOD_STAGES = [0, 3, 4];
+const DRAIN_STAGES = [6, 7];
+
+const KNOWN: PlotStatus[] = ['Low', 'Good', 'Excess', 'Flood Alert'];
+
+export interface StatusContext {
+  calibration: CalibrationProfile;
+  reported: string;
+  stageIndex?: number;
+  stageName?: string;
+}
+
+// cm/h between the point at `end` and the oldest within the window before it
+export const riseRateAt = (history: HistoryPoint[], end: number): number => {
+  if (end < 1 || end >= history.length) return 0;
+  const latest = history[end];
+  let i = end - 1;
+  while (i > 0 && latest.ts - history[i - 1].ts <= RISE_WINDOW_MS) i--;
+  const span = latest.ts - history[i].ts;
+  if (span < MIN_RISE_SPAN_MS) return 0;
+  return Math.round(((latest.level - history[i].level) / (span / 3600000)) * 10) / 10;
+};
+
+// cm/h between the newest point and the oldest within the window
+export const riseRate = (history: HistoryPoint[]): number => riseRateAt(history, history.length - 1);
+
+// Over the flood mark, or rising fast enough to reach it within the
+// projection. The plot alerts judge each reading of the history with it too.
+export const isFlooding = (level: number, rise: number, t: LevelThresholds): boolean =>
+  level > t.flood || (rise >= RAPID_RISE_CM_PER_HOUR && level + rise * PROJECTION_HOURS > t.flood);
+
+export const assessStatus = (level: number, history: HistoryPoint[], context: StatusContext): { status: PlotStatus, assessment: StatusAssessment } => {
+  const t = getThresholds(context.calibration);
+  const reasons: string[] = [];
+  let status: PlotStatus = statusFromLevel(level, context.calibration);
+
+  // 1. Level against the pipe's own thresholds
+  if (status === 'Flood Alert') reasons.push(`${level}cm is above the flood mark (${t.flood}cm)`);
+  else if (status === 'Excess') reasons.push(`${level}cm is above the high-water mark (${t.high}cm)`);
+  else if (status === 'Low') reasons.push(`${level}cm is below the dry limit (${t.low}cm)`);
+
+  // 2. Crop stage: what counts as too little or too much water
+  const stage = context.stageIndex;
+  if (stage !== undefined && status === 'Good') {
+    if (FLOOD_STAGES.includes(stage) && level < t.soil) {
+      status = 'Low';
+      reasons.push(`${context.stageName || 'This stage'} needs standing water (above ${t.soil}cm)`);
+    } else if (DRAIN_STAGES.includes(stage) && level > t.soil) {
+      status = 'Excess';
+      reasons.push(`${context.stageName || 'This stage'} needs a drained field (below ${t.soil}cm)`);
+    }
+  }
+
+  // 3. Rapid rise: raise the flood alert before the gauge gets there
+  const rise = riseRate(history);
+  if (status !== 'Flood Alert' && isFlooding(level, rise, t)) {
+    status = 'Flood Alert';
+    reasons.push(`Rising ${rise}cm/h; flood mark reached within ${PROJECTION_HOURS}h`);
+  }
+
+  // 4. Second opinion from the device. Devices that report nothing useful
+  //    are not counted as disagreeing.
+  const reported = context.reported || 'Unknown';
+  const agrees = !KNOWN.includes(reported as PlotStatus) || reported === status;
+
+  return { status, assessment: { reported, agrees, reasons, risePerHour: rise } };
+};
@@ -0,0 +1,151 @@
+import { Gateway, GatewaySample } from '../types';
+
+// --- SD CARD FORECAST ---
+// Gateways buffer every batch on their SD card and stop uploading once it is
+// full. The free space reported with each upload is fitted to a consumption
+// rate so the card can be swapped before that happens.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FORECAST_WINDOW_MS = 7 * DAY_MS;
+const MIN_SPAN_MS = 12 * 60 * 60 * 1000;
+const MIN_SAMPLES = 6;
+// Free space jumping up by more than this means the card was swapped or
+// cleared; only samples after the jump describe the current card
+const CARD_RESET_MB = 50;
+// Slower than this the card is effectively not filling
+const MIN_MB_PER_DAY = 0.5;
+
+const WARNING_DAYS_KEY = 'storage_warning_days';
+const DEFAULT_WARNING_DAYS = 7;
+
+export interface StorageForecast {
+  freeMb: number;
+  mbPerDay: number | null; // consumption, positive while filling
+  daysLeft: number | null; // null when not filling or too little history
+  fullAt: number | null;   // epoch ms
+}
+
+export const getStorageWarningDays = (): number => {
+  const saved = Number(localStorage.getItem(WARNING_DAYS_KEY));
+  return saved > 0 ? saved : DEFAULT_WARNING_DAYS;
+};
+
+export const saveStorageWarningDays = (days: number) => {
+  if (days > 0) localStorage.setItem(WARNING_DAYS_KEY, String(days));
+  else localStorage.removeItem(WARNING_DAYS_KEY);
+};
+
+export const forecastStorage = (history: GatewaySample[], now: number = Date.now()): StorageForecast | null => {
+  // 1. Samples of the current card within the window
+  const samples = history.filter(s => s.sdFree !== null && s.ts >= now - FORECAST_WINDOW_MS) as (GatewaySample & { sdFree: number })[];
+  // Units without a card send 0 on every upload
+  if (samples.every(s => s.sdFree === 0)) return null;
+  let start = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if (samples[i].sdFree - samples[i - 1].sdFree > CARD_RESET_MB) start = i;
+  }
+  const points = samples.slice(start);
+  const freeMb = points[points.length - 1].sdFree;
+
+  // 2. Least-squares consumption rate in MB/day
+  const span = points[points.length - 1].ts - points[0].ts;
+  if (points.length < MIN_SAMPLES || span < MIN_SPAN_MS) {
+    return { freeMb, mbPerDay: null, daysLeft: freeMb === 0 ? 0 : null, fullAt: null };
+  }
+  const t0 = points[0].ts;
+  const xs = points.map(p => (p.ts - t0) / DAY_MS);
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = points.reduce((a, p) => a + p.sdFree, 0) / points.length;
+  let sxy = 0;
+  let sxx = 0;
+  xs.forEach((x, i) => {
+    sxy += (x - meanX) * (points[i].sdFree - meanY);
+    sxx += (x - meanX) * (x - meanX);
+  });
+  const mbPerDay = sxx > 0 ? -sxy / sxx : 0;
+
+  // 3. Days until free space reaches zero
+  if (mbPerDay < MIN_MB_PER_DAY) {
+    return { freeMb, mbPerDay: Math.round(mbPerDay * 10) / 10, daysLeft: freeMb === 0 ? 0 : null, fullAt: null };
+  }
+  const days = freeMb / mbPerDay;
+  return {
+    freeMb,
+    mbPerDay: Math.round(mbPerDay * 10) / 10,
+    daysLeft: Math.floor(days),
+    fullAt: points[points.length - 1].ts + days * DAY_MS
+  };
+};
+
+export const isStorageLow = (forecast: StorageForecast | null, warningDays: number = getStorageWarningDays()): boolean => {
+  return !!forecast && forecast.daysLeft !== null && forecast.daysLeft < warningDays;
+};
+
+// --- STORAGE ALERTS ---
+// An alert fires once when a gateway drops below the warning threshold and
+// stays until dismissed. It re-arms after the card is swapped, or once the
+// forecast is clearly back above the threshold, so a forecast wavering
+// around it does not bring a dismissed alert back.
+
+const ALERTS_KEY = 'storage_alerts';
+// Days above the warning threshold before an alert is let go
+const CLEAR_MARGIN_DAYS = 2;
+
+export interface StorageAlert {
+  gatewayId: string;
+  name: string;
+  daysLeft: number;
+  firedAt: number;
+  dismissed: boolean; // hidden from the dashboard, still in the alert history
+}
+
+interface AlertState {
+  [gatewayId: string]: { firedAt: number, dismissed: boolean };
+}
+
+const loadAlertState = (): AlertState => {
+  try {
+    return JSON.parse(localStorage.getItem(ALERTS_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+const cardSwappedSince = (history: GatewaySample[], since: number): boolean => {
+  const samples = history.filter(s => s.sdFree !== null);
+  for (let i = 1; i < samples.length; i++) {
+    if (samples[i].ts > since && samples[i].sdFree! - samples[i - 1].sdFree! > CARD_RESET_MB) return true;
+  }
+  return false;
+};
+
+// Returns the current alerts, dismissed ones included and flagged
+export const updateStorageAlerts = (gateways: Gateway[], now: number = Date.now()): StorageAlert[] => {
+  const state = loadAlertState();
+  const warningDays = getStorageWarningDays();
+  const next: AlertState = {};
+  const alerts: StorageAlert[] = [];
+
+  gateways.forEach(g => {
+    const forecast = forecastStorage(g.history, now);
+    const low = isStorageLow(forecast, warningDays);
+    const previous = state[g.id];
+    const swapped = !!previous && cardSwappedSince(g.history, previous.firedAt);
+    const recovered = forecast?.daysLeft != null && forecast.daysLeft >= warningDays + CLEAR_MARGIN_DAYS;
+    if (!low && (!previous || swapped || recovered)) return;
+    const entry = previous && !swapped ? previous : { firedAt: now, dismissed: false };
+    next[g.id] = entry;
+    if (forecast?.daysLeft != null) alerts.push({ gatewayId: g.id, name: g.name, daysLeft: forecast.daysLeft, firedAt: entry.firedAt, dismissed: entry.dismissed });
+  });
+
+  localStorage.setItem(ALERTS_KEY, JSON.stringify(next));
+  return alerts;
+};
+
+export const dismissStorageAlert = (gatewayId: string) => {
+  const state = loadAlertState();
+  if (state[gatewayId]) {
+    state[gatewayId].dismissed = true;
+    localStorage.setItem(ALERTS_KEY, JSON.stringify(state));
+  }
+};
@@ -0,0 +1,181 @@
+// --- TIMESTAMPS & TIME ZONES ---
+// Sources declare how their timestamps are written and which zone they were
+// logged in. Everything is converted to UTC epoch milliseconds on the way in
+// and rendered in the zone the user picks on the way out.
+
+export type TimestampFormat = 'auto' | 'iso' | 'dmy' | 'mdy' | 'ymd';
+
+// 'local' means the browser's own zone
+export type TimeZoneSetting = 'local' | string;
+
+export const TIMESTAMP_FORMATS: { value: TimestampFormat, label: string }[] = [
+  { value: 'auto', label: 'Auto Detect' },
+  { value: 'iso', label: 'ISO 8601' },
+  { value: 'dmy', label: 'DD/MM/YYYY' },
+  { value: 'mdy', label: 'MM/DD/YYYY' },
+  { value: 'ymd', label: 'YYYY-MM-DD' }
+];
+
+const DISPLAY_ZONE_KEY = 'display_timezone';
+
+export const getDisplayTimeZone = (): TimeZoneSetting => {
+  return localStorage.getItem(DISPLAY_ZONE_KEY) || 'local';
+};
+
+export const saveDisplayTimeZone = (zone: TimeZoneSetting) => {
+  if (zone === 'local') localStorage.removeItem(DISPLAY_ZONE_KEY);
+  else localStorage.setItem(DISPLAY_ZONE_KEY, zone);
+};
+
+// Value for the `timeZone` option of Intl formatters
+export const intlTimeZone = (zone: TimeZoneSetting = getDisplayTimeZone()): string | undefined => {
+  return zone === 'local' ? undefined : zone;
+};
+
+export const isValidTimeZone = (zone: string): boolean => {
+  if (zone === 'local') return true;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const listTimeZones = (): string[] => {
+  const supported = (Intl as any).supportedValuesOf;
+  if (typeof supported === 'function') {
+    try { return supported('timeZone'); } catch { /* fall through */ }
+  }
+  return ['UTC', 'Asia/Colombo', 'Asia/Kolkata', 'Asia/Dhaka', 'Asia/Bangkok', 'Asia/Manila', 'Europe/London', 'America/New_York'];
+};
+
+const formatterCache: Record<string, Intl.DateTimeFormat> = {};
+
+const zoneFormatter = (zone: string) => {
+  if (!formatterCache[zone]) {
+    formatterCache[zone] = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit'
+    });
+  }
+  return formatterCache[zone];
+};
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Wall-clock fields of an instant as seen in the given zone
+export const getZonedParts = (ts: number, zone: TimeZoneSetting = getDisplayTimeZone()): ZonedParts => {
+  if (zone === 'local') {
+    const d = new Date(ts);
+    return { year: d.getFullYear(), month: d.getMonth() + 1, day: d.getDate(), hour: d.getHours(), minute: d.getMinutes(), second: d.getSeconds() };
+  }
+  const parts: Record<string, number> = {};
+  zoneFormatter(zone).formatToParts(new Date(ts)).forEach(p => {
+    if (p.type !== 'literal') parts[p.type] = parseInt(p.value, 10);
+  });
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour % 24, minute: parts.minute, second: parts.second };
+};
+
+// Converts wall-clock fields in `zone` to a UTC epoch. The zone offset is
+// measured at the guessed instant and re-checked once to settle DST edges.
+export const zonedTimeToEpoch = (p: ZonedParts, zone: TimeZoneSetting): number => {
+  if (zone === 'local') {
+    return new Date(p.year, p.month - 1, p.day, p.hour, p.minute, p.second).getTime();
+  }
+  const wallAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const offsetAt = (ts: number) => {
+    const z = getZonedParts(ts, zone);
+    return Date.UTC(z.year, z.month - 1, z.day, z.hour, z.minute, z.second) - ts;
+  };
+  let guess = wallAsUtc - offsetAt(wallAsUtc);
+  const corrected = wallAsUtc - offsetAt(guess);
+  if (corrected !== guess) guess = corrected;
+  return guess;
+};
+
+// The offset must follow a time, so the year of a date-only "01-05-2024"
+// is not mistaken for one
+const HAS_EXPLICIT_ZONE = /\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})$/i;
+
+// Parses a timestamp written in `format` and logged in `zone`. Strings that
+// carry their own offset (ISO "Z" / "+05:30") ignore `zone`.
+export const parseTimestamp = (value: string, format: TimestampFormat = 'auto', zone: TimeZoneSetting = 'local'): number => {
+  if (!value) return 0;
+  const clean = String(value).trim().replace(/['"]/g, '');
+
+  if (HAS_EXPLICIT_ZONE.test(clean)) {
+    const native = Date.parse(clean);
+    if (!isNaN(native)) return native;
+  }
+
+  // Legacy behaviour for auto-detected local strings (and month names):
+  // trust the browser's parser when it yields something after year 2000
+  if (format === 'auto' && (zone === 'local' || /[a-z]{3}/i.test(clean.replace(/\b(am|pm)\b/i, '')))) {
+    const native = Date.parse(clean);
+    if (!isNaN(native) && native > 946684800000) return native;
+  }
+
+  const nums = clean.split(/[^0-9]+/).filter(Boolean).map(n => parseInt(n, 10));
+  if (nums.length < 3) {
+    const native = Date.parse(clean);
+    return isNaN(native) ? 0 : native;
+  }
+
+  let year = 0, month = 0, day = 0;
+  const [a, b, c] = nums;
+
+  switch (format) {
+    case 'iso':
+    case 'ymd':
+      year = a; month = b; day = c;
+      break;
+    case 'dmy':
+      day = a; month = b; year = c;
+      break;
+    case 'mdy':
+      month = a; day = b; year = c;
+      break;
+    default:
+      // Legacy guess: year position decides, and DD/MM only when the first
+      // number cannot be a month
+      if (a > 1000) { year = a; month = b; day = c; }
+      else if (c > 1000) {
+        year = c;
+        if (a > 12) { day = a; month = b; } else { month = a; day = b; }
+      }
+  }
+
+  if (year < 100 && year > 0) year += 2000;
+  if (!year || month < 1 || month > 12 || day < 1 || day > 31) return 0;
+
+  let hour = nums[3] || 0;
+  if (/\bpm\b/i.test(clean) && hour < 12) hour += 12;
+  if (/\bam\b/i.test(clean) && hour === 12) hour = 0;
+
+  const ts = zonedTimeToEpoch({
+    year, month, day,
+    hour,
+    minute: nums[4] || 0,
+    second: nums[5] || 0
+  }, zone);
+  return isNaN(ts) ? 0 : ts;
+};
+
+// Rewrites a timestamp as an ISO-8601 UTC string so every later parse is
+// unambiguous. Unreadable values are returned unchanged for validation to
+// reject.
+export const toCanonicalTime = (value: string, format: TimestampFormat = 'auto', zone: TimeZoneSetting = 'local'): string => {
+  if (!value) return value;
+  const ts = parseTimestamp(value, format, zone);
+  return ts > 0 ? new Date(ts).toISOString() : value;
+};
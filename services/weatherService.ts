@@ -43,6 +43,11 @@ export const getWeatherCondition = (code: number): string => {
   return 'Unknown';
 };
 
+// Rain counts as expected at over 50% chance or a significant volume (>5mm).
+// Irrigation advice and the low-water alert both wait for it.
+export const isRainExpected = (weather: WeatherData | null | undefined): boolean =>
+  (weather?.rainChance || 0) > 50 || (weather?.rainForecast24h || 0) > 5;
+
 export const fetchLocalWeather = async (lat: number, lon: number): Promise<WeatherData> => {
   try {
     // 1. Get Weather Data (7 Days + Hourly) including Wind and Humidity
@@ -0,0 +1,339 @@
+import { SensorData } from '../types';
+import { PlotAlert, PlotAlertKind } from './plotAlerts';
+import { plotLink } from './notificationService';
+import { formatDateTime } from './dataService';
+
+// --- WEBHOOKS ---
+// POSTs alert events to user-configured URLs, e.g. an SMS gateway or a
+// Telegram bot relay. Each hook has a body template with {{placeholders}};
+// failed deliveries are retried with backoff from a queue kept in
+// localStorage, and every attempt lands in a short delivery log.
+
+export type WebhookFormat = 'json' | 'form';
+export type WebhookEvent = 'raised' | 'cleared' | 'test';
+
+export interface WebhookConfig {
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+  format: WebhookFormat;
+  template: string;
+  headers: string;    // "Name: value" per line
+  sendCleared: boolean;
+  // For receivers without CORS headers: the reply cannot be read, so a sent
+  // request counts as delivered. JSON goes as text/plain, extra headers are dropped.
+  noCors?: boolean;
+}
+
+export interface WebhookDelivery {
+  ts: number;
+  webhookId: string;
+  webhookName: string;
+  event: WebhookEvent;
+  plotName: string;
+  attempt: number;
+  ok: boolean;
+  status: number | null;
+  error?: string;
+  retryAt?: number;   // set when another attempt is queued
+}
+
+// Values available to templates
+export interface WebhookVars {
+  event: WebhookEvent;
+  plot: string;
+  plotId: string;
+  level: number;
+  status: string;
+  alert: string;
+  message: string;
+  advice: string;
+  link: string;
+  time: string;
+}
+
+export const TEMPLATE_VARS: (keyof WebhookVars)[] = ['event', 'plot', 'plotId', 'level', 'status', 'alert', 'message', 'advice', 'link', 'time'];
+
+export const DEFAULT_TEMPLATES: Record<WebhookFormat, string> = {
+  json: `{
+  "event": "{{event}}",
+  "plot": "{{plot}}",
+  "level": {{level}},
+  "status": "{{status}}",
+  "alert": "{{alert}}",
+  "message": "{{message}}",
+  "advice": "{{advice}}",
+  "link": "{{link}}",
+  "time": "{{time}}"
+}`,
+  form: `text=SmartPaddy {{alert}} ({{event}}) on {{plot}}: {{message}} {{advice}} {{link}}`
+};
+
+const HOOKS_KEY = 'webhooks';
+const QUEUE_KEY = 'webhook_queue';
+const LOG_KEY = 'webhook_log';
+const ACTIVE_KEY = 'webhook_active_alerts';
+
+const LOG_LIMIT = 100;
+const REQUEST_TIMEOUT_MS = 15000;
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+const MAX_ATTEMPTS = 6;
+
+const ADVICE: Record<PlotAlertKind, string> = {
+  flood: 'Open the outlet and lower the spillway to drain the plot.',
+  low: 'Irrigate now and fill to the soil mark.',
+  stale: 'Check the sensor\'s battery and signal.',
+  rule: 'Check the plot.'
+};
+
+const load = <T>(key: string, fallback: T): T => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null') ?? fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+export const getWebhooks = (): WebhookConfig[] => load<WebhookConfig[]>(HOOKS_KEY, []);
+
+export const saveWebhooks = (hooks: WebhookConfig[]) => {
+  localStorage.setItem(HOOKS_KEY, JSON.stringify(hooks));
+};
+
+export const createWebhook = (): WebhookConfig => ({
+  id: `hook_${Date.now().toString(36)}`,
+  name: 'New Webhook',
+  url: '',
+  enabled: true,
+  format: 'json',
+  template: DEFAULT_TEMPLATES.json,
+  headers: '',
+  sendCleared: false,
+  noCors: false
+});
+
+export const getDeliveryLog = (): WebhookDelivery[] => load<WebhookDelivery[]>(LOG_KEY, []);
+
+export const clearDeliveryLog = () => localStorage.removeItem(LOG_KEY);
+
+const logDelivery = (entry: WebhookDelivery) => {
+  localStorage.setItem(LOG_KEY, JSON.stringify([entry, ...getDeliveryLog()].slice(0, LOG_LIMIT)));
+};
+
+// --- TEMPLATES ---
+
+const fill = (template: string, vars: WebhookVars, escape: (value: string) => string) =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in vars ? escape(String(vars[name as keyof WebhookVars])) : match);
+
+// Placeholders sit inside JSON strings, so values are escaped for that
+const jsonEscape = (value: string) => JSON.stringify(value).slice(1, -1);
+
+// Returns the request body, or throws when the filled template is not valid
+export const renderBody = (hook: WebhookConfig, vars: WebhookVars): { body: string, contentType: string } => {
+  if (hook.format === 'json') {
+    const body = fill(hook.template, vars, jsonEscape);
+    JSON.parse(body);
+    return { body, contentType: 'application/json' };
+  }
+  const params = new URLSearchParams();
+  hook.template.split('\n').filter(line => line.includes('=')).forEach(line => {
+    const at = line.indexOf('=');
+    params.append(line.slice(0, at).trim(), fill(line.slice(at + 1), vars, v => v));
+  });
+  return { body: params.toString(), contentType: 'application/x-www-form-urlencoded' };
+};
+
+// Template problems shown before saving, or null when it renders
+export const checkTemplate = (hook: WebhookConfig): string | null => {
+  try {
+    renderBody(hook, sampleVars('test'));
+    return null;
+  } catch (e: any) {
+    return `Not valid JSON once filled in: ${e.message}`;
+  }
+};
+
+const parseHeaders = (text: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  text.split('\n').forEach(line => {
+    const at = line.indexOf(':');
+    if (at > 0) headers[line.slice(0, at).trim()] = line.slice(at + 1).trim();
+  });
+  return headers;
+};
+
+const sampleVars = (event: WebhookEvent): WebhookVars => ({
+  event,
+  plot: 'Plot 1',
+  plotId: 'lora1',
+  level: 12.5,
+  status: 'Optimal',
+  alert: 'Test',
+  message: 'This is a test message from SmartPaddy.',
+  advice: 'No action needed.',
+  link: plotLink('lora1'),
+  time: formatDateTime(Date.now())
+});
+
+const alertVars = (alert: PlotAlert, event: WebhookEvent, sensor: SensorData | undefined, now: number): WebhookVars => ({
+  event,
+  plot: alert.plotName,
+  plotId: alert.plotId,
+  level: sensor?.currentLevel ?? 0,
+  status: sensor?.status ?? '',
+  alert: alert.label || alert.kind,
+  message: alert.message,
+  advice: event === 'cleared' ? 'No action needed.' : ADVICE[alert.kind],
+  link: plotLink(alert.plotId),
+  time: formatDateTime(now)
+});
+
+// --- DELIVERY ---
+
+interface QueuedDelivery {
+  id: string;
+  webhookId: string;
+  vars: WebhookVars;
+  attempt: number;    // attempts made so far
+  nextAttempt: number;
+}
+
+const getQueue = (): QueuedDelivery[] => load<QueuedDelivery[]>(QUEUE_KEY, []);
+const saveQueue = (queue: QueuedDelivery[]) => localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+
+// Doubling delay with equal jitter: half fixed, half random
+const retryDelay = (attempt: number) => {
+  const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempt - 1));
+  return delay / 2 + Math.random() * delay / 2;
+};
+
+// A no-cors request may only carry CORS-safelisted headers; the browser
+// would silently drop the rest, so they are left out here instead and JSON
+// is labelled as plain text
+const requestHeaders = (hook: WebhookConfig, contentType: string): Record<string, string> => {
+  if (!hook.noCors) return { 'Content-Type': contentType, ...parseHeaders(hook.headers) };
+  return { 'Content-Type': contentType === 'application/json' ? 'text/plain;charset=UTF-8' : contentType };
+};
+
+// `final` marks failures another attempt cannot fix
+const post = async (hook: WebhookConfig, vars: WebhookVars): Promise<{ ok: boolean, status: number | null, error?: string, final?: boolean }> => {
+  let request: { body: string, contentType: string };
+  try {
+    request = renderBody(hook, vars);
+  } catch (e: any) {
+    return { ok: false, status: null, error: `Template: ${e.message}`, final: true };
+  }
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(hook.url, {
+      method: 'POST',
+      headers: requestHeaders(hook, request.contentType),
+      body: request.body,
+      mode: hook.noCors ? 'no-cors' : 'cors',
+      signal: controller.signal
+    });
+    if (response.type === 'opaque') return { ok: true, status: null };
+    return response.ok ? { ok: true, status: response.status } : { ok: false, status: response.status, error: `HTTP ${response.status}` };
+  } catch (e: any) {
+    return { ok: false, status: null, error: controller.signal.aborted ? `No response after ${REQUEST_TIMEOUT_MS / 1000} s` : e.message || 'Network error' };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing: Promise<void> | null = null;
+
+const scheduleRetry = () => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  const queue = getQueue();
+  if (queue.length === 0) return;
+  const next = Math.min(...queue.map(q => q.nextAttempt));
+  retryTimer = setTimeout(() => { flushWebhookQueue(); }, Math.max(1000, next - Date.now()));
+};
+
+// Sends every queued delivery that is due. Runs one flush at a time.
+export const flushWebhookQueue = (now: number = Date.now()): Promise<void> => {
+  if (flushing) return flushing;
+  flushing = (async () => {
+    const hooks = getWebhooks();
+    const due = getQueue().filter(q => q.nextAttempt <= now);
+    for (const item of due) {
+      const hook = hooks.find(h => h.id === item.webhookId);
+      // The stored queue is re-read each time: a refresh may add to it
+      // while a request is in flight
+      const others = () => getQueue().filter(q => q.id !== item.id);
+      if (!hook || !hook.enabled || !hook.url) {
+        saveQueue(others());
+        continue;
+      }
+      const attempt = item.attempt + 1;
+      const { final, ...result } = await post(hook, item.vars);
+      const retryAt = !result.ok && !final && attempt < MAX_ATTEMPTS ? Date.now() + retryDelay(attempt) : undefined;
+      logDelivery({
+        ts: Date.now(),
+        webhookId: hook.id,
+        webhookName: hook.name,
+        event: item.vars.event,
+        plotName: item.vars.plot,
+        attempt,
+        ...result,
+        retryAt
+      });
+      saveQueue(retryAt ? [...others(), { ...item, attempt, nextAttempt: retryAt }] : others());
+    }
+  })().finally(() => {
+    flushing = null;
+    scheduleRetry();
+  });
+  return flushing;
+};
+
+const enqueue = (hooks: WebhookConfig[], vars: WebhookVars, now: number) => {
+  const items: QueuedDelivery[] = hooks.map(hook => ({
+    id: `${hook.id}|${vars.plotId}|${vars.alert}|${vars.event}|${now}`,
+    webhookId: hook.id,
+    vars,
+    attempt: 0,
+    nextAttempt: now
+  }));
+  saveQueue([...getQueue(), ...items]);
+};
+
+type ActiveAlert = Pick<PlotAlert, 'key' | 'plotId' | 'plotName' | 'kind' | 'label' | 'message'>;
+
+// Called with the active alerts after every refresh; sends an event for each
+// alert that started and, where a hook asks for it, each one that ended
+export const dispatchWebhooks = (alerts: PlotAlert[], sensors: SensorData[], now: number = Date.now()) => {
+  const hooks = getWebhooks().filter(h => h.enabled && h.url);
+  const previous = load<ActiveAlert[]>(ACTIVE_KEY, []);
+  const active: ActiveAlert[] = alerts.map(({ key, plotId, plotName, kind, label, message }) => ({ key, plotId, plotName, kind, label, message }));
+  localStorage.setItem(ACTIVE_KEY, JSON.stringify(active));
+  if (hooks.length === 0) return;
+
+  const sensorFor = (plotId: string) => sensors.find(s => s.id === plotId);
+  alerts.filter(a => !previous.some(p => p.key === a.key)).forEach(a => {
+    enqueue(hooks, alertVars(a, 'raised', sensorFor(a.plotId), now), now);
+  });
+  const clearedHooks = hooks.filter(h => h.sendCleared);
+  if (clearedHooks.length > 0) {
+    previous.filter(p => !alerts.some(a => a.key === p.key)).forEach(p => {
+      enqueue(clearedHooks, alertVars({ ...p, value: 0, unit: '' }, 'cleared', sensorFor(p.plotId), now), now);
+    });
+  }
+  flushWebhookQueue(now);
+};
+
+// One attempt with sample values, logged but never retried
+export const sendTestWebhook = async (hook: WebhookConfig): Promise<WebhookDelivery> => {
+  const vars = sampleVars('test');
+  const { final, ...result } = await post(hook, vars);
+  const entry: WebhookDelivery = { ts: Date.now(), webhookId: hook.id, webhookName: hook.name, event: 'test', plotName: vars.plot, attempt: 1, ...result };
+  logDelivery(entry);
+  return entry;
+};
@@ -11,16 +11,49 @@ export interface SheetRow {
   "WiFi Strength (dBm)": number | string;
   "GSM Strength (RSSI)": number | string;
   "SD Free (MB)": number | string;
+  // Node telemetry; older firmware and the gateway sheet may not send these
+  "Battery (V)"?: number;
+  "Board Temp (°C)"?: number;
+  "LoRa RSSI (dBm)"?: number;
+  "LoRa SNR (dB)"?: number;
+  "Spreading Factor"?: number;
+  // Gateway that relayed the row; filled in on ingest when the source omits it
+  "Gateway ID"?: string;
 }
 
+export interface HistoryPoint {
+  time: string;
+  ts: number;
+  level: number;      // calibrated and filtered
+  rawLevel?: number;  // calibrated, before spike filtering
+  flagged?: boolean;  // rejected by the spike filter
+  flagReason?: string;
+}
+
+export type PlotStatus = 'Low' | 'Good' | 'Excess' | 'Flood Alert' | 'Unknown';
+
+// How the app arrived at a plot's status, next to what the device reported
+export interface StatusAssessment {
+  reported: string;      // the row's "Status" column
+  agrees: boolean;       // false when the device's status differs from ours
+  reasons: string[];
+  risePerHour: number;   // cm/h over the recent window
+}
+
+// 'stale' after a few missed transmissions, 'offline' after many
+export type Freshness = 'live' | 'stale' | 'offline';
+
 export interface SensorData {
   id: string;
   name: string;
   currentLevel: number;
   lastUpdated: string;
-  status: 'Low' | 'Good' | 'Excess' | 'Flood Alert' | 'Unknown';
-  history: { time: string; level: number }[];
+  status: PlotStatus; // computed locally, see statusEngine
+  history: HistoryPoint[];
   raw: SheetRow;
+  assessment?: StatusAssessment;
+  freshness?: Freshness;
+  expectedInterval?: number; // ms between transmissions
 }
 
 export interface GatewayStatus {
@@ -32,3 +65,30 @@ export interface GatewayStatus {
   lastBatchUpload: string;
   source?: string;
 }
+
+export interface GatewaySample {
+  ts: number;
+  network: string;
+  simOperator: string;
+  wifiSignal: number | null;
+  gsmSignal: number | null;
+  sdFree: number | null;
+}
+
+export interface Gateway {
+  id: string;
+  name: string;
+  kind: 'lora-gateway' | 'standalone';
+  nodes: string[];          // device IDs it has relayed
+  status: GatewayStatus;    // latest values
+  lastSeen: number;
+  history: GatewaySample[]; // Oldest -> Newest, one per upload
+}
+
+export interface SensorSnapshot {
+  sensors: SensorData[];
+  gateways: Gateway[];
+  logs: SheetRow[];
+  // Set by a refresh: false when no source answered from the network
+  live?: boolean;
+}